@@ -0,0 +1,90 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useStore } from "@/hooks/use-store";
+import type { CatalogSelection } from "@shared/schema";
+
+export interface CatalogSelectionPreview {
+  count: number;
+  products: number;
+  variantsWithoutSku: number;
+}
+
+const selectionOptions: Array<{ value: CatalogSelection["by"]; label: string; placeholder: string }> = [
+  { value: "collection", label: "Collection", placeholder: "Collection handle or ID, e.g. filtration" },
+  { value: "vendor", label: "Vendor", placeholder: "e.g. Foxx Life Sciences" },
+  { value: "productType", label: "Product type", placeholder: "e.g. Bottle Top Filter" },
+  { value: "tag", label: "Tag", placeholder: "e.g. filtration" },
+];
+
+interface CatalogSelectionPickerProps {
+  value: CatalogSelection;
+  onChange: (value: CatalogSelection) => void;
+  preview: CatalogSelectionPreview | null;
+  onPreviewChange: (preview: CatalogSelectionPreview | null) => void;
+  maxItems: number;
+}
+
+// Batch source that takes every SKU in a collection, from a vendor, of a product type or with a tag
+export default function CatalogSelectionPicker({ value, onChange, preview, onPreviewChange, maxItems }: CatalogSelectionPickerProps) {
+  const { storeId } = useStore();
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/catalog/selection", { ...value, storeId });
+      return response.json() as Promise<CatalogSelectionPreview>;
+    },
+    onSuccess: onPreviewChange,
+  });
+
+  // A changed selection invalidates the last count
+  const update = (next: CatalogSelection) => {
+    onChange(next);
+    onPreviewChange(null);
+    previewMutation.reset();
+  };
+
+  const option = selectionOptions.find(option => option.value === value.by)!;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <Select value={value.by} onValueChange={(by: CatalogSelection["by"]) => update({ ...value, by })}>
+          <SelectTrigger className="w-40" id="catalog-selection-by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {selectionOptions.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          id="catalog-selection-value"
+          placeholder={option.placeholder}
+          value={value.value}
+          onChange={(e) => update({ ...value, value: e.target.value })}
+        />
+        <Button
+          variant="outline"
+          onClick={() => previewMutation.mutate()}
+          disabled={!value.value.trim() || previewMutation.isPending}
+        >
+          {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Preview"}
+        </Button>
+      </div>
+      {preview && (
+        <p className={`text-xs ${preview.count > maxItems ? "text-red-600" : "text-gray-600"}`}>
+          {preview.count} SKUs in {preview.products} products
+          {preview.variantsWithoutSku > 0 && ` (${preview.variantsWithoutSku} variants without a SKU are skipped)`}
+          {preview.count > maxItems && ` - more than the ${maxItems} allowed per batch`}
+        </p>
+      )}
+      {previewMutation.isError && (
+        <p className="text-xs text-red-600">{previewMutation.error.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useRef, useState } from "react";
+import { Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface FileDropZoneProps {
+  accept: string; // e.g. "image/*" or "application/pdf"
+  multiple?: boolean;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  title: string;
+  description: string;
+  disabled?: boolean;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Drag-and-drop or click-to-browse file picker. The server re-checks type and size limits.
+export default function FileDropZone({
+  accept,
+  multiple = false,
+  files,
+  onFilesChange,
+  title,
+  description,
+  disabled = false,
+}: FileDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const matchesAccept = (file: File) => accept.split(",").some(pattern => {
+    const type = pattern.trim();
+    if (type.endsWith("/*")) return file.type.startsWith(type.slice(0, -1));
+    if (type.startsWith(".")) return file.name.toLowerCase().endsWith(type);
+    return file.type === type;
+  });
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const accepted = Array.from(fileList).filter(matchesAccept);
+    if (accepted.length === 0) return;
+    onFilesChange(multiple ? [...files, ...accepted] : accepted.slice(0, 1));
+  };
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!disabled && (e.key === "Enter" || e.key === " ")) inputRef.current?.click();
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          if (!disabled) addFiles(e.dataTransfer.files);
+        }}
+        className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+          isDragging ? "border-blue-400 bg-blue-50" : "border-gray-300 hover:bg-gray-50"
+        } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+      >
+        <Upload className="mx-auto h-6 w-6 text-gray-400 mb-2" />
+        <p className="text-sm font-medium text-gray-700">{title}</p>
+        <p className="text-xs text-gray-500">{description}</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={accept}
+          multiple={multiple}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-xs bg-gray-50 rounded px-2 py-1">
+              <span className="truncate">{file.name}</span>
+              <span className="flex items-center space-x-2 flex-shrink-0">
+                <span className="text-gray-500">{formatFileSize(file.size)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { CropStrategy, FitMode, Gravity } from "@shared/schema";
+
+interface FitPreviewProps {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+  fit: FitMode;
+  gravity: Gravity;
+  background: string;
+  cropStrategy?: CropStrategy;
+}
+
+// CSS object-position equivalents of the server-side crop anchors
+const gravityPositions: Record<Gravity, string> = {
+  center: "center",
+  north: "center top",
+  northeast: "right top",
+  east: "right center",
+  southeast: "right bottom",
+  south: "center bottom",
+  southwest: "left bottom",
+  west: "left center",
+  northwest: "left top",
+};
+
+// Approximates the server-side resize in the browser so the crop/pad can be checked before converting
+export default function FitPreview({ src, alt, width, height, fit, gravity, background, cropStrategy = "gravity" }: FitPreviewProps) {
+  // With an 'auto' side, or with 'inside', the output takes the source aspect ratio
+  const hasFixedBox = !!(width && height) && fit !== "inside";
+
+  return (
+    <div>
+      <div
+        className="mx-auto max-h-64 border border-dashed border-gray-300 rounded-md overflow-hidden flex items-center justify-center"
+        style={{
+          aspectRatio: hasFixedBox ? `${width} / ${height}` : undefined,
+          maxWidth: hasFixedBox ? `calc(16rem * ${width} / ${height})` : undefined,
+          backgroundColor: fit === "contain" ? background : undefined,
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          className={hasFixedBox ? "w-full h-full" : "max-h-64 object-contain"}
+          style={hasFixedBox ? {
+            objectFit: fit,
+            objectPosition: fit === "cover" && cropStrategy === "gravity" ? gravityPositions[gravity] : "center",
+          } : undefined}
+        />
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-2">
+        Output preview{width || height ? ` (${width ?? "auto"} × ${height ?? "auto"}, ${fit})` : ""}
+      </p>
+      {fit === "cover" && cropStrategy !== "gravity" && (
+        <p className="text-xs text-amber-600 text-center mt-1">
+          Smart cropping is decided on the server - the preview shows a centered crop
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,21 @@
+import { Link, useLocation } from "wouter";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useStore } from "@/hooks/use-store";
 
 export default function Header() {
+  const { stores, store, setStoreId } = useStore();
+  const [location] = useLocation();
+
+  const navLink = (href: string, label: string) => (
+    <Link
+      href={href}
+      className={`text-sm font-medium ${location === href ? "text-gray-900" : "text-gray-500 hover:text-gray-700"}`}
+    >
+      {label}
+    </Link>
+  );
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -15,11 +30,34 @@ export default function Header() {
               <h1 className="text-xl font-semibold text-gray-900">Internal Tools</h1>
               <p className="text-sm text-gray-500">Image Conversion System</p>
             </div>
+            <nav className="flex items-center space-x-4 pl-4">
+              {navLink("/", "Converter")}
+              {navLink("/audit", "Image Audit")}
+            </nav>
           </div>
           <div className="flex items-center space-x-3">
-            <Badge variant="secondary" className="bg-green-100 text-green-800">
-              Connected to shopfls.myshopify.com
-            </Badge>
+            {stores.length > 1 ? (
+              <Select value={store?.id} onValueChange={setStoreId}>
+                <SelectTrigger className="w-64" aria-label="Shopify store">
+                  <SelectValue placeholder="Select a store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stores.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name} ({option.domain})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : store?.configured ? (
+              <Badge variant="secondary" className="bg-green-100 text-green-800">
+                Connected to {store.domain}
+              </Badge>
+            ) : store && (
+              <Badge variant="secondary" className="bg-red-100 text-red-800">
+                Shopify store not configured
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -4,24 +4,36 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, uploadRequest } from "@/lib/queryClient";
+import { outputFormatDetails, type OutputFormat } from "@shared/schema";
+import FileDropZone from "@/components/file-drop-zone";
+import PresetPicker, { buildSizeRequest, ORIGINAL_SIZE, type PrintSizeInput } from "@/components/preset-picker";
 
 export default function PdfConverter() {
   const [pdfUrl, setPdfUrl] = useState("");
-  const [dimensions, setDimensions] = useState("original");
+  const [pdfFile, setPdfFile] = useState<File[]>([]);
+  const [sizeSelection, setSizeSelection] = useState(ORIGINAL_SIZE);
+  const [customDimensions, setCustomDimensions] = useState("1000x1000");
+  const [printSize, setPrintSize] = useState<PrintSizeInput>({ width: "8.5", height: "11", unit: "in" });
+  const [dpi, setDpi] = useState("150");
+  const [format, setFormat] = useState<OutputFormat>("jpeg");
   const { toast } = useToast();
 
   // Process PDF mutation
   const processPdfMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/process-pdf', {
-        url: pdfUrl,
-        dimensions
-      });
-      return response;
+      const options = {
+        ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+        dpi: Number(dpi),
+        format
+      };
+      if (pdfFile[0]) {
+        return await uploadRequest('/api/upload-pdf', pdfFile, options);
+      }
+      return await apiRequest('POST', '/api/process-pdf', { url: pdfUrl, ...options });
     },
     onSuccess: async (response) => {
       const blob = await response.blob();
@@ -36,6 +48,14 @@ export default function PdfConverter() {
         title: "Success!",
         description: "PDF pages extracted and downloaded as ZIP",
       });
+
+      const warnings = response.headers.get('X-Processing-Warnings');
+      if (warnings) {
+        toast({
+          title: "Quality warning",
+          description: warnings,
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -47,10 +67,15 @@ export default function PdfConverter() {
   });
 
   const handleProcess = () => {
+    if (pdfFile.length > 0) {
+      processPdfMutation.mutate();
+      return;
+    }
+
     if (!pdfUrl.trim()) {
       toast({
         title: "Error",
-        description: "Please enter a PDF URL",
+        description: "Please enter a PDF URL or drop a PDF file",
         variant: "destructive",
       });
       return;
@@ -87,38 +112,75 @@ export default function PdfConverter() {
               type="url"
               placeholder="https://example.com/document.pdf"
               value={pdfUrl}
-              onChange={(e) => setPdfUrl(e.target.value)}
+              onChange={(e) => {
+                setPdfUrl(e.target.value);
+                setPdfFile([]);
+              }}
               className="mt-2"
             />
             <p className="text-xs text-gray-500 mt-1">Enter the direct URL to the PDF file</p>
+            <div className="mt-3">
+              <FileDropZone
+                accept="application/pdf,.pdf"
+                files={pdfFile}
+                onFilesChange={(files) => {
+                  setPdfFile(files);
+                  if (files.length > 0) setPdfUrl("");
+                }}
+                title="Or drop a PDF from your computer"
+                description="Up to 100 MB"
+              />
+            </div>
           </div>
 
           {/* Output Format */}
           <div>
             <Label className="text-sm font-medium mb-3 block">Output Format</Label>
-            <RadioGroup value={dimensions} onValueChange={setDimensions}>
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="original" id="pdf-original" />
-                <Label htmlFor="pdf-original" className="cursor-pointer flex-1">
-                  <div className="font-medium">Original PDF Size</div>
-                  <div className="text-xs text-gray-500">Keep original document dimensions</div>
-                </Label>
-              </div>
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="342x427" id="pdf-dim1" />
-                <Label htmlFor="pdf-dim1" className="cursor-pointer flex-1">
-                  <div className="font-medium">Standard (342 × 427)</div>
-                  <div className="text-xs text-gray-500">Portrait format for product displays</div>
-                </Label>
-              </div>
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="600x600" id="pdf-dim2" />
-                <Label htmlFor="pdf-dim2" className="cursor-pointer flex-1">
-                  <div className="font-medium">Square (600 × 600)</div>
-                  <div className="text-xs text-gray-500">Square format for social media</div>
-                </Label>
-              </div>
-            </RadioGroup>
+            <PresetPicker
+              idPrefix="pdf-dim"
+              includeOriginal
+              value={sizeSelection}
+              onChange={(value, preset) => {
+                setSizeSelection(value);
+                if (preset) setFormat(preset.format as OutputFormat);
+              }}
+              customDimensions={customDimensions}
+              onCustomDimensionsChange={setCustomDimensions}
+              printSize={printSize}
+              onPrintSizeChange={setPrintSize}
+            />
+          </div>
+
+          {/* Render DPI */}
+          <div>
+            <Label htmlFor="pdf-dpi-select">DPI</Label>
+            <Select value={dpi} onValueChange={setDpi}>
+              <SelectTrigger id="pdf-dpi-select" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="72">72 DPI (Screen)</SelectItem>
+                <SelectItem value="150">150 DPI (Standard)</SelectItem>
+                <SelectItem value="300">300 DPI (Print)</SelectItem>
+                <SelectItem value="600">600 DPI (High Quality)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">Pages are rendered at this resolution and tagged with it</p>
+          </div>
+
+          {/* Image Format */}
+          <div>
+            <Label htmlFor="pdf-format-select">Image Format</Label>
+            <Select value={format} onValueChange={(value: OutputFormat) => setFormat(value)}>
+              <SelectTrigger id="pdf-format-select" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(outputFormatDetails) as OutputFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>{outputFormatDetails[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Process Button */}
@@ -161,7 +223,7 @@ export default function PdfConverter() {
                 <FileText className="w-6 h-6 text-gray-400" />
               </div>
               <h3 className="text-sm font-medium text-gray-900 mb-1">No PDF loaded</h3>
-              <p className="text-sm text-gray-500">Enter a PDF URL to extract pages</p>
+              <p className="text-sm text-gray-500">Enter a PDF URL or drop a PDF to extract pages</p>
             </div>
           )}
         </CardContent>
@@ -0,0 +1,189 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { ImagePreset, PrintSize } from "@shared/schema";
+
+// Special selections besides preset ids
+export const CUSTOM_SIZE = "custom";
+export const ORIGINAL_SIZE = "original";
+export const PRINT_SIZE = "print";
+
+const MM_PER_INCH = 25.4;
+
+// Print-size form fields, kept as strings while the user types
+export interface PrintSizeInput {
+  width: string;
+  height: string;
+  unit: PrintSize["unit"];
+}
+
+interface PresetPickerProps {
+  value: string;
+  onChange: (value: string, preset?: ImagePreset) => void;
+  customDimensions: string;
+  onCustomDimensionsChange: (value: string) => void;
+  printSize: PrintSizeInput;
+  onPrintSizeChange: (value: PrintSizeInput) => void;
+  idPrefix: string;
+  includeOriginal?: boolean;
+}
+
+export function formatPresetSize(preset: Pick<ImagePreset, "width" | "height">): string {
+  if (preset.width && preset.height) return `${preset.width} × ${preset.height}`;
+  if (preset.width) return `${preset.width} wide`;
+  return `${preset.height} high`;
+}
+
+function parsePrintSize(printSize: PrintSizeInput): PrintSize {
+  return {
+    width: Number(printSize.width) || undefined,
+    height: Number(printSize.height) || undefined,
+    unit: printSize.unit,
+  };
+}
+
+// Builds the preset/dimensions/printSize part of a processing request from a picker selection
+export function buildSizeRequest(
+  selection: string,
+  customDimensions: string,
+  printSize?: PrintSizeInput,
+): { preset?: string; dimensions?: string; printSize?: PrintSize } {
+  if (selection === CUSTOM_SIZE) return { dimensions: customDimensions.trim().toLowerCase() };
+  if (selection === ORIGINAL_SIZE) return { dimensions: ORIGINAL_SIZE };
+  if (selection === PRINT_SIZE && printSize) return { printSize: parsePrintSize(printSize) };
+  return { preset: selection };
+}
+
+// Output size for a picker selection, undefined sides are 'auto'
+export function getSelectionSize(
+  selection: string,
+  customDimensions: string,
+  presets: ImagePreset[] | undefined,
+  printSize?: PrintSizeInput,
+  dpi?: number,
+): { width?: number; height?: number } {
+  if (selection === CUSTOM_SIZE) {
+    const [width, height] = customDimensions.trim().toLowerCase().split("x").map(side => Number(side) || undefined);
+    return { width, height };
+  }
+  if (selection === PRINT_SIZE && printSize && dpi) {
+    // Same conversion as the server: inches × DPI, rounded to whole pixels
+    const { width, height, unit } = parsePrintSize(printSize);
+    const toPixels = (size?: number) => size ? Math.max(1, Math.round((unit === "mm" ? size / MM_PER_INCH : size) * dpi)) : undefined;
+    return { width: toPixels(width), height: toPixels(height) };
+  }
+  const preset = presets?.find(p => p.id === selection);
+  return { width: preset?.width ?? undefined, height: preset?.height ?? undefined };
+}
+
+export default function PresetPicker({
+  value,
+  onChange,
+  customDimensions,
+  onCustomDimensionsChange,
+  printSize,
+  onPrintSizeChange,
+  idPrefix,
+  includeOriginal = false,
+}: PresetPickerProps) {
+  const { data: presets, isLoading } = useQuery<ImagePreset[]>({
+    queryKey: ['/api/presets'],
+  });
+
+  const handleChange = (selection: string) => {
+    onChange(selection, presets?.find(preset => preset.id === selection));
+  };
+
+  return (
+    <RadioGroup value={value} onValueChange={handleChange}>
+      {includeOriginal && (
+        <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
+          <RadioGroupItem value={ORIGINAL_SIZE} id={`${idPrefix}-original`} />
+          <Label htmlFor={`${idPrefix}-original`} className="cursor-pointer flex-1">
+            <div className="font-medium">Original PDF Size</div>
+            <div className="text-xs text-gray-500">Keep original document dimensions</div>
+          </Label>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center text-sm text-gray-500 p-3">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading presets...
+        </div>
+      )}
+
+      {presets?.map((preset) => (
+        <div key={preset.id} className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
+          <RadioGroupItem value={preset.id} id={`${idPrefix}-${preset.id}`} />
+          <Label htmlFor={`${idPrefix}-${preset.id}`} className="cursor-pointer flex-1">
+            <div className="font-medium">{preset.name} ({formatPresetSize(preset)})</div>
+            {preset.description && (
+              <div className="text-xs text-gray-500">{preset.description}</div>
+            )}
+          </Label>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
+        <RadioGroupItem value={CUSTOM_SIZE} id={`${idPrefix}-custom`} />
+        <Label htmlFor={`${idPrefix}-custom`} className="cursor-pointer">
+          <div className="font-medium">Custom</div>
+          <div className="text-xs text-gray-500">W×H, use auto for one side</div>
+        </Label>
+        <Input
+          value={customDimensions}
+          onChange={(e) => onCustomDimensionsChange(e.target.value)}
+          onFocus={() => handleChange(CUSTOM_SIZE)}
+          placeholder="1000x1000"
+          className="ml-auto w-32"
+        />
+      </div>
+
+      <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
+        <RadioGroupItem value={PRINT_SIZE} id={`${idPrefix}-print`} />
+        <Label htmlFor={`${idPrefix}-print`} className="cursor-pointer">
+          <div className="font-medium">Print Size</div>
+          <div className="text-xs text-gray-500">Physical size at the chosen DPI</div>
+        </Label>
+        <div className="ml-auto flex items-center space-x-1">
+          <Input
+            value={printSize.width}
+            onChange={(e) => onPrintSizeChange({ ...printSize, width: e.target.value })}
+            onFocus={() => handleChange(PRINT_SIZE)}
+            placeholder="W"
+            aria-label="Print width"
+            className="w-16"
+          />
+          <span className="text-xs text-gray-500">×</span>
+          <Input
+            value={printSize.height}
+            onChange={(e) => onPrintSizeChange({ ...printSize, height: e.target.value })}
+            onFocus={() => handleChange(PRINT_SIZE)}
+            placeholder="H"
+            aria-label="Print height"
+            className="w-16"
+          />
+          <Select
+            value={printSize.unit}
+            onValueChange={(unit: PrintSize["unit"]) => {
+              onPrintSizeChange({ ...printSize, unit });
+              handleChange(PRINT_SIZE);
+            }}
+          >
+            <SelectTrigger className="w-16" aria-label="Print unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="in">in</SelectItem>
+              <SelectItem value="mm">mm</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </RadioGroup>
+  );
+}
@@ -0,0 +1,93 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { normalizeSku, selectProductImages, type ImageSelector, type ShopifyProduct } from "@shared/schema";
+
+interface ImageSelectorPickerProps {
+  value: ImageSelector;
+  onChange: (value: ImageSelector) => void;
+  idPrefix: string;
+}
+
+// Picks which product image SKUs convert; 'index' is normally set by clicking a gallery image
+export function ImageSelectorPicker({ value, onChange, idPrefix }: ImageSelectorPickerProps) {
+  return (
+    <div className="space-y-2">
+      <Select
+        value={value.type}
+        onValueChange={(type: ImageSelector["type"]) => {
+          if (type === "index") onChange({ type, index: value.type === "index" ? value.index : 0 });
+          else if (type === "alt") onChange({ type, match: value.type === "alt" ? value.match : "" });
+          else onChange({ type });
+        }}
+      >
+        <SelectTrigger id={`${idPrefix}-image-selector`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="variant">Variant image (first image if the variant has none)</SelectItem>
+          <SelectItem value="primary">First image</SelectItem>
+          <SelectItem value="index">Image by position</SelectItem>
+          <SelectItem value="alt">Image by alt text</SelectItem>
+          <SelectItem value="all">All images (SKU-1, SKU-2, ...)</SelectItem>
+        </SelectContent>
+      </Select>
+      {value.type === "index" && (
+        <div className="flex items-center space-x-2">
+          <Label htmlFor={`${idPrefix}-image-index`} className="text-xs text-gray-500">Position</Label>
+          <Input
+            id={`${idPrefix}-image-index`}
+            type="number"
+            min={1}
+            className="w-24"
+            value={value.index + 1}
+            onChange={(e) => onChange({ type: "index", index: Math.max(0, (Number(e.target.value) || 1) - 1) })}
+          />
+        </div>
+      )}
+      {value.type === "alt" && (
+        <Input
+          id={`${idPrefix}-image-alt`}
+          placeholder="Part of the alt text, e.g. front"
+          value={value.match}
+          onChange={(e) => onChange({ type: "alt", match: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ProductGalleryProps {
+  product: ShopifyProduct;
+  sku: string;
+  selector: ImageSelector;
+  onSelect: (value: ImageSelector) => void;
+}
+
+// Thumbnails of every product image; the ones the selector picks are outlined and clicking another picks it
+export default function ProductGallery({ product, sku, selector, onSelect }: ProductGalleryProps) {
+  const selected = new Set(selectProductImages(product, sku, selector).map(({ image }) => image.id));
+  const variant = product.variants.find(variant => normalizeSku(variant.sku) === normalizeSku(sku));
+
+  if (product.images.length < 2) return null;
+
+  return (
+    <div className="grid grid-cols-5 gap-2 mt-3">
+      {product.images.map((image, index) => (
+        <button
+          key={image.id}
+          type="button"
+          onClick={() => onSelect({ type: "index", index })}
+          className={`relative aspect-square rounded-md overflow-hidden border-2 ${selected.has(image.id) ? "border-primary" : "border-transparent hover:border-gray-300"}`}
+          title={image.alt || `Image ${index + 1}`}
+        >
+          <img src={image.src} alt={image.alt || ""} className="w-full h-full object-cover" />
+          {variant?.image_id === image.id && (
+            <Badge variant="secondary" className="absolute bottom-0.5 left-0.5 px-1 py-0 text-[10px]">Variant</Badge>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import type { PublishOptions } from "@shared/schema";
+
+interface PublishOptionsPickerProps {
+  value: PublishOptions | null; // null leaves the store alone
+  onChange: (value: PublishOptions | null) => void;
+}
+
+// Optional last step of a batch: upload the converted SKU images to their Shopify products.
+// Turning it on starts in dry-run mode so the first run only reports what would change.
+export default function PublishOptionsPicker({ value, onChange }: PublishOptionsPickerProps) {
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="publish-enabled">Publish to Shopify</Label>
+          <p className="text-xs text-gray-500">Add the converted SKU images to their products as media</p>
+        </div>
+        <Switch
+          id="publish-enabled"
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? { mode: "append", dryRun: true } : null)}
+        />
+      </div>
+      {value && (
+        <>
+          <RadioGroup
+            value={value.mode}
+            onValueChange={(mode: PublishOptions["mode"]) => onChange({ ...value, mode })}
+            className="flex items-center space-x-4"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="append" id="publish-append" />
+              <Label htmlFor="publish-append">Add to existing media</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="publish-replace" />
+              <Label htmlFor="publish-replace">Replace the source images</Label>
+            </div>
+          </RadioGroup>
+          <div>
+            <Label htmlFor="publish-alt" className="text-xs text-gray-600">Alt text</Label>
+            <Input
+              id="publish-alt"
+              placeholder="Keep the source image's alt text, or e.g. {title} - {sku}"
+              value={value.altText ?? ""}
+              onChange={(e) => onChange({ ...value, altText: e.target.value || undefined })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="publish-dry-run">Dry run</Label>
+              <p className="text-xs text-gray-500">Report what would be uploaded and replaced without changing the store</p>
+            </div>
+            <Switch
+              id="publish-dry-run"
+              checked={value.dryRun}
+              onCheckedChange={(dryRun) => onChange({ ...value, dryRun })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
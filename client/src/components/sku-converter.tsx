@@ -7,57 +7,133 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, Download, Image as ImageIcon, CheckCircle, XCircle, Clock, RefreshCw, Trash2 } from "lucide-react";
+import { Loader2, Download, Image as ImageIcon, CheckCircle, XCircle, Clock, RefreshCw, Trash2, Pause, Play, Square, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useStore, withStoreId } from "@/hooks/use-store";
+import { apiRequest, uploadRequest } from "@/lib/queryClient";
+import { outputFormatDetails, selectProductImage, type OutputFormat, type FitMode, type Gravity, type CropStrategy, type ImagePreset, type ImageSelector, type ShopifyProduct, type CatalogSelection, type BatchItemPublication, type PublishOptions, type SkuSuggestion } from "@shared/schema";
+import PresetPicker, { buildSizeRequest, getSelectionSize, type PrintSizeInput } from "@/components/preset-picker";
+import FitPreview from "@/components/fit-preview";
+import FileDropZone from "@/components/file-drop-zone";
+import ProductGallery, { ImageSelectorPicker } from "@/components/product-gallery";
+import CatalogSelectionPicker, { type CatalogSelectionPreview } from "@/components/catalog-selection-picker";
+import PublishOptionsPicker from "@/components/publish-options";
+import SkuTypeahead from "@/components/sku-typeahead";
 
-interface Product {
-  id: number;
-  title: string;
-  images: Array<{ src: string; alt: string | null }>;
-}
+const fitModeOptions: Array<{ value: FitMode; label: string; description: string }> = [
+  { value: "cover", label: "Cover", description: "Fill the box, crop what overflows" },
+  { value: "contain", label: "Contain", description: "Fit the whole image, pad with a color" },
+  { value: "inside", label: "Inside", description: "Fit the whole image, no padding" },
+  { value: "fill", label: "Fill", description: "Stretch to the exact size" },
+];
+
+const gravityOptions: Array<{ value: Gravity; label: string }> = [
+  { value: "center", label: "Center" },
+  { value: "north", label: "Top" },
+  { value: "south", label: "Bottom" },
+  { value: "west", label: "Left" },
+  { value: "east", label: "Right" },
+  { value: "northwest", label: "Top left" },
+  { value: "northeast", label: "Top right" },
+  { value: "southwest", label: "Bottom left" },
+  { value: "southeast", label: "Bottom right" },
+];
+
+const cropStrategyOptions: Array<{ value: CropStrategy; label: string }> = [
+  { value: "gravity", label: "Anchor position" },
+  { value: "attention", label: "Smart - most salient area" },
+  { value: "entropy", label: "Smart - most detailed area" },
+  { value: "bbox", label: "Product bounding box" },
+];
+
+type Product = ShopifyProduct;
 
 interface ProcessingItem {
   id: string;
-  type: 'sku' | 'url';
+  type: 'sku' | 'url' | 'upload';
   input: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  result?: {
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  outputs?: Array<{
     filename: string;
-    previewUrl?: string;
-  };
+    previewUrl: string;
+  }>; // several in all-images mode
+  publication?: BatchItemPublication;
+  warnings?: string[];
   error?: string;
+  attempts?: number;
+}
+
+// A 404 from /api/product carries close matches for a mistyped SKU
+function getSuggestedSkus(error: Error): string[] {
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(':') + 1));
+    return (body.suggestions ?? []).map((suggestion: SkuSuggestion) => suggestion.sku);
+  } catch {
+    return [];
+  }
 }
 
 interface BatchJob {
   id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: {
     total: number;
     completed: number;
     failed: number;
+    cancelled: number;
   };
   items: ProcessingItem[];
   startedAt?: string;
   completedAt?: string;
 }
 
+const batchStatusLabels: Record<BatchJob['status'], string> = {
+  pending: 'Queued',
+  processing: 'In Progress',
+  paused: 'Paused',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
 export default function SkuConverter() {
   const [mode, setMode] = useState<"single" | "bulk">("single");
   const [singleInput, setSingleInput] = useState("");
+  const [fetchPending, setFetchPending] = useState(false); // a picked suggestion is fetched once it's the input
   const [bulkSkus, setBulkSkus] = useState("");
-  const [dimensions, setDimensions] = useState("342x427");
+  const [bulkSource, setBulkSource] = useState<"list" | "catalog">("list");
+  const [catalogSelection, setCatalogSelection] = useState<CatalogSelection>({ by: "collection", value: "" });
+  const [selectionPreview, setSelectionPreview] = useState<CatalogSelectionPreview | null>(null);
+  const [publishOptions, setPublishOptions] = useState<PublishOptions | null>(null);
+  const [sizeSelection, setSizeSelection] = useState("standard");
+  const [customDimensions, setCustomDimensions] = useState("1000x1000");
+  const [printSize, setPrintSize] = useState<PrintSizeInput>({ width: "4", height: "5", unit: "in" });
   const [dpi, setDpi] = useState("300");
+  const [format, setFormat] = useState<OutputFormat>("jpeg");
+  const [fit, setFit] = useState<FitMode>("cover");
+  const [gravity, setGravity] = useState<Gravity>("center");
+  const [background, setBackground] = useState("#ffffff");
+  const [cropStrategy, setCropStrategy] = useState<CropStrategy>("gravity");
+  const [cropMargin, setCropMargin] = useState("5");
+  const [normalizeBackground, setNormalizeBackground] = useState(false);
+  const [trimTolerance, setTrimTolerance] = useState("10");
+  const [fillPercent, setFillPercent] = useState("85");
+  const [imageSelector, setImageSelector] = useState<ImageSelector>({ type: "variant" });
   const [currentProduct, setCurrentProduct] = useState<Product | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [singleUpload, setSingleUpload] = useState<File[]>([]);
+  const [bulkUploads, setBulkUploads] = useState<File[]>([]);
+  const [uploadPreviewUrl, setUploadPreviewUrl] = useState<string | null>(null);
   const [currentBatchJob, setCurrentBatchJob] = useState<BatchJob | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const eventSourceRef = useRef<EventSource | null>(null);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
+  const { storeId } = useStore();
 
   // Server-Sent Events connection for real-time updates (avoids WebSocket conflicts)
   const connectToJobUpdates = (jobId: string) => {
@@ -100,6 +176,13 @@ export default function SkuConverter() {
         if (data.type === 'connected') {
           console.log('✅ Received connected confirmation');
           setIsConnected(true);
+        } else if (data.type === 'jobStatus') {
+          console.log('🚦 Received job status:', data.job.status);
+          setCurrentBatchJob(prev => prev && prev.id === data.job.id ? {
+            ...prev,
+            status: data.job.status,
+            progress: data.job.progress
+          } : prev);
         } else if (data.type === 'jobProgress') {
           console.log('📈 Received job progress:', data.job);
           setCurrentBatchJob(prev => {
@@ -179,7 +262,7 @@ export default function SkuConverter() {
           });
           
           // Stop polling if job is complete
-          if (jobData.status === 'completed' || jobData.status === 'failed') {
+          if (jobData.status === 'completed' || jobData.status === 'failed' || jobData.status === 'cancelled') {
             console.log('✅ Job completed, stopping polling');
             clearInterval(pollingIntervalRef.current!);
           }
@@ -190,14 +273,39 @@ export default function SkuConverter() {
     }, 2000); // Poll every 2 seconds
   };
 
+  // Object URL for previewing a dropped image, revoked when replaced
+  useEffect(() => {
+    if (!singleUpload[0]) {
+      setUploadPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(singleUpload[0]);
+    setUploadPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [singleUpload]);
+
   // Clear preview when input is empty
   useEffect(() => {
-    if (!singleInput.trim()) {
+    if (!singleInput.trim() && !singleUpload.length) {
       setCurrentProduct(null);
       setPreviewImage(null);
     }
   }, [singleInput]);
 
+  // Products and selection counts belong to the store they were fetched from
+  useEffect(() => {
+    setCurrentProduct(null);
+    setPreviewImage(null);
+    setSelectionPreview(null);
+  }, [storeId]);
+
+  useEffect(() => {
+    if (fetchPending) {
+      setFetchPending(false);
+      handleFetchProduct();
+    }
+  }, [fetchPending]);
+
   // Subscribe to job updates when batch job starts
   useEffect(() => {
     if (currentBatchJob?.id) {
@@ -235,9 +343,33 @@ export default function SkuConverter() {
     return Array.from(new Set(rawInputs));
   };
 
+  const { data: presets } = useQuery<ImagePreset[]>({
+    queryKey: ['/api/presets'],
+  });
+
+  // Batch size limit is configured on the server (MAX_BATCH_ITEMS)
+  const { data: health } = useQuery<{ batch?: { maxItems: number } }>({
+    queryKey: ['/api/health'],
+  });
+  const maxBatchItems = health?.batch?.maxItems ?? 2000;
+  const bulkItemCount = bulkSource === "catalog"
+    ? selectionPreview?.count ?? 0
+    : parseInputs(bulkSkus).length + bulkUploads.length;
+  // The image selector only applies to SKUs
+  const usesImageSelector = mode === "bulk" || (!isUrl(singleInput) && !singleUpload.length);
+
+  const outputSize = getSelectionSize(sizeSelection, customDimensions, presets, printSize, Number(dpi));
+  const fitOptions = { fit, gravity, background };
+  const cropOptions = { cropStrategy, cropMargin: Number(cropMargin) || 0 };
+  const backgroundOptions = normalizeBackground ? {
+    normalizeBackground,
+    trimTolerance: Number(trimTolerance) || 0,
+    fillRatio: (Number(fillPercent) || 85) / 100,
+  } : {};
+
   // Fetch product by SKU
   const { data: product, isLoading: fetchingProduct, refetch: fetchProduct } = useQuery({
-    queryKey: ['/api/product', singleInput],
+    queryKey: ['/api/product', withStoreId(singleInput, storeId)],
     enabled: false,
   });
 
@@ -246,18 +378,38 @@ export default function SkuConverter() {
     mutationFn: async () => {
       const inputIsUrl = isUrl(singleInput);
       
-      if (inputIsUrl) {
+      if (singleUpload[0]) {
+        return await uploadRequest('/api/upload-image', singleUpload, {
+          ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+          dpi: Number(dpi),
+          format,
+          ...fitOptions,
+          ...cropOptions,
+          ...backgroundOptions
+        });
+      } else if (inputIsUrl) {
         const response = await apiRequest('POST', '/api/process-url', {
           url: singleInput,
-          dimensions,
-          dpi: Number(dpi)
+          storeId,
+          ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+          dpi: Number(dpi),
+          format,
+          ...fitOptions,
+          ...cropOptions,
+          ...backgroundOptions
         });
         return response;
       } else {
         const response = await apiRequest('POST', '/api/process-sku', {
           sku: singleInput,
-          dimensions,
-          dpi: Number(dpi)
+          storeId,
+          imageSelector,
+          ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+          dpi: Number(dpi),
+          format,
+          ...fitOptions,
+          ...cropOptions,
+          ...backgroundOptions
         });
         return response;
       }
@@ -267,7 +419,12 @@ export default function SkuConverter() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = isUrl(singleInput) ? 'converted-image.jpg' : `${singleInput}.jpg`;
+      const extension = outputFormatDetails[format].extension;
+      const uploadName = singleUpload[0]?.name.replace(/\.[^.]*$/, '');
+      a.download = uploadName ? `${uploadName}.${extension}`
+        : isUrl(singleInput) ? `converted-image.${extension}`
+        : imageSelector.type === 'all' ? `${singleInput}-images.zip`
+        : `${singleInput}.${extension}`;
       a.click();
       window.URL.revokeObjectURL(url);
       
@@ -275,6 +432,15 @@ export default function SkuConverter() {
         title: "Success!",
         description: "Image processed and downloaded successfully",
       });
+
+      // e.g. a print size that needs more pixels than the source has
+      const warnings = response.headers.get('X-Processing-Warnings');
+      if (warnings) {
+        toast({
+          title: "Quality warning",
+          description: warnings,
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -290,6 +456,23 @@ export default function SkuConverter() {
   // Start batch processing job
   const startBatchJobMutation = useMutation({
     mutationFn: async () => {
+      // The server expands the selection into its SKUs when the job is created
+      if (bulkSource === "catalog") {
+        const response = await apiRequest('POST', '/api/start-batch-job', {
+          selection: catalogSelection,
+          storeId,
+          imageSelector,
+          publish: publishOptions ?? undefined,
+          ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+          dpi: Number(dpi),
+          format,
+          ...fitOptions,
+          ...cropOptions,
+          ...backgroundOptions
+        });
+        return response.json();
+      }
+
       const inputs = parseInputs(bulkSkus);
       
       // Separate SKUs and URLs
@@ -304,64 +487,74 @@ export default function SkuConverter() {
         }
       });
       
-      const response = await apiRequest('POST', '/api/start-batch-job', {
+      const request = {
         skus,
         urls,
-        dimensions,
-        dpi: Number(dpi)
-      });
+        storeId,
+        imageSelector,
+        publish: publishOptions ?? undefined,
+        ...buildSizeRequest(sizeSelection, customDimensions, printSize),
+        dpi: Number(dpi),
+        format,
+        ...fitOptions,
+        ...cropOptions,
+        ...backgroundOptions
+      };
+      // Uploaded files go first, matching the order the server queues them in
+      const response = bulkUploads.length > 0
+        ? await uploadRequest('/api/upload-batch-job', bulkUploads, request, 'files')
+        : await apiRequest('POST', '/api/start-batch-job', request);
       return response.json();
     },
     onSuccess: (data) => {
+      // Selection jobs start without items - the first poll fills them in
+      const uploadItems = bulkSource === "catalog" ? [] : bulkUploads.map(file => ({ type: 'upload' as const, input: file.name }));
+      const inputItems = bulkSource === "catalog" ? [] : parseInputs(bulkSkus).map(input => ({
+        type: isUrl(input) ? 'url' as const : 'sku' as const,
+        input: input.trim()
+      }));
+      const items = [...uploadItems, ...inputItems];
+      const total: number = data.total ?? items.length;
       const newJob: BatchJob = {
         id: data.jobId,
         status: 'pending',
-        progress: { total: parseInputs(bulkSkus).length, completed: 0, failed: 0 },
-        items: parseInputs(bulkSkus).map((input, index) => ({
+        progress: { total, completed: 0, failed: 0, cancelled: 0 },
+        items: items.map((item, index) => ({
           id: `${data.jobId}_item_${index}`,
-          type: isUrl(input) ? 'url' : 'sku',
-          input: input.trim(),
+          ...item,
           status: 'pending'
         }))
       };
       setCurrentBatchJob(newJob);
       
-      const itemCount = parseInputs(bulkSkus).length;
       toast({
         title: "Batch job started!",
-        description: `Processing ${itemCount} items ${itemCount <= 30 ? '(optimized for up to 30 items)' : ''}`,
+        description: `Processing ${total} items`,
       });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to start batch processing",
+        description: error instanceof Error ? error.message : "Failed to start batch processing",
         variant: "destructive",
       });
     }
   });
 
   // Download completed batch job
+  // The ZIP is streamed by the server, so let the browser save it directly instead of
+  // buffering a possibly huge archive in a blob
   const downloadBatchMutation = useMutation({
     mutationFn: async (jobId: string) => {
-      const response = await fetch(`/api/batch-job/${jobId}/download`);
-      if (!response.ok) {
-        throw new Error('Download failed');
-      }
-      return response;
-    },
-    onSuccess: async (response, jobId) => {
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
-      a.href = url;
+      a.href = `/api/batch-job/${jobId}/download`;
       a.download = `batch-${jobId}.zip`;
       a.click();
-      window.URL.revokeObjectURL(url);
-      
+    },
+    onSuccess: () => {
       toast({
-        title: "Success!",
-        description: "Batch results downloaded as ZIP",
+        title: "Download started",
+        description: "Batch results are being downloaded as a ZIP",
       });
     },
     onError: () => {
@@ -373,6 +566,57 @@ export default function SkuConverter() {
     }
   });
 
+  // Pause, resume or cancel the running batch job - the SSE status event brings the new state
+  const batchControlMutation = useMutation({
+    mutationFn: async ({ jobId, action }: { jobId: string; action: 'pause' | 'resume' | 'cancel' }) => {
+      const response = await apiRequest('POST', `/api/batch-job/${jobId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCurrentBatchJob(prev => prev && prev.id === data.id ? {
+        ...prev,
+        status: data.status,
+        progress: data.progress
+      } : prev);
+    },
+    onError: (error, { action }) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} batch job`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Retry one failed item, or every failed item when no itemId is given
+  const retryBatchMutation = useMutation({
+    mutationFn: async ({ jobId, itemId }: { jobId: string; itemId?: string }) => {
+      const url = itemId
+        ? `/api/batch-job/${jobId}/items/${itemId}/retry`
+        : `/api/batch-job/${jobId}/retry`;
+      const response = await apiRequest('POST', url);
+      return response.json();
+    },
+    onSuccess: (data, { jobId }) => {
+      setCurrentBatchJob(prev => prev && prev.id === data.id ? {
+        ...prev,
+        status: data.status,
+        progress: data.progress
+      } : prev);
+      // The job is back in the queue, so pick up its progress again
+      if (data.status === 'pending') {
+        startPollingFallback(jobId);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to retry items",
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleFetchProduct = async () => {
     if (!singleInput.trim()) {
       toast({
@@ -399,11 +643,22 @@ export default function SkuConverter() {
       const result = await fetchProduct();
       if (result.data) {
         setCurrentProduct(result.data as Product);
+        // A picked position belongs to the previous product's gallery
+        if (imageSelector.type === "index") setImageSelector({ type: "variant" });
         setPreviewImage(null);
         toast({
           title: "Product found!",
           description: `Loaded ${(result.data as Product).title}`,
         });
+      } else if (result.error) {
+        const suggested = getSuggestedSkus(result.error);
+        toast({
+          title: "Product not found",
+          description: suggested.length > 0 ? `Did you mean ${suggested.slice(0, 3).join(', ')}?` : `No product has the SKU ${singleInput}`,
+          variant: "destructive",
+        });
+        setCurrentProduct(null);
+        setPreviewImage(null);
       }
     } catch (error) {
       toast({
@@ -417,22 +672,40 @@ export default function SkuConverter() {
   };
 
   const handleProcess = () => {
+    if (usesImageSelector && imageSelector.type === "alt" && !imageSelector.match.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the alt text to match, or pick another image option",
+        variant: "destructive",
+      });
+      return;
+    }
     if (mode === "single") {
-      if (!singleInput.trim()) {
+      if (!singleInput.trim() && !singleUpload.length) {
         toast({
           title: "Error",
-          description: "Please enter a SKU or image URL",
+          description: "Please enter a SKU or image URL, or drop an image",
           variant: "destructive",
         });
         return;
       }
       processSingleMutation.mutate();
+    } else if (bulkSource === "catalog") {
+      if (!catalogSelection.value.trim()) {
+        toast({
+          title: "Error",
+          description: "Please enter the collection, vendor, product type or tag to convert",
+          variant: "destructive",
+        });
+        return;
+      }
+      startBatchJobMutation.mutate();
     } else {
       const inputs = parseInputs(bulkSkus);
-      if (inputs.length === 0) {
+      if (inputs.length === 0 && bulkUploads.length === 0) {
         toast({
           title: "Error", 
-          description: "Please enter at least one SKU or URL",
+          description: "Please enter at least one SKU or URL, or drop some images",
           variant: "destructive",
         });
         return;
@@ -459,6 +732,7 @@ export default function SkuConverter() {
     setCurrentBatchJob(null);
     setIsConnected(false);
     setBulkSkus('');
+    setBulkUploads([]);
     
     toast({
       title: "Cleared!",
@@ -466,6 +740,14 @@ export default function SkuConverter() {
     });
   };
 
+  const selectedProductImage = currentProduct ? selectProductImage(currentProduct, singleInput, imageSelector) : undefined;
+
+  // All-images items contribute one file per product image
+  const batchFileCount = currentBatchJob?.items.reduce((total, item) => total + (item.outputs?.length ?? 0), 0) ?? 0;
+
+  // Items can only be retried once the job has stopped running
+  const canRetryItems = !!currentBatchJob && currentBatchJob.status !== 'pending' && currentBatchJob.status !== 'processing';
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
       {/* Configuration Panel */}
@@ -498,11 +780,19 @@ export default function SkuConverter() {
             <div>
               <Label htmlFor="single-input">Product SKU or Image URL</Label>
               <div className="flex space-x-2 mt-2">
-                <Input
+                <SkuTypeahead
                   id="single-input"
                   placeholder="e.g., 66P-00022N-FLS or https://example.com/image.jpg"
                   value={singleInput}
-                  onChange={(e) => setSingleInput(e.target.value)}
+                  onChange={(value) => {
+                    setSingleInput(value);
+                    setSingleUpload([]);
+                  }}
+                  onSelect={(sku) => {
+                    setSingleInput(sku);
+                    setSingleUpload([]);
+                    setFetchPending(true);
+                  }}
                   onPaste={(e) => {
                     const clipboardData = e.clipboardData.getData('text');
                     if (clipboardData) {
@@ -525,11 +815,63 @@ export default function SkuConverter() {
                 </Button>
               </div>
               <p className="text-xs text-gray-500 mt-1">Enter a Shopify SKU or direct image URL - the system will auto-detect</p>
+              <div className="mt-3">
+                <FileDropZone
+                  accept="image/*,.tif,.tiff,.avif"
+                  files={singleUpload}
+                  onFilesChange={(files) => {
+                    setSingleUpload(files);
+                    if (files.length > 0) {
+                      setSingleInput('');
+                      setCurrentProduct(null);
+                      setPreviewImage(null);
+                    }
+                  }}
+                  title="Or drop an image from your computer"
+                  description="JPEG, PNG, WebP, AVIF, TIFF or GIF up to 25 MB"
+                />
+              </div>
             </div>
           )}
 
-          {/* Bulk SKU/URL Input */}
+          {/* Bulk source - a pasted list or a slice of the Shopify catalog */}
           {mode === "bulk" && (
+            <div>
+              <Label className="text-sm font-medium">Batch Source</Label>
+              <RadioGroup
+                value={bulkSource}
+                onValueChange={(value: "list" | "catalog") => setBulkSource(value)}
+                className="flex items-center space-x-4 mt-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="list" id="source-list" />
+                  <Label htmlFor="source-list">SKU/URL list</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="catalog" id="source-catalog" />
+                  <Label htmlFor="source-catalog">Shopify catalog</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {mode === "bulk" && bulkSource === "catalog" && (
+            <div>
+              <Label htmlFor="catalog-selection-value">Products</Label>
+              <div className="mt-2">
+                <CatalogSelectionPicker
+                  value={catalogSelection}
+                  onChange={setCatalogSelection}
+                  preview={selectionPreview}
+                  onPreviewChange={setSelectionPreview}
+                  maxItems={maxBatchItems}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Bulk SKU/URL Input */}
+          {mode === "bulk" && bulkSource === "list" && (
             <div>
               <Label htmlFor="bulk-skus">Product SKUs or Image URLs</Label>
               <Textarea
@@ -557,37 +899,180 @@ export default function SkuConverter() {
               />
               <div className="flex items-center justify-between mt-1">
                 <p className="text-xs text-gray-500">Paste from Excel/Google Sheets or enter manually - supports tabs, commas, newlines</p>
-                {bulkSkus && (
+                {bulkItemCount > 0 && (
                   <Badge 
-                    variant={parseInputs(bulkSkus).length <= 30 ? "outline" : "destructive"} 
+                    variant={bulkItemCount <= maxBatchItems ? "outline" : "destructive"} 
                     className="text-xs"
                   >
-                    {parseInputs(bulkSkus).length} items {parseInputs(bulkSkus).length <= 30 ? '(optimized)' : '(max 30)'}
+                    {bulkItemCount} items {bulkItemCount > maxBatchItems && `(max ${maxBatchItems})`}
                   </Badge>
                 )}
               </div>
+              <div className="mt-3">
+                <FileDropZone
+                  accept="image/*,.tif,.tiff,.avif"
+                  multiple
+                  files={bulkUploads}
+                  onFilesChange={setBulkUploads}
+                  title="Drop images to add them to the batch"
+                  description="Up to 30 files, 25 MB each - processed alongside the SKUs and URLs above"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Which product image SKUs convert */}
+          {usesImageSelector && (
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Product Image</Label>
+              <ImageSelectorPicker idPrefix={mode} value={imageSelector} onChange={setImageSelector} />
             </div>
           )}
 
+          {mode === "bulk" && (
+            <PublishOptionsPicker value={publishOptions} onChange={setPublishOptions} />
+          )}
+
           {/* Dimensions */}
           <div>
             <Label className="text-sm font-medium mb-3 block">Output Dimensions</Label>
-            <RadioGroup value={dimensions} onValueChange={setDimensions}>
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="342x427" id="dim1" />
-                <Label htmlFor="dim1" className="cursor-pointer flex-1">
-                  <div className="font-medium">Standard (342 × 427)</div>
-                  <div className="text-xs text-gray-500">Portrait format for product displays</div>
-                </Label>
+            <PresetPicker
+              idPrefix="dim"
+              value={sizeSelection}
+              onChange={(value, preset) => {
+                setSizeSelection(value);
+                if (preset) {
+                  setFormat(preset.format as OutputFormat);
+                  setFit(preset.fit as FitMode);
+                  setBackground(preset.background);
+                }
+              }}
+              customDimensions={customDimensions}
+              onCustomDimensionsChange={setCustomDimensions}
+              printSize={printSize}
+              onPrintSizeChange={setPrintSize}
+            />
+          </div>
+
+          {/* Fit Mode */}
+          <div>
+            <Label htmlFor="fit-select">Fit Mode</Label>
+            <Select value={fit} onValueChange={(value: FitMode) => setFit(value)}>
+              <SelectTrigger id="fit-select" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fitModeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} - {option.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {fit === "cover" && (
+              <div className="mt-3">
+                <Label htmlFor="crop-strategy-select" className="text-xs text-gray-600">Crop strategy</Label>
+                <Select value={cropStrategy} onValueChange={(value: CropStrategy) => setCropStrategy(value)}>
+                  <SelectTrigger id="crop-strategy-select" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cropStrategyOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="600x600" id="dim2" />
-                <Label htmlFor="dim2" className="cursor-pointer flex-1">
-                  <div className="font-medium">Square (600 × 600)</div>
-                  <div className="text-xs text-gray-500">Square format for social media</div>
-                </Label>
+            )}
+
+            {fit === "cover" && cropStrategy === "bbox" && (
+              <div className="mt-3 flex items-center gap-3">
+                <Label htmlFor="crop-margin" className="text-xs text-gray-600">Margin around product (%)</Label>
+                <Input
+                  id="crop-margin"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={cropMargin}
+                  onChange={(e) => setCropMargin(e.target.value)}
+                  className="w-20 h-8"
+                />
               </div>
-            </RadioGroup>
+            )}
+
+            {fit === "cover" && cropStrategy === "gravity" && (
+              <div className="mt-3">
+                <Label htmlFor="gravity-select" className="text-xs text-gray-600">Crop anchor</Label>
+                <Select value={gravity} onValueChange={(value: Gravity) => setGravity(value)}>
+                  <SelectTrigger id="gravity-select" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gravityOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {fit === "contain" && (
+              <div className="mt-3 flex items-center gap-3">
+                <Label htmlFor="background-color" className="text-xs text-gray-600">Pad color</Label>
+                <Input
+                  id="background-color"
+                  type="color"
+                  value={background}
+                  onChange={(e) => setBackground(e.target.value)}
+                  className="w-16 h-8 p-1"
+                />
+                <span className="text-xs text-gray-500 font-mono">{background}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Background Normalization */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="normalize-background">Normalize background</Label>
+                <p className="text-xs text-gray-500">Trim the border, flatten off-white to pure white and re-pad evenly</p>
+              </div>
+              <Switch
+                id="normalize-background"
+                checked={normalizeBackground}
+                onCheckedChange={setNormalizeBackground}
+              />
+            </div>
+            {normalizeBackground && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="trim-tolerance" className="text-xs text-gray-600">Tolerance (0-100)</Label>
+                  <Input
+                    id="trim-tolerance"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={trimTolerance}
+                    onChange={(e) => setTrimTolerance(e.target.value)}
+                    className="mt-1 h-8"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fill-percent" className="text-xs text-gray-600">Product fill (%)</Label>
+                  <Input
+                    id="fill-percent"
+                    type="number"
+                    min={30}
+                    max={100}
+                    value={fillPercent}
+                    onChange={(e) => setFillPercent(e.target.value)}
+                    className="mt-1 h-8"
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* DPI Selection */}
@@ -605,6 +1090,22 @@ export default function SkuConverter() {
             </Select>
           </div>
 
+          {/* Output Format */}
+          <div>
+            <Label htmlFor="format-select">Output Format</Label>
+            <Select value={format} onValueChange={(value: OutputFormat) => setFormat(value)}>
+              <SelectTrigger id="format-select" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(outputFormatDetails) as OutputFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>{outputFormatDetails[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">WebP/AVIF for the storefront, PNG/TIFF for print vendors</p>
+          </div>
+
           {/* Process Button */}
           <div className="space-y-3">
             <Button 
@@ -647,7 +1148,7 @@ export default function SkuConverter() {
                 ) : (
                   <>
                     <Download className="h-4 w-4 mr-2" />
-                    Download Results ({currentBatchJob.progress.completed} files)
+                    Download Results ({batchFileCount} files)
                   </>
                 )}
               </Button>
@@ -664,25 +1165,48 @@ export default function SkuConverter() {
         <CardContent>
           {currentProduct ? (
             <div className="border border-gray-200 rounded-lg p-4">
-              <img 
-                src={currentProduct.images[0]?.src} 
-                alt={currentProduct.title}
-                className="w-full h-48 object-cover rounded-md mb-3"
+              {selectedProductImage ? (
+                <FitPreview
+                  src={selectedProductImage.src}
+                  alt={selectedProductImage.alt || currentProduct.title}
+                  {...outputSize}
+                  {...fitOptions}
+                  cropStrategy={cropStrategy}
+                />
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-8">No image matches the selected image option</p>
+              )}
+              <ProductGallery
+                product={currentProduct}
+                sku={singleInput}
+                selector={imageSelector}
+                onSelect={setImageSelector}
               />
-              <h4 className="font-medium text-gray-900">{currentProduct.title}</h4>
+              <h4 className="font-medium text-gray-900 mt-3">{currentProduct.title}</h4>
               <p className="text-sm text-gray-500">SKU: {singleInput}</p>
             </div>
+          ) : mode === "single" && uploadPreviewUrl ? (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <FitPreview
+                src={uploadPreviewUrl}
+                alt="Upload preview"
+                {...outputSize}
+                {...fitOptions}
+                cropStrategy={cropStrategy}
+              />
+              <h4 className="font-medium text-gray-900 mt-3">Uploaded Image</h4>
+              <p className="text-sm text-gray-500 break-all">{singleUpload[0]?.name}</p>
+            </div>
           ) : mode === "single" && previewImage ? (
             <div className="border border-gray-200 rounded-lg p-4">
-              <img 
-                src={previewImage} 
+              <FitPreview
+                src={previewImage}
                 alt="Preview"
-                className="w-full h-48 object-cover rounded-md mb-3"
-                onError={(e) => {
-                  e.currentTarget.style.display = 'none';
-                }}
+                {...outputSize}
+                {...fitOptions}
+                cropStrategy={cropStrategy}
               />
-              <h4 className="font-medium text-gray-900">Direct URL Image</h4>
+              <h4 className="font-medium text-gray-900 mt-3">Direct URL Image</h4>
               <p className="text-sm text-gray-500 break-all">{previewImage}</p>
             </div>
           ) : mode === "single" ? (
@@ -709,11 +1233,52 @@ export default function SkuConverter() {
               <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                 <div className="flex items-center justify-between mb-2">
                   <h4 className="text-sm font-medium text-blue-800">
-                    Batch Processing {currentBatchJob.status === 'completed' ? 'Completed' : 'In Progress'}
+                    Batch Processing {batchStatusLabels[currentBatchJob.status]}
                   </h4>
-                  <Badge variant="outline" className="text-xs">
-                    {isConnected ? '🟢 Connected' : '🔴 Disconnected'}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {(currentBatchJob.status === 'pending' || currentBatchJob.status === 'processing') && (
+                      <Button
+                        onClick={() => batchControlMutation.mutate({ jobId: currentBatchJob.id, action: 'pause' })}
+                        size="sm"
+                        variant="outline"
+                        className="h-7"
+                        disabled={batchControlMutation.isPending}
+                        data-testid="pause-batch-button"
+                      >
+                        <Pause className="h-3 w-3 mr-1" />
+                        Pause
+                      </Button>
+                    )}
+                    {currentBatchJob.status === 'paused' && (
+                      <Button
+                        onClick={() => batchControlMutation.mutate({ jobId: currentBatchJob.id, action: 'resume' })}
+                        size="sm"
+                        variant="outline"
+                        className="h-7"
+                        disabled={batchControlMutation.isPending}
+                        data-testid="resume-batch-button"
+                      >
+                        <Play className="h-3 w-3 mr-1" />
+                        Resume
+                      </Button>
+                    )}
+                    {(currentBatchJob.status === 'pending' || currentBatchJob.status === 'processing' || currentBatchJob.status === 'paused') && (
+                      <Button
+                        onClick={() => batchControlMutation.mutate({ jobId: currentBatchJob.id, action: 'cancel' })}
+                        size="sm"
+                        variant="outline"
+                        className="h-7 border-red-300 text-red-700 hover:bg-red-50"
+                        disabled={batchControlMutation.isPending}
+                        data-testid="cancel-batch-button"
+                      >
+                        <Square className="h-3 w-3 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {isConnected ? '🟢 Connected' : '🔴 Disconnected'}
+                    </Badge>
+                  </div>
                 </div>
                 
                 <div className="space-y-2">
@@ -721,6 +1286,8 @@ export default function SkuConverter() {
                     <span>Progress: {currentBatchJob.progress.completed} / {currentBatchJob.progress.total}</span>
                     <span className="text-gray-500">
                       {currentBatchJob.progress.failed > 0 && `${currentBatchJob.progress.failed} failed`}
+                      {currentBatchJob.progress.failed > 0 && currentBatchJob.progress.cancelled > 0 && ', '}
+                      {currentBatchJob.progress.cancelled > 0 && `${currentBatchJob.progress.cancelled} cancelled`}
                     </span>
                   </div>
                   <Progress 
@@ -732,8 +1299,21 @@ export default function SkuConverter() {
 
               {/* Items Grid */}
               <div className="border rounded-lg">
-                <div className="p-3 border-b bg-gray-50">
+                <div className="p-3 border-b bg-gray-50 flex items-center justify-between">
                   <h5 className="font-medium text-sm">Processing Items</h5>
+                  {canRetryItems && currentBatchJob.progress.failed > 0 && (
+                    <Button
+                      onClick={() => retryBatchMutation.mutate({ jobId: currentBatchJob.id })}
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      disabled={retryBatchMutation.isPending}
+                      data-testid="retry-failed-button"
+                    >
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                      Retry failed ({currentBatchJob.progress.failed})
+                    </Button>
+                  )}
                 </div>
                 <ScrollArea className="h-64">
                   <div className="p-3 space-y-3">
@@ -747,6 +1327,7 @@ export default function SkuConverter() {
                           {item.status === 'processing' && <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />}
                           {item.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-500" />}
                           {item.status === 'failed' && <XCircle className="h-4 w-4 text-red-500" />}
+                          {item.status === 'cancelled' && <Ban className="h-4 w-4 text-gray-400" />}
                         </div>
                         
                         <div className="flex-grow min-w-0">
@@ -757,21 +1338,55 @@ export default function SkuConverter() {
                             <span className="text-sm font-medium truncate">{item.input}</span>
                           </div>
                           {item.error && (
-                            <p className="text-xs text-red-600 mt-1">{item.error}</p>
+                            <p className="text-xs text-red-600 mt-1">
+                              {item.error}
+                              {item.attempts && item.attempts > 1 ? ` (after ${item.attempts} attempts)` : ''}
+                            </p>
+                          )}
+                          {item.warnings?.map((warning) => (
+                            <p key={warning} className="text-xs text-amber-600 mt-1">⚠️ {warning}</p>
+                          ))}
+                          {item.outputs && item.outputs.length > 0 && (
+                            <p className="text-xs text-green-600 mt-1 truncate">
+                              ✅ {item.outputs.map(output => output.filename).join(', ')}
+                            </p>
                           )}
-                          {item.result && (
-                            <p className="text-xs text-green-600 mt-1">✅ {item.result.filename}</p>
+                          {item.publication && (
+                            <p className="text-xs text-blue-600 mt-1">
+                              {item.publication.dryRun ? '🧪 Dry run: would publish' : '📤 Published'} {item.publication.media.length} image(s)
+                              {item.publication.removedMediaIds.length > 0 && `, replacing ${item.publication.removedMediaIds.length}`}
+                              {item.publication.pendingRemoval && ' (old images not removed yet - retry to finish)'}
+                            </p>
                           )}
                         </div>
 
-                        {item.result?.previewUrl && (
-                          <div className="flex-shrink-0">
+                        {canRetryItems && (item.status === 'failed' || item.status === 'cancelled') && (
+                          <Button
+                            onClick={() => retryBatchMutation.mutate({ jobId: currentBatchJob.id, itemId: item.id })}
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 flex-shrink-0"
+                            disabled={retryBatchMutation.isPending}
+                            data-testid={`retry-item-${item.id}`}
+                          >
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+
+                        {item.outputs && item.outputs.length > 0 && (
+                          <div className="relative flex-shrink-0">
                             <img
-                              src={item.result.previewUrl}
+                              src={item.outputs[0].previewUrl}
                               alt={item.input}
                               className="w-12 h-12 object-cover rounded border"
                               loading="lazy"
                             />
+                            {item.outputs.length > 1 && (
+                              <Badge variant="secondary" className="absolute -bottom-1 -right-1 px-1 py-0 text-[10px]">
+                                {item.outputs.length}
+                              </Badge>
+                            )}
                           </div>
                         )}
                       </div>
@@ -787,7 +1402,7 @@ export default function SkuConverter() {
                     <div>
                       <h5 className="font-medium text-green-800 mb-1">Download Results</h5>
                       <p className="text-sm text-green-600">
-                        {currentBatchJob.progress.completed} files ready for download
+                        {batchFileCount} files ready for download
                         {currentBatchJob.progress.failed > 0 && ` (${currentBatchJob.progress.failed} failed)`}
                       </p>
                     </div>
@@ -831,7 +1446,7 @@ export default function SkuConverter() {
                       <div className="text-xs text-green-600">Completed</div>
                     </div>
                     <div className="bg-white rounded-lg p-3 border border-green-200">
-                      <div className="text-lg font-semibold text-gray-700">{currentBatchJob.progress.total - currentBatchJob.progress.completed - currentBatchJob.progress.failed}</div>
+                      <div className="text-lg font-semibold text-gray-700">{currentBatchJob.progress.total - currentBatchJob.progress.completed - currentBatchJob.progress.failed - currentBatchJob.progress.cancelled}</div>
                       <div className="text-xs text-gray-600">Pending</div>
                     </div>
                     <div className="bg-white rounded-lg p-3 border border-green-200">
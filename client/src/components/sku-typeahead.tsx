@@ -0,0 +1,120 @@
+import { useEffect, useState, type ClipboardEvent, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Image as ImageIcon } from "lucide-react";
+import { useStore, withStoreId } from "@/hooks/use-store";
+import type { SkuSuggestion } from "@shared/schema";
+
+interface SkuTypeaheadProps {
+  id: string;
+  placeholder?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (sku: string) => void;
+  onPaste?: (e: ClipboardEvent<HTMLInputElement>) => void;
+}
+
+const SEARCH_DELAY_MS = 200;
+
+function looksLikeUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value.trim());
+}
+
+// SKU input with suggestions from the catalog index - typos and case don't matter,
+// and URLs are left alone
+export default function SkuTypeahead({ id, placeholder, value, onChange, onSelect, onPaste }: SkuTypeaheadProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const { storeId } = useStore();
+
+  // Only search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data: suggestions = [] } = useQuery<SkuSuggestion[]>({
+    queryKey: [withStoreId(`/api/catalog/search?q=${encodeURIComponent(query)}`, storeId)],
+    enabled: open && query.length >= 2 && !looksLikeUrl(query),
+    staleTime: 60_000,
+  });
+
+  // Nothing to suggest when the input already is the SKU
+  const visible = open && suggestions.length > 0 &&
+    !(suggestions[0].match === "exact" && suggestions[0].sku === value.trim());
+
+  const select = (suggestion: SkuSuggestion) => {
+    setOpen(false);
+    onSelect(suggestion.sku);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!visible) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-grow">
+      <Input
+        id={id}
+        placeholder={placeholder}
+        value={value}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        onPaste={onPaste}
+      />
+      {visible && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border rounded-md shadow-lg max-h-80 overflow-auto" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.productId}-${suggestion.sku}`}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`flex items-center gap-3 px-3 py-2 cursor-pointer ${index === highlighted ? "bg-blue-50" : ""}`}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              {suggestion.imageUrl ? (
+                <img src={suggestion.imageUrl} alt="" className="w-10 h-10 object-cover rounded border flex-shrink-0" loading="lazy" />
+              ) : (
+                <div className="w-10 h-10 rounded border flex items-center justify-center flex-shrink-0">
+                  <ImageIcon className="h-4 w-4 text-gray-400" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{suggestion.sku}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {suggestion.productTitle}
+                  {suggestion.variantTitle && suggestion.variantTitle !== "Default Title" && ` - ${suggestion.variantTitle}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
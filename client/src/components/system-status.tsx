@@ -9,6 +9,7 @@ interface HealthStatus {
     imageProcessing: string;
     pdfConverter: string;
   };
+  stores?: Array<{ id: string; name: string; domain: string; apiVersion: string; connected: boolean }>;
 }
 
 export default function SystemStatus() {
@@ -46,6 +47,15 @@ export default function SystemStatus() {
             <p className={`text-sm ${getStatusColor(health?.services.shopify || "disconnected")}`}>
               {health?.services.shopify || "Unknown"}
             </p>
+            {health?.stores && health.stores.length > 1 && (
+              <ul className="mt-2 space-y-1 text-xs">
+                {health.stores.map(store => (
+                  <li key={store.id} className={store.connected ? "text-green-600" : "text-red-600"}>
+                    {store.name} ({store.apiVersion}): {store.connected ? "connected" : "disconnected"}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <div className="text-center">
             <div className="inline-flex items-center justify-center w-12 h-12 bg-green-100 rounded-lg mb-3">
@@ -0,0 +1,63 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+
+export interface ShopifyStoreInfo {
+  id: string
+  name: string
+  domain: string
+  apiVersion: string
+  configured: boolean
+}
+
+interface StoresResponse {
+  stores: ShopifyStoreInfo[]
+  defaultStoreId: string
+}
+
+interface StoreContextValue {
+  stores: ShopifyStoreInfo[]
+  store: ShopifyStoreInfo | undefined // undefined until the store list has loaded
+  storeId: string | undefined
+  setStoreId: (storeId: string) => void
+}
+
+const STORAGE_KEY = "shopifyStoreId"
+
+const StoreContext = React.createContext<StoreContextValue | null>(null)
+
+// The Shopify store the tools work against, picked in the header and remembered per browser
+export function StoreProvider({ children }: { children: React.ReactNode }) {
+  const { data } = useQuery<StoresResponse>({
+    queryKey: ["/api/stores"],
+  })
+  const [selected, setSelected] = React.useState(() => localStorage.getItem(STORAGE_KEY))
+
+  const stores = data?.stores ?? []
+  // A remembered store that has since been removed falls back to the default
+  const store = stores.find(store => store.id === selected) ?? stores.find(store => store.id === data?.defaultStoreId)
+
+  const setStoreId = React.useCallback((storeId: string) => {
+    localStorage.setItem(STORAGE_KEY, storeId)
+    setSelected(storeId)
+  }, [])
+
+  return (
+    <StoreContext.Provider value={{ stores, store, storeId: store?.id, setStoreId }}>
+      {children}
+    </StoreContext.Provider>
+  )
+}
+
+export function useStore() {
+  const context = React.useContext(StoreContext)
+  if (!context) {
+    throw new Error("useStore must be used within a StoreProvider")
+  }
+  return context
+}
+
+// Appends the selected store to a GET URL
+export function withStoreId(url: string, storeId: string | undefined) {
+  if (!storeId) return url
+  return `${url}${url.includes("?") ? "&" : "?"}storeId=${encodeURIComponent(storeId)}`
+}
@@ -23,6 +23,27 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart upload - the browser sets the Content-Type with the form boundary
+export async function uploadRequest(
+  url: string,
+  files: File[],
+  options: unknown,
+  fieldName = "file",
+): Promise<Response> {
+  const body = new FormData();
+  files.forEach(file => body.append(fieldName, file));
+  body.append("options", JSON.stringify(options));
+
+  const res = await fetch(url, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Header from "@/components/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useStore } from "@/hooks/use-store";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { catalogAuditIssueTypes, type CatalogAudit, type CatalogAuditIssue, type CatalogAuditIssueType } from "@shared/schema";
+
+const issueLabels: Record<CatalogAuditIssueType, string> = {
+  no_images: "No images",
+  low_resolution: "Low resolution",
+  off_ratio: "Off ratio",
+  missing_alt: "Missing alt text",
+  variant_without_image: "Variant without image",
+};
+
+// Expected width / height - the portrait option matches the standard 342x427 preset
+const aspectRatios = [
+  { value: "1", label: "Square (1:1)" },
+  { value: "0.8", label: "Portrait (4:5)" },
+  { value: "0.75", label: "Portrait (3:4)" },
+  { value: "1.333", label: "Landscape (4:3)" },
+];
+
+const PAGE_SIZE = 100;
+const SEARCH_DELAY_MS = 300;
+
+export default function Audit() {
+  const { storeId, store } = useStore();
+  const { toast } = useToast();
+  const [minResolution, setMinResolution] = useState("1000");
+  const [aspectRatio, setAspectRatio] = useState("1");
+  const [tolerancePercent, setTolerancePercent] = useState("2");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [type, setType] = useState<CatalogAuditIssueType | "all">("all");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const { data: audits = [] } = useQuery<CatalogAudit[]>({
+    queryKey: ["/api/catalog/audits"],
+    refetchInterval: (query) => query.state.data?.some(audit => audit.status === "running") ? 2000 : false,
+  });
+  const storeAudits = audits.filter(audit => audit.storeId === storeId);
+  const audit = storeAudits.find(audit => audit.id === selectedId) ?? storeAudits[0];
+
+  // Only search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // New filters start at the first page
+  useEffect(() => setOffset(0), [type, query, audit?.id]);
+
+  const filterParams = new URLSearchParams();
+  if (type !== "all") filterParams.set("type", type);
+  if (query) filterParams.set("q", query);
+
+  const { data: issuePage, isFetching: fetchingIssues } = useQuery<{ total: number; issues: CatalogAuditIssue[] }>({
+    queryKey: [`/api/catalog/audits/${audit?.id}/issues?${filterParams}&offset=${offset}&limit=${PAGE_SIZE}`],
+    enabled: !!audit,
+    refetchInterval: audit?.status === "running" ? 2000 : false,
+  });
+
+  const startAuditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/catalog/audits", {
+        storeId,
+        minResolution: Number(minResolution) || 1000,
+        aspectRatio: Number(aspectRatio),
+        ratioTolerance: (Number(tolerancePercent) || 0) / 100,
+      });
+      return response.json() as Promise<CatalogAudit>;
+    },
+    onSuccess: (started) => {
+      setSelectedId(started.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/catalog/audits"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't start the audit",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const running = storeAudits.some(audit => audit.status === "running");
+  const total = issuePage?.total ?? 0;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog Image Audit</CardTitle>
+            <p className="text-sm text-gray-500">
+              Checks every product in {store?.name ?? "the store"} for missing images, low resolution, off-ratio images,
+              missing alt text and variants without their own image
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="audit-min-resolution">Minimum resolution (px, shortest side)</Label>
+                <Input
+                  id="audit-min-resolution"
+                  type="number"
+                  min={1}
+                  value={minResolution}
+                  onChange={(e) => setMinResolution(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-aspect-ratio">Expected aspect ratio</Label>
+                <Select value={aspectRatio} onValueChange={setAspectRatio}>
+                  <SelectTrigger id="audit-aspect-ratio">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {aspectRatios.map(ratio => (
+                      <SelectItem key={ratio.value} value={ratio.value}>{ratio.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="audit-tolerance">Ratio tolerance (%)</Label>
+                <Input
+                  id="audit-tolerance"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tolerancePercent}
+                  onChange={(e) => setTolerancePercent(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={() => startAuditMutation.mutate()}
+                disabled={!store?.configured || running || startAuditMutation.isPending}
+              >
+                {running || startAuditMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+                {running ? "Audit running..." : "Run audit"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {audit && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    Results
+                    <Badge variant={audit.status === "failed" ? "destructive" : "secondary"}>{audit.status}</Badge>
+                  </CardTitle>
+                  <p className="text-sm text-gray-500">
+                    Started {new Date(audit.startedAt).toLocaleString()} - {audit.scanned.products} products,{" "}
+                    {audit.scanned.images} images and {audit.scanned.variants} variants checked
+                  </p>
+                  {audit.error && <p className="text-sm text-red-600">{audit.error}</p>}
+                </div>
+                {storeAudits.length > 1 && (
+                  <Select value={audit.id} onValueChange={setSelectedId}>
+                    <SelectTrigger className="w-64" aria-label="Audit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {storeAudits.map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {new Date(option.startedAt).toLocaleString()} ({option.status})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {catalogAuditIssueTypes.map(issueType => (
+                  <button
+                    key={issueType}
+                    type="button"
+                    onClick={() => setType(type === issueType ? "all" : issueType)}
+                    className={`border rounded-lg p-3 text-left ${type === issueType ? "border-blue-500 bg-blue-50" : "bg-white"}`}
+                  >
+                    <p className="text-2xl font-semibold">{audit.issueCounts[issueType]}</p>
+                    <p className="text-xs text-gray-600">{issueLabels[issueType]}</p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Select value={type} onValueChange={(value) => setType(value as CatalogAuditIssueType | "all")}>
+                  <SelectTrigger className="w-56" aria-label="Issue type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All issues</SelectItem>
+                    {catalogAuditIssueTypes.map(issueType => (
+                      <SelectItem key={issueType} value={issueType}>{issueLabels[issueType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-64"
+                  placeholder="Product, handle or SKU"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <Button variant="outline" asChild>
+                  <a href={`/api/catalog/audits/${audit.id}/issues.csv?${filterParams}`} download>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download CSV
+                  </a>
+                </Button>
+                <span className="text-sm text-gray-500">
+                  {fetchingIssues && <Loader2 className="inline w-4 h-4 mr-1 animate-spin" />}
+                  {total} issue{total === 1 ? "" : "s"}
+                </span>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Image</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issuePage?.issues.map((issue, index) => (
+                    <TableRow key={`${offset + index}-${issue.type}-${issue.imageId ?? issue.sku ?? issue.productId}`}>
+                      <TableCell>
+                        <Badge variant="outline">{issueLabels[issue.type]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{issue.productTitle}</p>
+                        <p className="text-xs text-gray-500">{issue.handle}</p>
+                      </TableCell>
+                      <TableCell>
+                        {issue.sku ?? ""}
+                        {issue.variantTitle && <p className="text-xs text-gray-500">{issue.variantTitle}</p>}
+                      </TableCell>
+                      <TableCell>
+                        {issue.imageUrl && (
+                          <a href={issue.imageUrl} target="_blank" rel="noreferrer">
+                            <img src={issue.imageUrl} alt="" className="w-12 h-12 object-cover rounded border" loading="lazy" />
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{issue.detail}</TableCell>
+                    </TableRow>
+                  ))}
+                  {issuePage && issuePage.issues.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500">
+                        {audit.status === "running" ? "No issues found so far" : "No issues found"}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+
+              {total > PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-3">
+                  <span className="text-sm text-gray-500">
+                    {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                  </span>
+                  <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - PAGE_SIZE)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
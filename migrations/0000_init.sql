@@ -0,0 +1,30 @@
+CREATE TABLE "image_presets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"width" integer,
+	"height" integer,
+	"fit" text DEFAULT 'cover' NOT NULL,
+	"background" text DEFAULT '#ffffff' NOT NULL,
+	"format" text DEFAULT 'jpeg' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "processing_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"input" text NOT NULL,
+	"dimensions" text NOT NULL,
+	"dpi" integer DEFAULT 300 NOT NULL,
+	"format" text DEFAULT 'jpeg' NOT NULL,
+	"preset" text,
+	"result_url" text,
+	"error_message" text,
+	"product_title" text,
+	"product_image" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "processing_jobs_status_idx" ON "processing_jobs" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "processing_jobs_created_at_idx" ON "processing_jobs" USING btree ("created_at");
\ No newline at end of file
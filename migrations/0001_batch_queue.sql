@@ -0,0 +1,30 @@
+CREATE TABLE "batch_items" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"job_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"type" text NOT NULL,
+	"input" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"upload_key" text,
+	"result_filename" text,
+	"result_key" text,
+	"result_content_type" text,
+	"warnings" jsonb,
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "batch_jobs" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"options" jsonb NOT NULL,
+	"total" integer NOT NULL,
+	"completed" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "batch_items" ADD CONSTRAINT "batch_items_job_id_batch_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."batch_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "batch_items_job_id_idx" ON "batch_items" USING btree ("job_id","position");--> statement-breakpoint
+CREATE INDEX "batch_jobs_status_idx" ON "batch_jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "batch_jobs" ADD COLUMN "cancelled" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
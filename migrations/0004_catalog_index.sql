@@ -0,0 +1,31 @@
+CREATE TABLE "catalog_products" (
+	"id" bigint PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"handle" text NOT NULL,
+	"images" jsonb NOT NULL,
+	"shopify_updated_at" timestamp NOT NULL,
+	"synced_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "catalog_sync_state" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"last_updated_at" timestamp,
+	"last_full_sync_at" timestamp,
+	"last_synced_at" timestamp,
+	"last_error" text
+);
+--> statement-breakpoint
+CREATE TABLE "catalog_variants" (
+	"id" bigint PRIMARY KEY NOT NULL,
+	"product_id" bigint NOT NULL,
+	"sku" text NOT NULL,
+	"normalized_sku" text NOT NULL,
+	"title" text NOT NULL,
+	"image_id" bigint,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "catalog_variants" ADD CONSTRAINT "catalog_variants_product_id_catalog_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."catalog_products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_products_synced_at_idx" ON "catalog_products" USING btree ("synced_at");--> statement-breakpoint
+CREATE INDEX "catalog_variants_normalized_sku_idx" ON "catalog_variants" USING btree ("normalized_sku");--> statement-breakpoint
+CREATE INDEX "catalog_variants_product_id_idx" ON "catalog_variants" USING btree ("product_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "batch_items" ADD COLUMN "outputs" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Carry finished items' single result over so existing jobs stay downloadable
+UPDATE "batch_items" SET "outputs" = jsonb_build_array(jsonb_build_object('filename', "result_filename", 'key', "result_key", 'contentType', coalesce("result_content_type", 'application/octet-stream'))) WHERE "result_key" IS NOT NULL AND "result_filename" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "batch_items" DROP COLUMN "result_filename";--> statement-breakpoint
+ALTER TABLE "batch_items" DROP COLUMN "result_key";--> statement-breakpoint
+ALTER TABLE "batch_items" DROP COLUMN "result_content_type";
@@ -0,0 +1 @@
+ALTER TABLE "batch_items" ADD COLUMN "publication" jsonb;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "catalog_images" (
+	"id" bigint PRIMARY KEY NOT NULL,
+	"product_id" bigint NOT NULL,
+	"url_key" text NOT NULL,
+	"filename_key" text NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "catalog_images" ADD CONSTRAINT "catalog_images_product_id_catalog_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."catalog_products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_images_url_key_idx" ON "catalog_images" USING btree ("url_key");--> statement-breakpoint
+CREATE INDEX "catalog_images_filename_key_idx" ON "catalog_images" USING btree ("filename_key");--> statement-breakpoint
+CREATE INDEX "catalog_images_product_id_idx" ON "catalog_images" USING btree ("product_id");--> statement-breakpoint
+-- The image index is filled by catalog syncs - make the next one a full sync
+UPDATE "catalog_sync_state" SET "last_full_sync_at" = NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "catalog_products_synced_at_idx";--> statement-breakpoint
+ALTER TABLE "catalog_products" ADD COLUMN "store_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+CREATE INDEX "catalog_products_store_id_synced_at_idx" ON "catalog_products" USING btree ("store_id","synced_at");
\ No newline at end of file
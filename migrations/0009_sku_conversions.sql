@@ -0,0 +1,9 @@
+CREATE TABLE "sku_conversions" (
+	"store_id" varchar NOT NULL,
+	"normalized_sku" text NOT NULL,
+	"sku" text NOT NULL,
+	"settings_key" text NOT NULL,
+	"settings" jsonb NOT NULL,
+	"converted_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sku_conversions_store_id_normalized_sku_settings_key_pk" PRIMARY KEY("store_id","normalized_sku","settings_key")
+);
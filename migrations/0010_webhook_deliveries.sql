@@ -0,0 +1,10 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"store_id" varchar NOT NULL,
+	"product_id" bigint NOT NULL,
+	"jobs" jsonb NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_received_at_idx" ON "webhook_deliveries" USING btree ("received_at");
\ No newline at end of file
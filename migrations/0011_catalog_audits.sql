@@ -0,0 +1,31 @@
+CREATE TABLE "catalog_audit_issues" (
+	"audit_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"type" text NOT NULL,
+	"product_id" bigint NOT NULL,
+	"product_title" text NOT NULL,
+	"handle" text NOT NULL,
+	"sku" text,
+	"variant_title" text,
+	"image_id" bigint,
+	"image_url" text,
+	"width" integer,
+	"height" integer,
+	"detail" text NOT NULL,
+	CONSTRAINT "catalog_audit_issues_audit_id_position_pk" PRIMARY KEY("audit_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE "catalog_audits" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"store_id" varchar NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"options" jsonb NOT NULL,
+	"scanned" jsonb NOT NULL,
+	"issue_counts" jsonb NOT NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "catalog_audit_issues" ADD CONSTRAINT "catalog_audit_issues_audit_id_catalog_audits_id_fk" FOREIGN KEY ("audit_id") REFERENCES "public"."catalog_audits"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_audits_started_at_idx" ON "catalog_audits" USING btree ("started_at");
\ No newline at end of file
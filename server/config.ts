@@ -0,0 +1,5 @@
+// Integer settings from the environment, falling back when unset or invalid
+export function readIntEnv(name: string, fallback: number, min = 0): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
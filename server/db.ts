@@ -0,0 +1,62 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleNodePg, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database with our schema - Neon, node-postgres or an
+// embedded stand-in such as PGlite in tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type DatabaseDriver = 'neon' | 'pg';
+
+export interface DatabaseConnection {
+  db: Database;
+  driver: DatabaseDriver;
+  close: () => Promise<void>;
+}
+
+// DATABASE_DRIVER wins, otherwise Neon hosts use the serverless driver and
+// everything else (e.g. a local Postgres) uses node-postgres
+function getDriver(connectionString: string): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER;
+  if (driver === 'neon' || driver === 'pg') return driver;
+  if (driver) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}" - expected "neon" or "pg"`);
+  }
+  try {
+    return new URL(connectionString).hostname.endsWith('.neon.tech') ? 'neon' : 'pg';
+  } catch {
+    return 'pg';
+  }
+}
+
+export function createDatabase(connectionString = process.env.DATABASE_URL): DatabaseConnection {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use Postgres storage");
+  }
+
+  const driver = getDriver(connectionString);
+  if (driver === 'neon') {
+    const pool = new NeonPool({ connectionString });
+    return { db: drizzleNeon(pool, { schema }), driver, close: () => pool.end() };
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return { db: drizzleNodePg(pool, { schema }), driver, close: () => pool.end() };
+}
+
+// Applies pending migrations from ./migrations
+export async function migrateDatabase({ db, driver }: DatabaseConnection, migrationsFolder = "./migrations") {
+  if (driver === 'neon') {
+    await migrateNeon(db as NeonDatabase<typeof schema>, { migrationsFolder });
+  } else {
+    await migrateNodePg(db as NodePgDatabase<typeof schema>, { migrationsFolder });
+  }
+}
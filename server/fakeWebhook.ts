@@ -0,0 +1,54 @@
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import { parseArgs } from "util";
+import { buildFakeProduct, sendFakeWebhook } from "./testing/fakeWebhook";
+
+// Sends a signed products/update (or products/create) webhook the way Shopify does, for
+// trying out regeneration locally. Usage:
+//   npm run webhook:fake -- --secret <webhook secret> --shop shopfls.myshopify.com \
+//     --product-id 123 --sku 66P-00022N-FLS --image https://cdn.shopify.com/.../photo.jpg
+//   npm run webhook:fake -- --secret <webhook secret> --shop shopfls.myshopify.com --file product.json
+// --file sends a saved product payload as is. --bad-signature checks that unsigned deliveries
+// are rejected, --repeat resends the same webhook id.
+const { values } = parseArgs({
+  options: {
+    url: { type: "string", default: "http://localhost:5000/api/webhooks/shopify/products" },
+    secret: { type: "string", default: process.env.SHOPIFY_WEBHOOK_SECRET },
+    shop: { type: "string", default: process.env.SHOPIFY_STORE },
+    topic: { type: "string", default: "products/update" },
+    file: { type: "string" },
+    "product-id": { type: "string", default: "1" },
+    title: { type: "string", default: "Test product" },
+    sku: { type: "string", multiple: true, default: [] },
+    image: { type: "string", multiple: true, default: [] },
+    "bad-signature": { type: "boolean", default: false },
+    repeat: { type: "boolean", default: false },
+  },
+});
+
+(async () => {
+  if (!values.secret || !values.shop) {
+    console.error("❌ --secret and --shop (or SHOPIFY_WEBHOOK_SECRET and SHOPIFY_STORE) are required");
+    process.exitCode = 1;
+    return;
+  }
+
+  const body = values.file
+    ? await readFile(values.file, "utf8")
+    : JSON.stringify(buildFakeProduct({ productId: Number(values["product-id"]), title: values.title!, skus: values.sku!, images: values.image! }));
+  const webhookId = randomUUID();
+
+  for (let delivery = 0; delivery < (values.repeat ? 2 : 1); delivery++) {
+    const response = await sendFakeWebhook({
+      url: values.url!,
+      secret: values.secret,
+      shop: values.shop,
+      topic: values.topic,
+      body,
+      webhookId,
+      badSignature: values["bad-signature"],
+    });
+    console.log(`📨 ${values.topic} -> ${response.status}: ${await response.text()}`);
+    if (!response.ok) process.exitCode = 1;
+  }
+})();
@@ -0,0 +1,25 @@
+import { createDatabase, migrateDatabase } from "./db";
+import { DbStorage } from "./storage";
+import { shopifyStores } from "./services/shopifyStores";
+
+// Usage: DATABASE_URL=... npm run db:migrate
+(async () => {
+  const connection = createDatabase();
+
+  try {
+    console.log(`🗄️ Applying migrations (${connection.driver} driver)...`);
+    await migrateDatabase(connection);
+    const storage = new DbStorage(connection.db);
+    await storage.seedDefaultPresets();
+    const moved = await storage.assignLegacyCatalog(shopifyStores.defaultStoreId);
+    if (moved > 0) {
+      console.log(`🏬 Assigned ${moved} catalog product(s) from before multi-store support to store ${shopifyStores.defaultStoreId}`);
+    }
+    console.log('✅ Database is up to date');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await connection.close();
+  }
+})();
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import sharp from "sharp";
+import { FakeShopify, FakeResponse, fakeCatalog } from "./testing/fakeShopify";
+
+vi.hoisted(() => {
+  process.env.SHOPIFY_THROTTLE_RETRIES = "0";
+  process.env.CATALOG_SYNC_INTERVAL_MINUTES = "0";
+});
+
+let shopify: FakeShopify;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  shopify = await new FakeShopify(fakeCatalog(2)).start();
+  vi.stubEnv("SHOPIFY_STORES", JSON.stringify([{ id: "us", domain: "us.myshopify.com", accessToken: "shpat_test", apiUrl: shopify.url }]));
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await shopify.close();
+  vi.unstubAllEnvs();
+});
+
+const request = (method: string, path: string, body?: unknown) => fetch(`${baseUrl}${path}`, {
+  method,
+  headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+  body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+describe("preset routes", () => {
+  it("creates, updates and deletes a preset", async () => {
+    const created = await request("POST", "/api/presets", { name: "Etsy", width: 2000, height: 1600, fit: "contain", format: "webp" });
+    expect(created.status).toBe(201);
+    const preset = await created.json();
+    expect(preset).toMatchObject({ id: expect.any(String), name: "Etsy", width: 2000, height: 1600, fit: "contain", background: "#ffffff", format: "webp" });
+
+    const updated = await request("PATCH", `/api/presets/${preset.id}`, { height: null });
+    expect(await updated.json()).toMatchObject({ width: 2000, height: null });
+    expect((await request("GET", "/api/presets")).status).toBe(200);
+    expect(await (await request("GET", `/api/presets/${preset.id}`)).json()).toMatchObject({ height: null });
+
+    expect((await request("DELETE", `/api/presets/${preset.id}`)).status).toBe(204);
+    expect((await request("GET", `/api/presets/${preset.id}`)).status).toBe(404);
+    expect((await request("DELETE", `/api/presets/${preset.id}`)).status).toBe(404);
+  });
+
+  it("rejects presets without a size or with bad fields", async () => {
+    const invalid = await request("POST", "/api/presets", { name: "Odd", width: 0, height: 100, background: "white" });
+    expect(invalid.status).toBe(400);
+    expect(Object.keys((await invalid.json()).details.fieldErrors).sort()).toEqual(["background", "width"]);
+
+    expect((await request("POST", "/api/presets", { name: "No size", width: null, height: null })).status).toBe(400);
+    // Clearing the one side the preset has would leave it without a size
+    const cleared = await request("PATCH", "/api/presets/banner", { width: null });
+    expect(cleared.status).toBe(400);
+    expect((await cleared.json()).error).toBe("A preset needs at least a width or a height");
+    expect((await request("PATCH", "/api/presets/missing", { name: "Missing" })).status).toBe(404);
+  });
+});
+
+describe("POST /api/process-sku", () => {
+  const processSku = (body: Record<string, unknown>) =>
+    request("POST", "/api/process-sku", { sku: "SKU-9-1", dimensions: "600x600", format: "jpeg", dpi: 300, ...body });
+
+  it("names the invalid fields", async () => {
+    const response = await processSku({ imageSelector: { type: "position", position: 0 }, dpi: 10 });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe("Invalid SKU request");
+    expect(Object.keys(body.details.fieldErrors).sort()).toEqual(["dpi", "imageSelector"]);
+  });
+
+  it("answers 503 with Retry-After when Shopify is throttling the lookup", async () => {
+    shopify.onGraphql("productVariantsBySku", () => new FakeResponse(429, { errors: "Throttled" }, { "Retry-After": "2" }));
+
+    const response = await processSku({});
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("retry-after")).toBe("2");
+  });
+
+  it("answers 404 for an unknown store", async () => {
+    const response = await processSku({ storeId: "eu" });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toMatch(/eu/);
+  });
+});
+
+describe("upload routes", () => {
+  const png = () => sharp({ create: { width: 200, height: 100, channels: 3, background: "#cc3333" } }).png().toBuffer();
+
+  const upload = (path: string, files: Array<{ field?: string; name: string; type: string; content: Buffer | string }>, options?: unknown) => {
+    const form = new FormData();
+    files.forEach(file => form.append(file.field ?? "file", new Blob([file.content], { type: file.type }), file.name));
+    if (options !== undefined) form.append("options", typeof options === "string" ? options : JSON.stringify(options));
+    return fetch(`${baseUrl}${path}`, { method: "POST", body: form });
+  };
+
+  it("converts an uploaded image, named after the file", async () => {
+    const response = await upload("/api/upload-image", [{ name: "Red mug (front).png", type: "image/png", content: await png() }], { dimensions: "50x50", format: "webp", dpi: 300 });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/webp");
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="Red-mug-front.webp"');
+    expect(await sharp(Buffer.from(await response.arrayBuffer())).metadata()).toMatchObject({ format: "webp", width: 50, height: 50 });
+  });
+
+  it("rejects unsupported files and files that aren't what they claim", async () => {
+    const text = await upload("/api/upload-image", [{ name: "notes.txt", type: "text/plain", content: "hello" }], { dimensions: "50x50", dpi: 300 });
+    expect(text.status).toBe(415);
+    expect((await text.json()).error).toMatch(/Unsupported file "notes.txt"/);
+
+    const fake = await upload("/api/upload-image", [{ name: "photo.png", type: "image/png", content: "not a png" }], { dimensions: "50x50", dpi: 300 });
+    expect(fake.status).toBe(415);
+    expect((await fake.json()).error).toBe('"photo.png" is not a readable image');
+
+    const pdf = await upload("/api/upload-pdf", [{ name: "catalog.pdf", type: "application/pdf", content: "plain text" }], { dimensions: "50x50", dpi: 300 });
+    expect(pdf.status).toBe(415);
+  });
+
+  it("names the invalid upload options", async () => {
+    const response = await upload("/api/upload-image", [{ name: "mug.png", type: "image/png", content: await png() }], { dimensions: "50x50", dpi: 10 });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe("Invalid upload options");
+    expect(Object.keys(body.details.fieldErrors)).toEqual(["dpi"]);
+
+    const unreadable = await upload("/api/upload-image", [{ name: "mug.png", type: "image/png", content: await png() }], "{not json");
+    expect(unreadable.status).toBe(400);
+  });
+
+  it("answers 400 for a missing file or an unexpected field", async () => {
+    const missing = await upload("/api/upload-image", [], { dimensions: "50x50", dpi: 300 });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toBe("No image uploaded");
+
+    const unexpected = await upload("/api/upload-image", [{ field: "image", name: "mug.png", type: "image/png", content: await png() }]);
+    expect(unexpected.status).toBe(400);
+    expect((await unexpected.json()).error).toBe('Unexpected file field "image"');
+
+    const empty = await upload("/api/upload-batch-job", [], { dimensions: "50x50", dpi: 300 });
+    expect(empty.status).toBe(400);
+    expect((await empty.json()).error).toBe("No valid items to process");
+  });
+});
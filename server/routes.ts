@@ -1,21 +1,45 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { shopifyService } from "./services/shopify";
+import { CatalogSelectionError, type ShopifyService } from "./services/shopify";
+import { shopifyStores, UnknownStoreError } from "./services/shopifyStores";
 import { imageProcessor } from "./services/imageProcessor";
-import { pdfProcessor } from "./services/pdfProcessor";
-import { queueProcessor } from "./services/queueProcessor";
+import { pdfProcessor, type PdfProcessingOptions, type ProcessedPdfPage } from "./services/pdfProcessor";
+import { queueProcessor, batchLimits, BatchJobNotFoundError, BatchJobStateError, type BatchJob, type ProcessingItem, type ProcessingItemType } from "./services/queueProcessor";
+import { resultStore } from "./services/resultStore";
+import { workScheduler } from "./services/workScheduler";
+import { HttpStatusError, isTransientError } from "./services/retry";
+import { catalogSyncIntervalMinutes } from "./services/catalogIndex";
+import { presetService, PresetNotFoundError, OutputOptionsError } from "./services/presetService";
+import { productWebhooks, PRODUCT_WEBHOOK_TOPICS } from "./services/productWebhooks";
+import { catalogAuditService, CatalogAuditNotFoundError, CatalogAuditRunningError } from "./services/catalogAudit";
 import { 
   insertProcessingJobSchema, 
   bulkProcessingRequestSchema,
   bulkMixedProcessingRequestSchema,
   pdfProcessingRequestSchema,
-  urlProcessingRequestSchema
+  urlProcessingRequestSchema,
+  skuProcessingRequestSchema,
+  createImagePresetSchema,
+  updateImagePresetSchema,
+  uploadProcessingRequestSchema,
+  uploadBatchRequestSchema,
+  pdfUploadRequestSchema,
+  processingJobFilterSchema,
+  catalogSelectionSchema,
+  imageLookupQuerySchema,
+  skuSearchQuerySchema,
+  productWebhookSchema,
+  catalogAuditRequestSchema,
+  catalogAuditIssuesQuerySchema,
+  selectProductImages,
+  type PdfUploadRequest
 } from "@shared/schema";
+import { uploadImage, uploadImages, uploadPdf, getUploadedFiles, getUploadOptions } from "./upload";
 import JSZip from 'jszip';
 
 // Helper function to extract meaningful filename from URL
-async function extractFilenameFromUrl(url: string): Promise<string | null> {
+async function extractFilenameFromUrl(url: string, store: ShopifyService): Promise<string | null> {
   try {
     const urlObj = new URL(url);
     const pathname = urlObj.pathname;
@@ -23,14 +47,10 @@ async function extractFilenameFromUrl(url: string): Promise<string | null> {
     console.log(`🔍 Extracting filename from URL: ${url}`);
     console.log(`📂 Pathname: ${pathname}`);
     
-    // Try reverse SKU lookup first for Shopify URLs
-    if (pathname.includes('/files/') || pathname.includes('/cdn/shop/')) {
-      console.log(`🔍 Attempting reverse SKU lookup for Shopify image...`);
-      const foundSku = await shopifyService.getSkuByImageUrl(url);
-      if (foundSku) {
-        console.log(`🎯 Using SKU from reverse lookup: ${foundSku}`);
-        return foundSku;
-      }
+    // Images from the catalog are named after their SKU
+    const foundSku = await store.catalog.getSkuByImageUrl(url);
+    if (foundSku) {
+      return foundSku;
     }
     
     // Handle Shopify CDN URLs - extract product info if possible  
@@ -102,93 +122,608 @@ async function extractFilenameFromUrl(url: string): Promise<string | null> {
   }
 }
 
+// Preset/output option problems are the client's to fix - returns true when the error was handled
+function handleOutputOptionsError(error: unknown, res: Response): boolean {
+  if (error instanceof PresetNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof OutputOptionsError) {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// An unknown collection is the client's to fix - returns true when the error was handled
+function handleSelectionError(error: unknown, res: Response): boolean {
+  if (error instanceof CatalogSelectionError) {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Remembers a SKU's settings for webhook-triggered regeneration - never fails the conversion
+async function recordSkuConversion(storeId: string, sku: string, settings: object) {
+  try {
+    await storage.recordSkuConversion(storeId, sku, settings);
+  } catch (error) {
+    console.error(`❌ Failed to record conversion of ${sku}:`, error);
+  }
+}
+
+// The store named by a storeId query or body field, or the default store
+function getStore(storeId: unknown): ShopifyService {
+  return shopifyStores.get(typeof storeId === 'string' ? storeId : undefined);
+}
+
+// An unknown storeId is the client's to fix - returns true when the error was handled
+function handleStoreError(error: unknown, res: Response): boolean {
+  if (error instanceof UnknownStoreError) {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Shopify throttling, 5xx or a network failure during a SKU lookup - the product may well
+// exist, so answer 503 rather than 404 or 500. Returns true when the error was handled
+function handleShopifyUnavailableError(error: unknown, res: Response): boolean {
+  if (!isTransientError(error)) return false;
+  const retryAfterMs = error instanceof HttpStatusError ? error.retryAfterMs : undefined;
+  if (retryAfterMs) res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  res.status(503).json({ error: "Shopify is unavailable or rate limiting requests, try again shortly" });
+  return true;
+}
+
+// An unknown audit or one already running for the store - returns true when the error was handled
+function handleAuditError(error: unknown, res: Response): boolean {
+  if (error instanceof CatalogAuditNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof CatalogAuditRunningError) {
+    res.status(409).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Runs a pause/resume/cancel/retry request; conflicts with the job's state are the client's to fix
+async function controlBatchJob(res: Response, action: string, control: () => Promise<BatchJob>) {
+  try {
+    const job = await control();
+    res.json({ id: job.id, status: job.status, progress: job.progress });
+  } catch (error) {
+    if (error instanceof BatchJobNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof BatchJobStateError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error(`Error trying to ${action} batch job:`, error);
+    res.status(500).json({ error: `Failed to ${action} batch job` });
+  }
+}
+
+// Surfaces processing warnings (e.g. upscaling) on binary responses
+function setWarningsHeader(res: Response, warnings: string[]) {
+  if (warnings.length > 0) {
+    res.setHeader('X-Processing-Warnings', warnings.join(' | '));
+  }
+}
+
+// Converts every page of a URL or uploaded PDF and sends them as a ZIP
+async function sendPdfPages(
+  res: Response,
+  request: PdfUploadRequest,
+  jobInput: { type: 'pdf' | 'pdf-upload'; input: string },
+  filename: string,
+  convert: (options: PdfProcessingOptions) => Promise<ProcessedPdfPage[]>
+) {
+  const { preset, printSize } = request;
+  const dimensions = request.dimensions === 'original' ? undefined : request.dimensions;
+  const dpi = request.dpi ?? 150; // Default for PDF
+
+  // Pages keep their original size unless a preset, explicit dimensions or a print size
+  // is given, and are fitted whole ('contain') unless another fit mode is requested
+  const output = preset || dimensions || printSize
+    ? await presetService.resolve({ ...request, dimensions, fit: request.fit || 'contain' }, dpi)
+    : null;
+  const format = output?.format || request.format || 'jpeg';
+
+  // Create processing job
+  const job = await storage.createProcessingJob({
+    ...jobInput,
+    dimensions: output?.dimensions || 'original',
+    dpi,
+    format,
+    preset: output?.preset
+  });
+
+  await storage.updateProcessingJob(job.id, { status: 'processing' });
+
+  // Process PDF
+  let processOptions: PdfProcessingOptions;
+  if (!output) {
+    processOptions = {
+      filename,
+      format,
+      dpi
+    };
+  } else {
+    const { width, height } = imageProcessor.parseDimensions(output.dimensions);
+    processOptions = {
+      width,
+      height,
+      filename,
+      format,
+      dpi,
+      fit: output.fit,
+      background: output.background,
+      gravity: output.gravity,
+      printSize: output.printSize
+    };
+  }
+  
+  const processedPages = await convert(processOptions);
+  const warnings = Array.from(new Set(processedPages.flatMap(page => page.warnings)));
+
+  // Create ZIP file
+  const zip = new JSZip();
+  processedPages.forEach(({ filename, buffer }) => {
+    zip.file(filename, buffer);
+  });
+
+  const zipBuffer = await zip.generateAsync({ 
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    compressionOptions: {
+      level: 6
+    }
+  });
+
+  console.log(`📦 Created ZIP with ${processedPages.length} pages: ${zipBuffer.length} bytes`);
+
+  await storage.updateProcessingJob(job.id, { status: 'completed' });
+
+  // Send ZIP file
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', 'attachment; filename="pdf-pages.zip"');
+  setWarningsHeader(res, warnings);
+  res.send(zipBuffer);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Pick up batch jobs interrupted by a restart, and drop day-old results now and every hour
+  queueProcessor.resumePendingJobs().catch(error => {
+    console.error("❌ Failed to resume batch jobs:", error);
+  });
+  catalogAuditService.failInterruptedAudits().catch(error => {
+    console.error("❌ Failed to close interrupted catalog audits:", error);
+  });
+  const cleanupOldJobs = () => {
+    queueProcessor.cleanupOldJobs().catch(error => {
+      console.error("❌ Failed to clean up batch jobs:", error);
+    });
+    productWebhooks.cleanupOldDeliveries().catch(error => {
+      console.error("❌ Failed to clean up webhook deliveries:", error);
+    });
+  };
+  cleanupOldJobs();
+  setInterval(cleanupOldJobs, 60 * 60 * 1000).unref();
+
+  // Keep every store's local SKU index current; CATALOG_SYNC_INTERVAL_MINUTES=0 turns periodic syncs off
+  const configuredStores = shopifyStores.list().filter(store => store.configured);
+  if (configuredStores.length > 0) {
+    // Failures are logged and kept in the sync state. Stores sync one after another so they
+    // don't compete for CPU with conversions.
+    const syncCatalogs = async () => {
+      for (const store of configuredStores) {
+        await store.catalog.sync().catch(() => {});
+      }
+    };
+    syncCatalogs();
+    if (catalogSyncIntervalMinutes > 0) {
+      setInterval(syncCatalogs, catalogSyncIntervalMinutes * 60 * 1000).unref();
+    }
+  }
   
-  // Health check endpoint
+  // Health check endpoint - Shopify is "connected" when every configured store is reachable
   app.get("/api/health", async (req, res) => {
     try {
-      const shopifyConnected = await shopifyService.testConnection();
+      const stores = await Promise.all(shopifyStores.list().map(async store => ({
+        ...store.info,
+        connected: store.configured && await store.testConnection(),
+        api: store.getThrottleStats(),
+        restSkuScans: store.getRestScanStats()
+      })));
+      const connected = stores.filter(store => store.connected).length;
       res.json({
         status: "ok",
         services: {
-          shopify: shopifyConnected ? "connected" : "disconnected",
+          shopify: connected === 0 ? "disconnected" : connected < stores.length ? "degraded" : "connected",
           imageProcessing: "online",
           pdfConverter: "ready"
-        }
+        },
+        batch: { ...batchLimits, ...queueProcessor.getStats() },
+        scheduler: workScheduler.getStats(),
+        stores
       });
     } catch (error) {
       res.status(500).json({ error: "Health check failed" });
     }
   });
 
+  // The Shopify stores requests can name with storeId - the first one is the default
+  app.get("/api/stores", (req, res) => {
+    res.json({
+      stores: shopifyStores.list().map(store => store.info),
+      defaultStoreId: shopifyStores.defaultStoreId
+    });
+  });
+
+  // Shopify products/create and products/update webhooks - re-converts the product's SKUs
+  // with their earlier settings when its images changed. Stores need a webhookSecret.
+  app.post("/api/webhooks/shopify/products", async (req, res) => {
+    const store = shopifyStores.findByDomain(req.get('X-Shopify-Shop-Domain'));
+    if (!store || !req.rawBody || !store.verifyWebhook(req.rawBody, req.get('X-Shopify-Hmac-Sha256'))) {
+      return res.status(401).json({ error: "Invalid webhook signature" });
+    }
+
+    const topic = req.get('X-Shopify-Topic');
+    if (!topic || !PRODUCT_WEBHOOK_TOPICS.includes(topic)) {
+      return res.json({ ignored: true, topic });
+    }
+    const parsed = productWebhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid product payload", details: parsed.error.flatten() });
+    }
+
+    try {
+      res.json(await productWebhooks.handle(store, req.get('X-Shopify-Webhook-Id'), parsed.data));
+    } catch (error) {
+      // A 5xx makes Shopify deliver the webhook again later
+      console.error("Error handling product webhook:", error);
+      res.status(500).json({ error: "Failed to handle product webhook" });
+    }
+  });
+
   // Get product by SKU
   app.get("/api/product/:sku", async (req, res) => {
     try {
       const { sku } = req.params;
-      const product = await shopifyService.getProductBySku(sku);
+      const store = getStore(req.query.storeId);
+      const product = await store.getProductBySku(sku);
       
       if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+        // Close matches for a mistyped SKU
+        const suggestions = await store.catalog.search(sku, 5).catch(() => []);
+        return res.status(404).json({ error: "Product not found", suggestions });
       }
 
       res.json(product);
     } catch (error) {
+      if (handleStoreError(error, res) || handleShopifyUnavailableError(error, res)) return;
       console.error("Error fetching product:", error);
       res.status(500).json({ error: "Failed to fetch product" });
     }
   });
 
+  // Catalog index status - counts, last sync times and the last sync error
+  app.get("/api/catalog/status", async (req, res) => {
+    try {
+      res.json(await getStore(req.query.storeId).catalog.getStatus());
+    } catch (error) {
+      if (handleStoreError(error, res)) return;
+      console.error("Error fetching catalog status:", error);
+      res.status(500).json({ error: "Failed to fetch catalog status" });
+    }
+  });
+
+  // Sync the catalog index now; { full: true } re-reads the whole catalog instead of recent changes
+  app.post("/api/catalog/sync", async (req, res) => {
+    try {
+      const store = getStore(req.body?.storeId);
+      if (!store.configured) {
+        return res.status(503).json({ error: "Shopify API not configured" });
+      }
+      const result = await store.catalog.sync({ full: req.body?.full === true });
+      res.json(result);
+    } catch (error) {
+      if (handleStoreError(error, res)) return;
+      res.status(502).json({ error: error instanceof Error ? error.message : "Catalog sync failed" });
+    }
+  });
+
+  // Expand a collection/vendor/product type/tag selection into its SKUs - the batch form
+  // shows the count as a preview before starting a job with the same selection
+  app.post("/api/catalog/selection", async (req, res) => {
+    const parsed = catalogSelectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid catalog selection", details: parsed.error.flatten() });
+    }
+    try {
+      const result = await getStore(req.body.storeId).getSkusForSelection(parsed.data);
+      res.json({ ...result, count: result.skus.length, maxItems: batchLimits.maxItems });
+    } catch (error) {
+      if (handleSelectionError(error, res) || handleStoreError(error, res)) return;
+      console.error("Error expanding catalog selection:", error);
+      res.status(500).json({ error: "Failed to expand catalog selection" });
+    }
+  });
+
+  // SKU typeahead - ranked suggestions from the catalog index
+  app.get("/api/catalog/search", async (req, res) => {
+    const parsed = skuSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid search", details: parsed.error.flatten() });
+    }
+    try {
+      res.json(await shopifyStores.get(parsed.data.storeId).catalog.search(parsed.data.q, parsed.data.limit));
+    } catch (error) {
+      if (handleStoreError(error, res)) return;
+      console.error("Error searching SKUs:", error);
+      res.status(500).json({ error: "Failed to search SKUs" });
+    }
+  });
+
+  // Reverse lookup: which SKU(s) an image URL, file name or Shopify image ID belongs to,
+  // answered from the catalog index with a confidence for the most likely SKU
+  app.get("/api/catalog/image-lookup", async (req, res) => {
+    const parsed = imageLookupQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid image lookup", details: parsed.error.flatten() });
+    }
+    try {
+      const result = await shopifyStores.get(parsed.data.storeId).catalog.lookupImage(parsed.data);
+      if (!result.matchedBy) {
+        return res.status(404).json({ error: "Image not found in the catalog index", ...result });
+      }
+      res.json(result);
+    } catch (error) {
+      if (handleStoreError(error, res)) return;
+      console.error("Error looking up image:", error);
+      res.status(500).json({ error: "Failed to look up image" });
+    }
+  });
+
+  // Start a catalog image audit - it runs in the background, poll it by id
+  app.post("/api/catalog/audits", async (req, res) => {
+    const parsed = catalogAuditRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid audit options", details: parsed.error.flatten() });
+    }
+    try {
+      const store = shopifyStores.get(parsed.data.storeId);
+      if (!store.configured) {
+        return res.status(503).json({ error: "Shopify API not configured" });
+      }
+      res.status(202).json(await catalogAuditService.start(store, { ...parsed.data, storeId: store.id }));
+    } catch (error) {
+      if (handleStoreError(error, res) || handleAuditError(error, res)) return;
+      console.error("Error starting catalog audit:", error);
+      res.status(500).json({ error: "Failed to start catalog audit" });
+    }
+  });
+
+  // Recent audits, latest first
+  app.get("/api/catalog/audits", async (req, res) => {
+    try {
+      res.json(await catalogAuditService.list());
+    } catch (error) {
+      console.error("Error listing catalog audits:", error);
+      res.status(500).json({ error: "Failed to list catalog audits" });
+    }
+  });
+
+  app.get("/api/catalog/audits/:id", async (req, res) => {
+    try {
+      res.json(await catalogAuditService.get(req.params.id));
+    } catch (error) {
+      if (handleAuditError(error, res)) return;
+      res.status(500).json({ error: "Failed to fetch catalog audit" });
+    }
+  });
+
+  // An audit's issues, filtered by type and product/SKU search and paged with offset/limit
+  app.get("/api/catalog/audits/:id/issues", async (req, res) => {
+    const parsed = catalogAuditIssuesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid issue filters", details: parsed.error.flatten() });
+    }
+    try {
+      res.json(await catalogAuditService.getIssues(req.params.id, parsed.data));
+    } catch (error) {
+      if (handleAuditError(error, res)) return;
+      res.status(500).json({ error: "Failed to fetch audit issues" });
+    }
+  });
+
+  // The same issues as CSV - every match, ignoring offset and limit
+  app.get("/api/catalog/audits/:id/issues.csv", async (req, res) => {
+    const parsed = catalogAuditIssuesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid issue filters", details: parsed.error.flatten() });
+    }
+    try {
+      const csv = await catalogAuditService.toCsv(req.params.id, parsed.data);
+      const suffix = parsed.data.type ? `-${parsed.data.type}` : '';
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="catalog-audit-${req.params.id.slice(0, 8)}${suffix}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      if (handleAuditError(error, res)) return;
+      res.status(500).json({ error: "Failed to export audit issues" });
+    }
+  });
+
+  // List size presets
+  app.get("/api/presets", async (req, res) => {
+    try {
+      const presets = await storage.getImagePresets();
+      res.json(presets);
+    } catch (error) {
+      console.error("Error listing presets:", error);
+      res.status(500).json({ error: "Failed to list presets" });
+    }
+  });
+
+  // Get a single preset
+  app.get("/api/presets/:id", async (req, res) => {
+    try {
+      const preset = await storage.getImagePreset(req.params.id);
+
+      if (!preset) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      res.json(preset);
+    } catch (error) {
+      console.error("Error fetching preset:", error);
+      res.status(500).json({ error: "Failed to fetch preset" });
+    }
+  });
+
+  // Create a preset
+  app.post("/api/presets", async (req, res) => {
+    try {
+      const parsed = createImagePresetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid preset", details: parsed.error.flatten() });
+      }
+
+      const preset = await storage.createImagePreset(parsed.data);
+      res.status(201).json(preset);
+    } catch (error) {
+      console.error("Error creating preset:", error);
+      res.status(500).json({ error: "Failed to create preset" });
+    }
+  });
+
+  // Update a preset
+  app.patch("/api/presets/:id", async (req, res) => {
+    try {
+      const parsed = updateImagePresetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid preset", details: parsed.error.flatten() });
+      }
+
+      const existing = await storage.getImagePreset(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      const merged = { ...existing, ...parsed.data };
+      if (!merged.width && !merged.height) {
+        return res.status(400).json({ error: "A preset needs at least a width or a height" });
+      }
+
+      const preset = await storage.updateImagePreset(req.params.id, parsed.data);
+      res.json(preset);
+    } catch (error) {
+      console.error("Error updating preset:", error);
+      res.status(500).json({ error: "Failed to update preset" });
+    }
+  });
+
+  // Delete a preset
+  app.delete("/api/presets/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteImagePreset(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting preset:", error);
+      res.status(500).json({ error: "Failed to delete preset" });
+    }
+  });
+
   // Process single SKU
   app.post("/api/process-sku", async (req, res) => {
     try {
-      const { sku, dimensions, dpi } = req.body;
-      
       // Validate input
-      if (!sku || !dimensions || !dpi) {
-        return res.status(400).json({ error: "Missing required fields" });
+      const parsed = skuProcessingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid SKU request", details: parsed.error.flatten() });
       }
+      const { sku, dpi, imageSelector, storeId } = parsed.data;
+      const output = await presetService.resolve(parsed.data, dpi);
 
       // Get product from Shopify
-      const product = await shopifyService.getProductBySku(sku);
+      const store = shopifyStores.get(storeId);
+      const product = await store.getProductBySku(sku);
       if (!product || !product.images.length) {
         return res.status(404).json({ error: "Product or image not found" });
       }
+      const images = selectProductImages(product, sku, imageSelector);
+      if (images.length === 0) {
+        return res.status(404).json({ error: "No product image matches the image selector" });
+      }
 
       // Create processing job
       const job = await storage.createProcessingJob({
         type: 'sku',
         input: sku,
-        dimensions,
-        dpi: Number(dpi)
+        dimensions: output.dimensions,
+        dpi,
+        format: output.format,
+        preset: output.preset
       });
 
       // Update job with product info
       await storage.updateProcessingJob(job.id, {
         productTitle: product.title,
-        productImage: product.images[0].src,
+        productImage: images[0].image.src,
         status: 'processing'
       });
 
+      // All-images mode converts every product image and returns them as SKU-1.jpg, SKU-2.jpg, ... in a ZIP
+      if (imageSelector?.type === 'all') {
+        const zip = new JSZip();
+        const warnings: string[] = [];
+        for (const { image, basename } of images) {
+          const processed = await imageProcessor.processImage(image.src, imageProcessor.toProcessingOptions(output, dpi, basename));
+          const filename = imageProcessor.getOutputFilename(basename, output.format);
+          zip.file(filename, processed.buffer);
+          warnings.push(...processed.warnings.map(warning => `${filename}: ${warning}`));
+        }
+        const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+        await storage.updateProcessingJob(job.id, { status: 'completed' });
+        await recordSkuConversion(store.id, sku, { ...output, dpi, imageSelector });
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${sku}-images.zip"`);
+        setWarningsHeader(res, warnings);
+        return res.send(zipBuffer);
+      }
+
       // Process image
-      const { width, height } = imageProcessor.parseDimensions(dimensions);
-      const processedImage = await imageProcessor.processImage(product.images[0].src, {
-        width,
-        height,
-        dpi: Number(dpi),
-        filename: sku
-      });
+      const processedImage = await imageProcessor.processImage(
+        images[0].image.src,
+        imageProcessor.toProcessingOptions(output, dpi, sku)
+      );
 
       // Update job as completed
       await storage.updateProcessingJob(job.id, {
         status: 'completed'
       });
+      await recordSkuConversion(store.id, sku, { ...output, dpi, imageSelector });
 
       // Return processed image
-      res.setHeader('Content-Type', 'image/jpeg');
-      res.setHeader('Content-Disposition', `attachment; filename="${sku}.jpg"`);
-      res.send(processedImage);
+      res.setHeader('Content-Type', imageProcessor.getContentType(output.format));
+      res.setHeader('Content-Disposition', `attachment; filename="${imageProcessor.getOutputFilename(sku, output.format)}"`);
+      setWarningsHeader(res, processedImage.warnings);
+      res.send(processedImage.buffer);
 
     } catch (error) {
+      if (handleOutputOptionsError(error, res) || handleStoreError(error, res) || handleShopifyUnavailableError(error, res)) return;
       console.error("Error processing SKU:", error);
       res.status(500).json({ error: "Failed to process image" });
     }
@@ -197,15 +732,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Process single URL
   app.post("/api/process-url", async (req, res) => {
     try {
-      const validatedData = urlProcessingRequestSchema.parse(req.body);
-      const { url, dimensions, dpi } = validatedData;
+      const parsed = urlProcessingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid URL request", details: parsed.error.flatten() });
+      }
+      const { url, dpi, storeId } = parsed.data;
+      const store = shopifyStores.get(storeId);
+      const output = await presetService.resolve(parsed.data, dpi);
 
       // Create processing job
       const job = await storage.createProcessingJob({
         type: 'url',
         input: url,
-        dimensions,
-        dpi: Number(dpi)
+        dimensions: output.dimensions,
+        dpi: Number(dpi),
+        format: output.format,
+        preset: output.preset
       });
 
       await storage.updateProcessingJob(job.id, {
@@ -213,15 +755,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Process image
-      const { width, height } = imageProcessor.parseDimensions(dimensions);
-      const filename = await extractFilenameFromUrl(url) || `converted-image-${Date.now()}`;
+      const filename = await extractFilenameFromUrl(url, store) || `converted-image-${Date.now()}`;
       
-      const processedImage = await imageProcessor.processImage(url, {
-        width,
-        height,
-        dpi: Number(dpi),
-        filename
-      });
+      const processedImage = await imageProcessor.processImage(
+        url,
+        imageProcessor.toProcessingOptions(output, Number(dpi), filename)
+      );
 
       // Update job as completed
       await storage.updateProcessingJob(job.id, {
@@ -229,12 +768,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Return processed image
-      console.log(`📁 Setting download filename: ${filename}.jpg`);
-      res.setHeader('Content-Type', 'image/jpeg');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}.jpg"`);
-      res.send(processedImage);
+      const downloadFilename = imageProcessor.getOutputFilename(filename, output.format);
+      res.setHeader('Content-Type', imageProcessor.getContentType(output.format));
+      res.setHeader('Content-Disposition', `attachment; filename="${downloadFilename}"`);
+      setWarningsHeader(res, processedImage.warnings);
+      res.send(processedImage.buffer);
 
     } catch (error) {
+      if (handleOutputOptionsError(error, res) || handleStoreError(error, res)) return;
       console.error("Error processing URL:", error);
       res.status(500).json({ error: "Failed to process image" });
     }
@@ -243,26 +784,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Process bulk SKUs
   app.post("/api/process-bulk", async (req, res) => {
     try {
-      const validatedData = bulkProcessingRequestSchema.parse(req.body);
-      const { skus, dimensions, dpi } = validatedData;
+      const parsed = bulkProcessingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid bulk request", details: parsed.error.flatten() });
+      }
+      const { skus, dpi, imageSelector, storeId } = parsed.data;
+      const output = await presetService.resolve(parsed.data, dpi);
 
       // Get all products
-      const products = await shopifyService.getMultipleProductsBySkus(skus);
+      const products = await shopifyStores.get(storeId).getMultipleProductsBySkus(skus);
       
       // Prepare images for processing
       const imagesToProcess: Array<{ url: string; options: any }> = [];
       
+      // In all-images mode each SKU gets a folder: SKU/SKU-1.jpg, SKU/SKU-2.jpg, ...
       for (const [sku, product] of Object.entries(products)) {
-        if (product && product.images.length > 0) {
-          const { width, height } = imageProcessor.parseDimensions(dimensions);
+        if (!product) continue;
+        for (const { image, basename } of selectProductImages(product, sku, imageSelector)) {
           imagesToProcess.push({
-            url: product.images[0].src,
-            options: {
-              width,
-              height,
-              dpi,
-              filename: sku
-            }
+            url: image.src,
+            options: imageProcessor.toProcessingOptions(output, dpi, imageSelector?.type === 'all' ? `${sku}/${basename}` : basename)
           });
         }
       }
@@ -284,6 +825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.send(zipBuffer);
 
     } catch (error) {
+      if (handleOutputOptionsError(error, res) || handleStoreError(error, res) || handleShopifyUnavailableError(error, res)) return;
       console.error("Error processing bulk SKUs:", error);
       res.status(500).json({ error: "Failed to process bulk images" });
     }
@@ -292,10 +834,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Start batch processing job (queue-based)
   app.post("/api/start-batch-job", async (req, res) => {
     try {
-      const validatedData = bulkMixedProcessingRequestSchema.parse(req.body);
-      const { skus = [], urls = [], dimensions, dpi } = validatedData;
+      const parsed = bulkMixedProcessingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid batch job request", details: parsed.error.flatten() });
+      }
+      const { skus = [], urls = [], dpi, imageSelector, selection, publish } = parsed.data;
+      const store = shopifyStores.get(parsed.data.storeId);
+      if (publish && !store.configured) {
+        return res.status(503).json({ error: "Shopify API not configured" });
+      }
+      const output = await presetService.resolve(parsed.data, dpi);
+
+      // A catalog selection adds every SKU it matches after the listed ones
+      if (selection) {
+        const expanded = await store.getSkusForSelection(selection);
+        skus.push(...expanded.skus);
+      }
 
-      console.log(`🚀 Starting batch job: ${skus.length} SKUs + ${urls.length} URLs (optimized for up to 30 items)`);
+      console.log(`🚀 Starting batch job for ${store.id}: ${skus.length} SKUs + ${urls.length} URLs`);
 
       // Prepare items for queue
       const items: Array<{ type: 'sku' | 'url'; input: string }> = [];
@@ -307,17 +863,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No valid items to process" });
       }
 
-      if (items.length > 30) {
-        return res.status(400).json({ error: "Maximum 30 items allowed per batch for optimal performance" });
+      if (items.length > batchLimits.maxItems) {
+        return res.status(400).json({ error: `Maximum ${batchLimits.maxItems} items allowed per batch` });
       }
 
-      // Add to queue
-      const jobId = await queueProcessor.addBatchJob(items, { dimensions, dpi });
+      // Add to queue - the job keeps the resolved store even if the default changes later
+      const jobId = await queueProcessor.addBatchJob(items, { ...output, dpi, imageSelector, publish, storeId: store.id });
 
       console.log(`✅ Created batch job: ${jobId}`);
-      res.json({ jobId, message: "Batch job started" });
+      res.json({ jobId, message: "Batch job started", total: items.length });
 
     } catch (error) {
+      if (handleOutputOptionsError(error, res) || handleSelectionError(error, res) || handleStoreError(error, res)) return;
       console.error("Error starting batch job:", error);
       res.status(500).json({ error: "Failed to start batch job" });
     }
@@ -327,7 +884,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/batch-job/:jobId", async (req, res) => {
     try {
       const { jobId } = req.params;
-      const job = queueProcessor.getJob(jobId);
+      const job = await queueProcessor.getJob(jobId);
       
       if (!job) {
         return res.status(404).json({ error: "Job not found" });
@@ -342,11 +899,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           type: item.type,
           input: item.input,
           status: item.status,
-          result: item.result ? {
-            filename: item.result.filename,
-            previewUrl: item.result.previewUrl
-          } : undefined,
-          error: item.error
+          outputs: item.outputs.map(({ filename, previewUrl }) => ({ filename, previewUrl })),
+          publication: item.publication,
+          warnings: item.warnings,
+          error: item.error,
+          attempts: item.attempts
         })),
         startedAt: job.startedAt,
         completedAt: job.completedAt
@@ -362,7 +919,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/batch-job/:jobId/download", async (req, res) => {
     try {
       const { jobId } = req.params;
-      const job = queueProcessor.getJob(jobId);
+      const job = await queueProcessor.getJob(jobId);
       
       if (!job) {
         return res.status(404).json({ error: "Job not found" });
@@ -372,11 +929,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No completed items to download" });
       }
 
-      const zipBuffer = await queueProcessor.generateZipForJob(jobId);
+      const zipStream = await queueProcessor.createZipStream(jobId);
 
       res.setHeader('Content-Type', 'application/zip');
       res.setHeader('Content-Disposition', `attachment; filename="batch-${jobId}.zip"`);
-      res.send(zipBuffer);
+      zipStream
+        .on('error', (error) => {
+          // Headers are gone by now - cut the response so the client sees a broken download
+          console.error("Error streaming batch ZIP:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
 
     } catch (error) {
       console.error("Error downloading batch job:", error);
@@ -384,71 +947,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pause, resume or cancel a batch job - in-flight items finish (or abort on cancel) first,
+  // so the returned status can still be "processing" until the job settles
+  app.post("/api/batch-job/:jobId/pause", async (req, res) => {
+    await controlBatchJob(res, "pause", () => queueProcessor.pauseJob(req.params.jobId));
+  });
+
+  app.post("/api/batch-job/:jobId/resume", async (req, res) => {
+    await controlBatchJob(res, "resume", () => queueProcessor.resumeJob(req.params.jobId));
+  });
+
+  app.post("/api/batch-job/:jobId/cancel", async (req, res) => {
+    await controlBatchJob(res, "cancel", () => queueProcessor.cancelJob(req.params.jobId));
+  });
+
+  // Retry every failed item of a batch job, or a single failed/cancelled item
+  app.post("/api/batch-job/:jobId/retry", async (req, res) => {
+    await controlBatchJob(res, "retry", () => queueProcessor.retryItems(req.params.jobId));
+  });
+
+  app.post("/api/batch-job/:jobId/items/:itemId/retry", async (req, res) => {
+    const { jobId, itemId } = req.params;
+    await controlBatchJob(res, "retry", () => queueProcessor.retryItems(jobId, [itemId]));
+  });
+
+  // Serve a single batch result (used for previews)
+  // Items converted in all-images mode have several outputs - :index picks one, the first by default
+  app.get("/api/batch-job/:jobId/items/:itemId/result/:index?", async (req, res) => {
+    try {
+      const { jobId, itemId } = req.params;
+      const job = await queueProcessor.getJob(jobId);
+      const item = job?.items.find(item => item.id === itemId);
+      const output = item?.outputs[Number(req.params.index ?? 0)];
+
+      if (!output) {
+        return res.status(404).json({ error: "Result not found" });
+      }
+
+      res.setHeader('Content-Type', output.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${output.filename}"`);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      resultStore.createReadStream(output.key)
+        .on('error', (error) => {
+          console.error("Error streaming batch result:", error);
+          if (!res.headersSent) {
+            res.status(404).json({ error: "Result not found" });
+          } else {
+            res.end();
+          }
+        })
+        .pipe(res);
+
+    } catch (error) {
+      console.error("Error getting batch result:", error);
+      res.status(500).json({ error: "Failed to get batch result" });
+    }
+  });
+
   // Process PDF
   app.post("/api/process-pdf", async (req, res) => {
     try {
-      const validatedData = pdfProcessingRequestSchema.parse(req.body);
-      const { url, dimensions } = validatedData;
+      const parsed = pdfProcessingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid PDF request", details: parsed.error.flatten() });
+      }
+      const { url } = parsed.data;
+
+      await sendPdfPages(res, parsed.data, { type: 'pdf', input: url }, 'document', options => pdfProcessor.processPdf(url, options));
+
+    } catch (error) {
+      if (handleOutputOptionsError(error, res)) return;
+      console.error("Error processing PDF:", error);
+      res.status(500).json({ error: "Failed to process PDF" });
+    }
+  });
+
+  // Process an uploaded image
+  app.post("/api/upload-image", uploadImage, async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ error: "No image uploaded" });
+      }
+
+      const parsed = uploadProcessingRequestSchema.safeParse(getUploadOptions(req));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid upload options", details: parsed.error.flatten() });
+      }
+      const { dpi } = parsed.data;
+      const output = await presetService.resolve(parsed.data, dpi);
 
       // Create processing job
       const job = await storage.createProcessingJob({
-        type: 'pdf',
-        input: url,
-        dimensions,
-        dpi: 150 // Default for PDF
+        type: 'upload',
+        input: file.originalname,
+        dimensions: output.dimensions,
+        dpi,
+        format: output.format,
+        preset: output.preset
       });
 
       await storage.updateProcessingJob(job.id, { status: 'processing' });
 
-      // Process PDF
-      let processOptions;
-      if (dimensions === 'original') {
-        processOptions = {
-          filename: 'document'
-        };
-      } else {
-        const { width, height } = imageProcessor.parseDimensions(dimensions);
-        processOptions = {
-          width,
-          height,
-          filename: 'document'
-        };
+      const filename = imageProcessor.getUploadBasename(file.originalname);
+      const processedImage = await imageProcessor.processBuffer(
+        file.buffer,
+        imageProcessor.toProcessingOptions(output, dpi, filename)
+      );
+
+      await storage.updateProcessingJob(job.id, { status: 'completed' });
+
+      // Return processed image
+      res.setHeader('Content-Type', imageProcessor.getContentType(output.format));
+      res.setHeader('Content-Disposition', `attachment; filename="${imageProcessor.getOutputFilename(filename, output.format)}"`);
+      setWarningsHeader(res, processedImage.warnings);
+      res.send(processedImage.buffer);
+
+    } catch (error) {
+      if (handleOutputOptionsError(error, res)) return;
+      console.error("Error processing upload:", error);
+      res.status(500).json({ error: "Failed to process image" });
+    }
+  });
+
+  // Start a batch job from uploaded images, optionally mixed with SKUs and URLs
+  app.post("/api/upload-batch-job", uploadImages, async (req, res) => {
+    try {
+      const parsed = uploadBatchRequestSchema.safeParse(getUploadOptions(req));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid upload options", details: parsed.error.flatten() });
       }
-      
-      const processedPages = await pdfProcessor.processPdf(url, processOptions);
+      const { skus, urls, dpi, imageSelector, publish } = parsed.data;
+      const store = shopifyStores.get(parsed.data.storeId);
+      if (publish && !store.configured) {
+        return res.status(503).json({ error: "Shopify API not configured" });
+      }
+      const output = await presetService.resolve(parsed.data, dpi);
+      const files = getUploadedFiles(req);
 
-      // Create ZIP file
-      console.log(`📦 Creating ZIP with ${processedPages.length} pages...`);
-      const zip = new JSZip();
-      processedPages.forEach(({ filename, buffer }) => {
-        console.log(`📄 Adding to ZIP: ${filename} (${buffer.length} bytes)`);
-        zip.file(filename, buffer);
-      });
+      console.log(`🚀 Starting upload batch job: ${files.length} files + ${skus.length} SKUs + ${urls.length} URLs`);
 
-      console.log(`🗜️ Generating ZIP buffer...`);
-      const zipBuffer = await zip.generateAsync({ 
-        type: 'nodebuffer',
-        compression: 'DEFLATE',
-        compressionOptions: {
-          level: 6
-        }
-      });
+      const items: Array<{ type: ProcessingItemType; input: string; upload?: Buffer }> = [];
 
-      console.log(`✅ ZIP created: ${zipBuffer.length} bytes`);
+      files.forEach(file => items.push({ type: 'upload', input: file.originalname, upload: file.buffer }));
+      skus.forEach(sku => items.push({ type: 'sku', input: sku }));
+      urls.forEach(url => items.push({ type: 'url', input: url }));
 
-      await storage.updateProcessingJob(job.id, { status: 'completed' });
+      if (items.length === 0) {
+        return res.status(400).json({ error: "No valid items to process" });
+      }
 
-      // Send ZIP file
-      res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', 'attachment; filename="pdf-pages.zip"');
-      res.send(zipBuffer);
+      if (items.length > batchLimits.maxItems) {
+        return res.status(400).json({ error: `Maximum ${batchLimits.maxItems} items allowed per batch` });
+      }
+
+      const jobId = await queueProcessor.addBatchJob(items, { ...output, dpi, imageSelector, publish, storeId: store.id });
+
+      console.log(`✅ Created upload batch job: ${jobId}`);
+      res.json({ jobId, message: "Batch job started" });
 
     } catch (error) {
-      console.error("Error processing PDF:", error);
+      if (handleOutputOptionsError(error, res) || handleStoreError(error, res)) return;
+      console.error("Error starting upload batch job:", error);
+      res.status(500).json({ error: "Failed to start batch job" });
+    }
+  });
+
+  // Process an uploaded PDF
+  app.post("/api/upload-pdf", uploadPdf, async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ error: "No PDF uploaded" });
+      }
+
+      const parsed = pdfUploadRequestSchema.safeParse(getUploadOptions(req));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid upload options", details: parsed.error.flatten() });
+      }
+
+      await sendPdfPages(
+        res,
+        parsed.data,
+        { type: 'pdf-upload', input: file.originalname },
+        imageProcessor.getUploadBasename(file.originalname),
+        options => pdfProcessor.processPdfBuffer(file.buffer, options)
+      );
+
+    } catch (error) {
+      if (handleOutputOptionsError(error, res)) return;
+      console.error("Error processing uploaded PDF:", error);
       res.status(500).json({ error: "Failed to process PDF" });
     }
   });
 
+  // List processing job history, newest first
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const parsed = processingJobFilterSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid job filter", details: parsed.error.flatten() });
+      }
+
+      const { jobs, total } = await storage.listProcessingJobs(parsed.data);
+      res.json({ jobs, total, limit: parsed.data.limit, offset: parsed.data.offset });
+    } catch (error) {
+      console.error("Error listing jobs:", error);
+      res.status(500).json({ error: "Failed to list jobs" });
+    }
+  });
+
   // Get processing job status
   app.get("/api/job/:id", async (req, res) => {
     try {
@@ -472,7 +1180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const clients = new Map<string, Set<any>>(); // jobId -> Set of SSE connections
   
   // SSE endpoint for job progress
-  app.get('/api/events/:jobId', (req, res) => {
+  app.get('/api/events/:jobId', async (req, res) => {
     const { jobId } = req.params;
     
     // Set SSE headers
@@ -495,8 +1203,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Send initial heartbeat
     res.write('data: {"type":"connected"}\n\n');
     
+    // Clean up on client disconnect
+    req.on('close', () => {
+      const jobClients = clients.get(jobId);
+      if (jobClients) {
+        jobClients.delete(res);
+        if (jobClients.size === 0) {
+          clients.delete(jobId);
+        }
+      }
+    });
+    
     // Send current job status if available
-    const job = queueProcessor.getJob(jobId);
+    const job = await queueProcessor.getJob(jobId).catch(() => undefined);
     if (job) {
       console.log(`📤 Sending initial job status to new client`);
       const data = JSON.stringify({
@@ -509,18 +1228,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.write(`data: ${data}\n\n`);
     }
-    
-    // Clean up on client disconnect
-    req.on('close', () => {
-      const jobClients = clients.get(jobId);
-      if (jobClients) {
-        jobClients.delete(res);
-        if (jobClients.size === 0) {
-          clients.delete(jobId);
-        }
-      }
-      console.log(`🔌 SSE client disconnected from job: ${jobId}`);
-    });
   });
   
   // Listen to queue processor events and broadcast to SSE clients
@@ -551,7 +1258,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  queueProcessor.on('itemProgress', ({ jobId, item }) => {
+  // Status changes (processing, paused, cancelled, ...) get their own event so the UI can update its controls
+  queueProcessor.on('jobStatus', (job) => {
+    const jobClients = clients.get(job.id);
+    if (jobClients && jobClients.size > 0) {
+      const data = JSON.stringify({
+        type: 'jobStatus',
+        job: {
+          id: job.id,
+          status: job.status,
+          progress: job.progress
+        }
+      });
+
+      jobClients.forEach(client => {
+        try {
+          client.write(`data: ${data}\n\n`);
+        } catch (error) {
+          console.error('❌ Error sending SSE status update:', error);
+          jobClients.delete(client);
+        }
+      });
+    }
+  });
+
+  queueProcessor.on('itemProgress', ({ jobId, item }: { jobId: string; item: ProcessingItem }) => {
     console.log(`📡 Broadcasting item progress for ${jobId}: ${item.input} -> ${item.status}`);
     const jobClients = clients.get(jobId);
     if (jobClients && jobClients.size > 0) {
@@ -563,11 +1294,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           type: item.type,
           input: item.input,
           status: item.status,
-          result: item.result ? {
-            filename: item.result.filename,
-            previewUrl: item.result.previewUrl
-          } : undefined,
-          error: item.error
+          outputs: item.outputs.map(({ filename, previewUrl }) => ({ filename, previewUrl })),
+          publication: item.publication,
+          warnings: item.warnings,
+          error: item.error,
+          attempts: item.attempts
         }
       });
       
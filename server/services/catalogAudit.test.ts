@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { catalogAuditRequestSchema, catalogAuditIssuesQuerySchema } from "@shared/schema";
+import { FakeShopify, fakeCatalog } from "../testing/fakeShopify";
+import { storage } from "../storage";
+import { catalogAuditService, CatalogAuditNotFoundError, CatalogAuditRunningError } from "./catalogAudit";
+import type { ShopifyService } from "./shopify";
+
+const options = catalogAuditRequestSchema.parse({ storeId: "test" });
+const issueQuery = (query: Record<string, unknown> = {}) => catalogAuditIssuesQuerySchema.parse(query);
+
+async function finished(id: string) {
+  await vi.waitFor(async () => {
+    expect((await catalogAuditService.get(id)).status).not.toBe("running");
+  }, { timeout: 5000 });
+  return await catalogAuditService.get(id);
+}
+
+describe("catalogAuditService", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+
+  beforeAll(async () => {
+    // 25 products over two pages: product 3 has no images, product 5 a small image without
+    // alt text, product 8 thirty variants (a follow-up page) of which 28 have no image of their own
+    const products = fakeCatalog(25);
+    products[2].images = [];
+    products[2].variants.forEach(variant => { variant.imageId = null; });
+    Object.assign(products[4].images[0], { width: 500, height: 500, altText: null });
+    products[7] = fakeCatalog(1, { variants: 30, images: 2, start: 8 })[0];
+    products[7].variants.slice(2).forEach(variant => { variant.imageId = null; });
+    shopify = await new FakeShopify(products).start();
+    store = shopify.createStore();
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  it("walks the whole catalog and stores what it found", async () => {
+    const started = await catalogAuditService.start(store, options);
+    expect(started.status).toBe("running");
+    await expect(catalogAuditService.start(store, options)).rejects.toThrow(CatalogAuditRunningError);
+
+    const audit = await finished(started.id);
+    expect(audit).toMatchObject({
+      status: "completed",
+      scanned: { products: 25, variants: 24 * 2 + 30, images: 23 * 2 + 2 },
+      issueCounts: { no_images: 1, low_resolution: 1, off_ratio: 0, missing_alt: 1, variant_without_image: 28 },
+    });
+    expect(shopify.operations()).toContain("auditProductVariants");
+    expect((await storage.getCatalogAudit(started.id))?.completedAt).toBeInstanceOf(Date);
+
+    const { total, issues } = await catalogAuditService.getIssues(started.id, issueQuery({ limit: 2 }));
+    expect(total).toBe(31);
+    expect(issues.map(issue => [issue.type, issue.productId])).toEqual([["no_images", 3], ["low_resolution", 5]]);
+
+    const variantIssues = await catalogAuditService.getIssues(started.id, issueQuery({ type: "variant_without_image", q: "sku-8-3", offset: 1 }));
+    expect(variantIssues.total).toBe(2); // SKU-8-3 and SKU-8-30
+    expect(variantIssues.issues.map(issue => issue.sku)).toEqual(["SKU-8-30"]);
+
+    const csv = await catalogAuditService.toCsv(started.id, issueQuery({ type: "missing_alt", limit: 1 }));
+    expect(csv.split("\r\n")).toEqual([
+      "type,productId,productTitle,handle,sku,variantTitle,imageId,imageUrl,width,height,detail",
+      "missing_alt,5,Product 5,product-5,,,5000,https://cdn.shopify.com/s/files/1/0001/files/product-5-1.jpg?v=1700000000,500,500,Image has no alt text",
+      "",
+    ]);
+  });
+
+  it("fails audits a restart interrupted", async () => {
+    const interrupted = await storage.createCatalogAudit({
+      id: "audit_interrupted",
+      storeId: "test",
+      options,
+      scanned: { products: 20, images: 40, variants: 40 },
+      issueCounts: { no_images: 0, low_resolution: 0, off_ratio: 0, missing_alt: 0, variant_without_image: 0 },
+    });
+
+    await catalogAuditService.failInterruptedAudits();
+
+    expect(await catalogAuditService.get(interrupted.id)).toMatchObject({ status: "failed", error: "Interrupted by a server restart" });
+    await expect(catalogAuditService.get("missing")).rejects.toThrow(CatalogAuditNotFoundError);
+  });
+
+  it("keeps the ten latest finished audits", async () => {
+    const issueCounts = { no_images: 1, low_resolution: 0, off_ratio: 0, missing_alt: 0, variant_without_image: 0 };
+    for (let day = 1; day <= 9; day++) {
+      await storage.createCatalogAudit({
+        id: `audit_${day}`,
+        storeId: "test",
+        status: "completed",
+        options,
+        scanned: { products: 1, images: 0, variants: 1 },
+        issueCounts,
+        startedAt: new Date(`2026-01-0${day}T00:00:00Z`),
+      });
+    }
+    await storage.addCatalogAuditIssues("audit_1", [{
+      type: "no_images", productId: 1, productTitle: "Product 1", handle: "product-1",
+      sku: null, variantTitle: null, imageId: null, imageUrl: null, width: null, height: null, detail: "Product has no images",
+    }]);
+
+    const latest = await finished((await catalogAuditService.start(store, options)).id);
+
+    const audits = await catalogAuditService.list();
+    expect(audits).toHaveLength(10);
+    expect(audits[0].id).toBe(latest.id);
+    expect(audits.map(audit => audit.id)).not.toContain("audit_1");
+    expect(audits.map(audit => audit.id)).not.toContain("audit_2");
+    expect(audits.map(audit => audit.id)).toContain("audit_interrupted");
+    expect((await storage.findCatalogAuditIssues("audit_1", {})).total).toBe(0);
+  });
+});
@@ -0,0 +1,259 @@
+import { randomUUID } from "crypto";
+import {
+  catalogAuditIssueTypes,
+  type CatalogAudit,
+  type CatalogAuditIssue,
+  type CatalogAuditIssuesQuery,
+  type CatalogAuditOptions,
+  type CatalogAuditIssueType,
+  type CatalogAuditRecord
+} from "@shared/schema";
+import { storage } from "../storage";
+import type { ShopifyService } from "./shopify";
+import { CatalogWalker, parseGid, type CatalogProductNode, type WalkedProduct } from "./catalogWalker";
+
+// Finished audits kept for the audit page and CSV downloads
+const MAX_AUDITS = 10;
+
+interface VariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  image: { id: string } | null;
+}
+
+interface ImageNode {
+  id: string;
+  url: string;
+  altText: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+const auditWalker = new CatalogWalker<CatalogProductNode, VariantNode, ImageNode>({
+  name: 'audit',
+  sortKey: 'ID',
+  variantFields: 'id title sku image { id }',
+  imageFields: 'id url altText width height',
+});
+
+export class CatalogAuditNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Catalog audit not found: ${id}`);
+    this.name = 'CatalogAuditNotFoundError';
+  }
+}
+
+// A store is audited by one run at a time
+export class CatalogAuditRunningError extends Error {
+  constructor(storeId: string) {
+    super(`A catalog audit of ${storeId} is already running`);
+    this.name = 'CatalogAuditRunningError';
+  }
+}
+
+function toCsvValue(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: Array<keyof CatalogAuditIssue> = [
+  'type', 'productId', 'productTitle', 'handle', 'sku', 'variantTitle', 'imageId', 'imageUrl', 'width', 'height', 'detail'
+];
+
+// Walks every product of a store and reports products without images, images that are too
+// small, off the expected aspect ratio or without alt text, and variants of multi-variant
+// products without their own image. Audits run in the background; progress and issues are
+// saved page by page.
+class CatalogAuditService {
+  private running = new Map<string, string>(); // store id -> id of the audit running in this process
+
+  async start(store: ShopifyService, options: CatalogAuditOptions): Promise<CatalogAudit> {
+    if (this.running.has(store.id)) {
+      throw new CatalogAuditRunningError(store.id);
+    }
+
+    const id = randomUUID();
+    this.running.set(store.id, id);
+    let record: CatalogAuditRecord;
+    try {
+      record = await storage.createCatalogAudit({
+        id,
+        storeId: store.id,
+        status: 'running',
+        options,
+        scanned: { products: 0, images: 0, variants: 0 },
+        issueCounts: Object.fromEntries(catalogAuditIssueTypes.map(type => [type, 0])) as Record<CatalogAuditIssueType, number>,
+      });
+      await this.prune();
+    } catch (error) {
+      this.running.delete(store.id);
+      throw error;
+    }
+
+    this.run(store, record).finally(() => this.running.delete(store.id));
+    return this.toCatalogAudit(record);
+  }
+
+  // Audits that were running when the server stopped can't be picked up again
+  async failInterruptedAudits(): Promise<void> {
+    const runningHere = new Set(this.running.values());
+    for (const audit of await storage.listCatalogAudits()) {
+      if (audit.status === 'running' && !runningHere.has(audit.id)) {
+        await storage.updateCatalogAudit(audit.id, { status: 'failed', error: 'Interrupted by a server restart', completedAt: new Date() });
+        console.log(`⚠️ Catalog audit ${audit.id} of ${audit.storeId} was interrupted by a restart`);
+      }
+    }
+  }
+
+  // Latest first
+  async list(): Promise<CatalogAudit[]> {
+    return (await storage.listCatalogAudits()).map(record => this.toCatalogAudit(record));
+  }
+
+  async get(id: string): Promise<CatalogAudit> {
+    return this.toCatalogAudit(await this.getRecord(id));
+  }
+
+  async getIssues(id: string, query: CatalogAuditIssuesQuery): Promise<{ total: number; issues: CatalogAuditIssue[] }> {
+    await this.getRecord(id);
+    return await storage.findCatalogAuditIssues(id, query);
+  }
+
+  // Every issue matching the filters - offset and limit only page the JSON listing
+  async toCsv(id: string, { type, q }: CatalogAuditIssuesQuery): Promise<string> {
+    await this.getRecord(id);
+    const { issues } = await storage.findCatalogAuditIssues(id, { type, q });
+    const rows = issues.map(issue => CSV_COLUMNS.map(column => toCsvValue(issue[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  private async getRecord(id: string): Promise<CatalogAuditRecord> {
+    const record = await storage.getCatalogAudit(id);
+    if (!record) {
+      throw new CatalogAuditNotFoundError(id);
+    }
+    return record;
+  }
+
+  private toCatalogAudit(record: CatalogAuditRecord): CatalogAudit {
+    return {
+      id: record.id,
+      storeId: record.storeId,
+      status: record.status as CatalogAudit['status'],
+      options: record.options,
+      scanned: record.scanned,
+      issueCounts: record.issueCounts,
+      error: record.error,
+      startedAt: record.startedAt.toISOString(),
+      completedAt: record.completedAt?.toISOString() ?? null
+    };
+  }
+
+  private async run(store: ShopifyService, { id, options }: CatalogAuditRecord) {
+    console.log(`🔎 Starting catalog audit of ${store.id}`);
+    const scanned = { products: 0, images: 0, variants: 0 };
+    const issueCounts = Object.fromEntries(catalogAuditIssueTypes.map(type => [type, 0])) as Record<CatalogAuditIssueType, number>;
+    try {
+      await auditWalker.walk(store, async (products) => {
+        const issues = products.flatMap(product => this.auditProduct(product, options));
+        for (const issue of issues) {
+          issueCounts[issue.type]++;
+        }
+        for (const { variants, images } of products) {
+          scanned.products++;
+          scanned.variants += variants.length;
+          scanned.images += images.length;
+        }
+        await storage.addCatalogAuditIssues(id, issues);
+        await storage.updateCatalogAudit(id, { scanned: { ...scanned }, issueCounts: { ...issueCounts } });
+      });
+
+      await storage.updateCatalogAudit(id, { status: 'completed', completedAt: new Date() });
+      const total = Object.values(issueCounts).reduce((sum, count) => sum + count, 0);
+      console.log(`✅ Catalog audit of ${store.id} finished: ${total} issues in ${scanned.products} products`);
+    } catch (error) {
+      console.error(`❌ Catalog audit of ${store.id} failed:`, error);
+      await storage.updateCatalogAudit(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
+      }).catch(() => {});
+    }
+  }
+
+  private auditProduct({ node: product, variants, images }: WalkedProduct<CatalogProductNode, VariantNode, ImageNode>, options: CatalogAuditOptions): CatalogAuditIssue[] {
+    const base = {
+      productId: parseGid(product.id),
+      productTitle: product.title,
+      handle: product.handle,
+      sku: null,
+      variantTitle: null,
+      imageId: null,
+      imageUrl: null,
+      width: null,
+      height: null
+    };
+
+    if (images.length === 0) {
+      return [{ ...base, type: 'no_images', detail: 'Product has no images' }];
+    }
+
+    const issues: CatalogAuditIssue[] = [];
+    for (const image of images) {
+      const imageFields = { imageId: parseGid(image.id), imageUrl: image.url, width: image.width, height: image.height };
+
+      if (image.width && image.height) {
+        const shortest = Math.min(image.width, image.height);
+        if (shortest < options.minResolution) {
+          issues.push({
+            ...base,
+            ...imageFields,
+            type: 'low_resolution',
+            detail: `${image.width}x${image.height} is below ${options.minResolution}px on its shortest side`
+          });
+        }
+
+        const ratio = image.width / image.height;
+        if (Math.abs(ratio / options.aspectRatio - 1) > options.ratioTolerance) {
+          issues.push({
+            ...base,
+            ...imageFields,
+            type: 'off_ratio',
+            detail: `${image.width}x${image.height} has an aspect ratio of ${ratio.toFixed(2)}, expected ${options.aspectRatio.toFixed(2)}`
+          });
+        }
+      }
+
+      if (!image.altText?.trim()) {
+        issues.push({ ...base, ...imageFields, type: 'missing_alt', detail: 'Image has no alt text' });
+      }
+    }
+
+    // A single variant simply shows the product's images
+    if (variants.length > 1) {
+      for (const variant of variants.filter(variant => !variant.image)) {
+        issues.push({
+          ...base,
+          sku: variant.sku || null,
+          variantTitle: variant.title,
+          type: 'variant_without_image',
+          detail: 'Variant has no image of its own'
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  // Drops the oldest finished audits beyond MAX_AUDITS
+  private async prune() {
+    const audits = await storage.listCatalogAudits();
+    const finished = audits.filter(audit => audit.status !== 'running');
+    for (const audit of finished.slice(Math.max(0, MAX_AUDITS - (audits.length - finished.length)))) {
+      await storage.deleteCatalogAudit(audit.id);
+    }
+  }
+}
+
+export const catalogAuditService = new CatalogAuditService();
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { imageFilenameKey, imageUrlKey } from "@shared/schema";
+import { FakeShopify, fakeCatalog } from "../testing/fakeShopify";
+import type { ShopifyService } from "./shopify";
+
+describe("CatalogIndex", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+
+  beforeAll(async () => {
+    // 45 products over three pages; product 7 has more variants and images than the first page holds
+    const products = fakeCatalog(45);
+    products[6] = fakeCatalog(1, { variants: 30, images: 12, start: 7 })[0];
+    shopify = await new FakeShopify(products).start();
+    store = shopify.createStore();
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  it("indexes every product, variant and image on a full sync", async () => {
+    const result = await store.catalog.sync();
+
+    expect(result).toMatchObject({ full: true, products: 45, removed: 0 });
+    expect(shopify.operations().filter(operation => operation === "catalogProducts")).toHaveLength(3);
+    expect(shopify.operations()).toContain("catalogProductVariants");
+    expect(shopify.operations()).toContain("catalogProductImages");
+
+    const status = await store.catalog.getStatus();
+    expect(status).toMatchObject({ products: 45, variants: 44 * 2 + 30, images: 44 * 2 + 12 });
+    expect(status.state?.lastUpdatedAt).toEqual(new Date(shopify.products[44].updatedAt));
+  });
+
+  it("looks SKUs up from the index without calling Shopify", async () => {
+    const requests = shopify.requests.length;
+
+    const product = await store.getProductBySku("sku-7-30");
+    expect(product).toMatchObject({ id: 7, title: "Product 7" });
+    expect(product!.variants).toHaveLength(30);
+    expect(product!.images).toHaveLength(12);
+    expect(await store.catalog.lookup("SKU-99-1")).toBeNull();
+    expect(shopify.requests.length).toBe(requests);
+  });
+
+  it("finds the SKU behind an image URL", async () => {
+    const result = await store.catalog.lookupImage({
+      url: "https://cdn.shopify.com/s/files/1/0001/files/product-12-2_800x800.jpg?v=1800000000",
+    });
+    expect(result).toMatchObject({ matchedBy: "url", sku: "SKU-12-2", confidence: 1 });
+  });
+
+  it("only fetches products updated since the last sync on an incremental sync", async () => {
+    const changed = shopify.products[3];
+    changed.updatedAt = new Date(Date.UTC(2026, 1, 1)).toISOString();
+    changed.variants[0].sku = "SKU-4-RENAMED";
+    shopify.requests = [];
+
+    const result = await store.catalog.sync();
+
+    expect(result.full).toBe(false);
+    // The product at the previous watermark is read again along with the changed one
+    expect(result.products).toBe(2);
+    expect(shopify.requests[0].variables?.query).toBe(`updated_at:>='${shopify.products[44].updatedAt}'`);
+    expect((await store.catalog.lookup("sku-4-renamed"))?.id).toBe(4);
+    expect(await store.catalog.lookup("SKU-4-1")).toBeNull();
+    expect((await store.catalog.getStatus()).state?.lastUpdatedAt).toEqual(new Date(changed.updatedAt));
+  });
+
+  it("drops products deleted in Shopify on a full sync", async () => {
+    shopify.products = shopify.products.filter(product => product.id !== 20);
+
+    const result = await store.catalog.sync({ full: true });
+
+    expect(result).toMatchObject({ full: true, products: 44, removed: 1 });
+    expect(await store.catalog.lookup("SKU-20-1")).toBeNull();
+    expect((await store.catalog.getStatus()).products).toBe(44);
+  });
+
+  it("records a failed sync and keeps the index", async () => {
+    shopify.onGraphql("catalogProducts", () => { throw new Error("boom"); });
+
+    await expect(store.catalog.sync({ full: true })).rejects.toThrow(/500/);
+
+    const status = await store.catalog.getStatus();
+    expect(status.state?.lastError).toMatch(/500/);
+    expect(status.products).toBe(44);
+  });
+});
+
+describe("image keys", () => {
+  it("reduces every size and cache buster of a Shopify file to one key", () => {
+    for (const url of [
+      "https://cdn.shopify.com/s/files/1/0001/files/Red%20Mug.png?v=1700000000",
+      "https://cdn.shopify.com/s/files/1/0001/files/red-mug_800x.png",
+      "https://CDN.shopify.com/s/files/1/0001/files/red-mug_1024x1024@2x.png#zoom",
+      "https://cdn.shopify.com/s/files/1/0001/files/red-mug_grande_crop_center.jpg",
+    ]) {
+      expect(imageFilenameKey(url)).toBe(url.includes("Red%20Mug") ? "red mug" : "red-mug");
+    }
+    expect(imageUrlKey("https://CDN.shopify.com/s/files/1/0001/files/red-mug_800x.png?v=2")).toBe("cdn.shopify.com/s/files/1/0001/files/red-mug");
+    expect(imageUrlKey("red-mug_small.png")).toBe("red-mug");
+  });
+});
+
+describe("CatalogIndex image lookup", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+
+  beforeAll(async () => {
+    // Product 1: each variant has its own image. Product 2: three variants share one image.
+    // Products 3 and 4: different files with the same name.
+    const products = [
+      ...fakeCatalog(1),
+      ...fakeCatalog(1, { variants: 3, images: 1, start: 2 }),
+      ...fakeCatalog(2, { variants: 1, images: 1, start: 3 }),
+    ];
+    products[1].variants.forEach(variant => { variant.imageId = null; });
+    products[2].images[0].url = "https://cdn.shopify.com/s/files/1/0001/files/shared-photo.jpg?v=1";
+    products[3].images[0].url = "https://cdn.shopify.com/s/files/1/0002/files/Shared-Photo.png?v=1";
+    shopify = await new FakeShopify(products).start();
+    store = shopify.createStore("lookup");
+    await store.catalog.sync();
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  const lookup = async (query: Parameters<typeof store.catalog.lookupImage>[0]) => {
+    const { matchedBy, confidence, sku } = await store.catalog.lookupImage(query);
+    return { matchedBy, confidence, sku };
+  };
+
+  it("pins an image down by ID or URL", async () => {
+    const byId = await store.catalog.lookupImage({ imageId: 1001 });
+    expect(byId).toMatchObject({ matchedBy: "imageId", confidence: 1, sku: "SKU-1-2" });
+    expect(byId.candidates.map(candidate => [candidate.sku, candidate.variantImage])).toEqual([["SKU-1-2", true], ["SKU-1-1", false]]);
+
+    expect(await lookup({ url: "https://cdn.shopify.com/s/files/1/0001/files/product-1-1_800x.jpg?v=2" }))
+      .toEqual({ matchedBy: "url", confidence: 1, sku: "SKU-1-1" });
+  });
+
+  it("falls back to the file name for a URL that isn't indexed", async () => {
+    expect(await lookup({ url: "https://example.com/uploads/product-1-2.jpg" })).toEqual({ matchedBy: "filename", confidence: 0.8, sku: "SKU-1-2" });
+    expect(await lookup({ filename: "Product-1-2.JPG" })).toEqual({ matchedBy: "filename", confidence: 0.8, sku: "SKU-1-2" });
+    expect(await lookup({ filename: "product-9-1.jpg" })).toEqual({ matchedBy: null, confidence: 0, sku: null });
+  });
+
+  it("lowers the confidence when the variant or the product is ambiguous", async () => {
+    // Three variants share product 2's image
+    expect(await lookup({ url: "https://cdn.shopify.com/s/files/1/0001/files/product-2-1.jpg" })).toEqual({ matchedBy: "url", confidence: 0.75, sku: "SKU-2-1" });
+    expect(await lookup({ filename: "product-2-1.jpg" })).toEqual({ matchedBy: "filename", confidence: 0.6, sku: "SKU-2-1" });
+    // Two products have a file of that name
+    expect(await lookup({ filename: "shared-photo.webp" })).toMatchObject({ matchedBy: "filename", confidence: 0.4 });
+  });
+
+  it("only names outputs after a confident match", async () => {
+    expect(await store.catalog.getSkuByImageUrl("https://example.com/product-1-2_large.jpg")).toBe("SKU-1-2");
+    expect(await store.catalog.getSkuByImageUrl("https://example.com/shared-photo.jpg")).toBeNull();
+  });
+});
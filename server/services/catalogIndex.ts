@@ -0,0 +1,306 @@
+import { imageFilenameKey, imageUrlKey, normalizeSku, shopifyProductSchema, type CatalogImage, type CatalogImageRecord, type CatalogSyncState, type InsertCatalogProduct, type ProductWebhook, type ShopifyProduct, type SkuSuggestion } from "@shared/schema";
+import { storage } from "../storage";
+import { readIntEnv } from "../config";
+import type { ShopifyService } from "./shopify";
+import { SkuSearchIndex } from "./skuSearch";
+import { CatalogWalker, parseGid, type CatalogProductNode, type WalkedProduct } from "./catalogWalker";
+
+// A full sync also drops products deleted in Shopify, which incremental syncs can't see
+const FULL_SYNC_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface VariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  position: number;
+  image: { id: string } | null;
+}
+
+interface ImageNode {
+  id: string;
+  url: string;
+  altText: string | null;
+}
+
+interface ProductNode extends CatalogProductNode {
+  updatedAt: string;
+}
+
+const catalogWalker = new CatalogWalker<ProductNode, VariantNode, ImageNode>({
+  name: 'catalog',
+  sortKey: 'UPDATED_AT',
+  productFields: 'updatedAt',
+  variantFields: 'id title sku position image { id }',
+  imageFields: 'id url altText',
+});
+
+export interface ImageLookupQuery {
+  url?: string;
+  filename?: string;
+  imageId?: number;
+}
+
+export interface ImageLookupCandidate {
+  sku: string;
+  productId: number;
+  productTitle: string;
+  variantId: number;
+  imageId: number;
+  variantImage: boolean; // the image is this variant's own image
+}
+
+export interface ImageLookupResult {
+  matchedBy: 'imageId' | 'url' | 'filename' | null;
+  confidence: number; // 0-1, for `sku`
+  sku: string | null; // the most likely candidate
+  candidates: ImageLookupCandidate[];
+}
+
+// An ID or exact URL pins the image down; a file name can be shared by unrelated uploads
+const MATCH_CONFIDENCE = { imageId: 1, url: 1, filename: 0.8 };
+// Several variants share the image and none of them has it as its own
+const UNRESOLVED_VARIANT_FACTOR = 0.75;
+// Below this a reverse lookup is not trusted to name an output file
+const MIN_FILENAME_CONFIDENCE = 0.5;
+
+export interface CatalogSyncResult {
+  full: boolean;
+  products: number;
+  removed: number;
+  durationMs: number;
+}
+
+// Local SKU -> product/variant/image index, synced from the Shopify catalog with cursor-paginated
+// GraphQL queries. Incremental syncs only fetch products updated since the last one.
+// Each store has its own index (ShopifyService.catalog); its sync state row is keyed by store id.
+export class CatalogIndex {
+  private syncing?: Promise<CatalogSyncResult>;
+  private searchIndex?: Promise<SkuSearchIndex>; // loaded on the first search after each sync
+
+  constructor(private store: ShopifyService) {}
+
+  // Concurrent callers share the sync that's already running
+  sync({ full = false }: { full?: boolean } = {}): Promise<CatalogSyncResult> {
+    this.syncing ??= this.runSync(full).finally(() => {
+      this.syncing = undefined;
+      this.searchIndex = undefined;
+    });
+    return this.syncing;
+  }
+
+  // Ranked SKU suggestions for typeahead and for SKUs that weren't found
+  async search(query: string, limit = 8): Promise<SkuSuggestion[]> {
+    this.searchIndex ??= storage.listCatalogProducts(this.store.id).then(products => new SkuSearchIndex(products));
+    try {
+      return (await this.searchIndex).search(query, limit);
+    } catch (error) {
+      this.searchIndex = undefined;
+      throw error;
+    }
+  }
+
+  // Returns null when the SKU isn't indexed (yet) - callers fall back to the live API
+  async lookup(sku: string): Promise<ShopifyProduct | null> {
+    try {
+      const product = await storage.findCatalogProductBySku(this.store.id, sku);
+      if (!product) return null;
+
+      return shopifyProductSchema.parse({
+        id: product.id,
+        title: product.title,
+        handle: product.handle,
+        variants: product.variants.map(variant => ({ id: variant.id, sku: variant.sku, title: variant.title, image_id: variant.imageId })),
+        images: product.images,
+      });
+    } catch (error) {
+      console.error('❌ Catalog index lookup failed:', error);
+      return null;
+    }
+  }
+
+  // Finds the product(s) and SKUs behind an image by Shopify image ID, URL or file name.
+  // A URL that isn't indexed as such is retried by its file name.
+  async lookupImage(query: ImageLookupQuery): Promise<ImageLookupResult> {
+    let matchedBy: ImageLookupResult['matchedBy'] = null;
+    let images: CatalogImageRecord[] = [];
+
+    if (query.imageId) {
+      images = await storage.findCatalogImages(this.store.id, 'id', query.imageId);
+      if (images.length) matchedBy = 'imageId';
+    }
+    if (!matchedBy && query.url) {
+      images = await storage.findCatalogImages(this.store.id, 'urlKey', imageUrlKey(query.url));
+      if (images.length) matchedBy = 'url';
+    }
+    const filename = query.filename ?? query.url;
+    if (!matchedBy && filename) {
+      images = await storage.findCatalogImages(this.store.id, 'filenameKey', imageFilenameKey(filename));
+      if (images.length) matchedBy = 'filename';
+    }
+    if (!matchedBy) {
+      return { matchedBy, confidence: 0, sku: null, candidates: [] };
+    }
+
+    const products = await storage.getCatalogProducts(Array.from(new Set(images.map(image => image.productId))));
+    const candidates = products.flatMap(product => {
+      const imageId = images.find(image => image.productId === product.id)!.id;
+      return product.variants
+        .filter(variant => variant.sku.trim())
+        .map(variant => ({
+          sku: variant.sku,
+          productId: product.id,
+          productTitle: product.title,
+          variantId: variant.id,
+          imageId,
+          variantImage: variant.imageId === imageId
+        }));
+    });
+    // Variants that use the image as their own come first
+    candidates.sort((a, b) => Number(b.variantImage) - Number(a.variantImage));
+
+    const best = candidates[0];
+    if (!best) {
+      return { matchedBy, confidence: 0, sku: null, candidates };
+    }
+    const productCandidates = candidates.filter(candidate => candidate.productId === best.productId);
+    const variantResolved = productCandidates.length === 1 ||
+      productCandidates.filter(candidate => candidate.variantImage).length === 1;
+    const confidence = MATCH_CONFIDENCE[matchedBy] / products.length * (variantResolved ? 1 : UNRESOLVED_VARIANT_FACTOR);
+
+    return { matchedBy, confidence: Math.round(confidence * 100) / 100, sku: best.sku, candidates };
+  }
+
+  // The SKU to name a converted image after, when the lookup is confident enough
+  async getSkuByImageUrl(url: string): Promise<string | null> {
+    try {
+      const result = await this.lookupImage({ url });
+      if (result.sku && result.confidence >= MIN_FILENAME_CONFIDENCE) {
+        console.log(`🎯 Image matched SKU ${result.sku} by ${result.matchedBy} (confidence ${result.confidence})`);
+        return result.sku;
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Image lookup failed:', error);
+      return null;
+    }
+  }
+
+  // Indexes a product from a products/create or products/update webhook right away, so
+  // lookups see its new images before the next sync. Returns the images it had before.
+  async indexWebhookProduct(product: ProductWebhook): Promise<CatalogImage[] | null> {
+    const [previous] = await storage.getCatalogProducts([product.id]);
+    const images = [...product.images].sort((a, b) => a.position - b.position);
+
+    await storage.upsertCatalogProducts([{
+      id: product.id,
+      storeId: this.store.id,
+      title: product.title,
+      handle: product.handle,
+      images: images.map((image): CatalogImage => ({ id: image.id, src: image.src, alt: image.alt ?? null })),
+      imageKeys: images.map((image, position) => ({
+        id: image.id,
+        urlKey: imageUrlKey(image.src),
+        filenameKey: imageFilenameKey(image.src),
+        position,
+      })),
+      shopifyUpdatedAt: new Date(product.updated_at),
+      syncedAt: new Date(),
+      variants: product.variants.map(variant => ({
+        id: variant.id,
+        sku: variant.sku ?? '',
+        normalizedSku: normalizeSku(variant.sku ?? ''),
+        title: variant.title,
+        imageId: variant.image_id ?? null,
+        position: variant.position,
+      })),
+    }]);
+    this.searchIndex = undefined;
+    return previous?.images ?? null;
+  }
+
+  async getStatus(): Promise<{ syncing: boolean; state: CatalogSyncState | null; products: number; variants: number; images: number }> {
+    const [state, stats] = await Promise.all([
+      storage.getCatalogSyncState(this.store.id),
+      storage.getCatalogStats(this.store.id)
+    ]);
+    return { syncing: !!this.syncing, state: state ?? null, ...stats };
+  }
+
+  private async runSync(forceFull: boolean): Promise<CatalogSyncResult> {
+    const startedAt = new Date();
+    const state = await storage.getCatalogSyncState(this.store.id);
+    const full = forceFull || !state?.lastUpdatedAt || !state.lastFullSyncAt ||
+      startedAt.getTime() - state.lastFullSyncAt.getTime() > FULL_SYNC_MAX_AGE_MS;
+
+    // updated_at:>= re-fetches the products at the boundary, which is harmless
+    const query = full ? null : `updated_at:>='${state!.lastUpdatedAt!.toISOString()}'`;
+    console.log(`🗂️ Starting ${full ? 'full' : 'incremental'} catalog sync of ${this.store.id}${query ? ` (${query})` : ''}`);
+
+    try {
+      let lastUpdatedAt = state?.lastUpdatedAt ?? null;
+      let synced = 0;
+
+      await catalogWalker.walk(this.store, async (page) => {
+        const products = page.map(product => this.toCatalogProduct(product));
+        await storage.upsertCatalogProducts(products);
+        synced += products.length;
+
+        // Pages come oldest first, so the watermark can be saved as we go and an
+        // interrupted sync picks up where it stopped
+        for (const product of products) {
+          if (!lastUpdatedAt || product.shopifyUpdatedAt > lastUpdatedAt) {
+            lastUpdatedAt = product.shopifyUpdatedAt;
+          }
+        }
+        await storage.updateCatalogSyncState(this.store.id, { lastUpdatedAt });
+      }, query);
+
+      const removed = full ? await storage.deleteCatalogProductsSyncedBefore(this.store.id, startedAt) : 0;
+      await storage.updateCatalogSyncState(this.store.id, {
+        lastSyncedAt: new Date(),
+        lastError: null,
+        ...(full ? { lastFullSyncAt: startedAt } : {})
+      });
+
+      const durationMs = Date.now() - startedAt.getTime();
+      console.log(`✅ Catalog sync of ${this.store.id} finished: ${synced} products updated, ${removed} removed in ${durationMs}ms`);
+      return { full, products: synced, removed, durationMs };
+    } catch (error) {
+      console.error(`❌ Catalog sync of ${this.store.id} failed:`, error);
+      await storage.updateCatalogSyncState(this.store.id, {
+        lastError: error instanceof Error ? error.message : 'Unknown error'
+      }).catch(() => {});
+      throw error;
+    }
+  }
+
+  private toCatalogProduct({ node, variants, images }: WalkedProduct<ProductNode, VariantNode, ImageNode>): InsertCatalogProduct {
+    const productId = parseGid(node.id);
+
+    return {
+      id: productId,
+      storeId: this.store.id,
+      title: node.title,
+      handle: node.handle,
+      images: images.map((image): CatalogImage => ({ id: parseGid(image.id), src: image.url, alt: image.altText })),
+      imageKeys: images.map((image, position) => ({
+        id: parseGid(image.id),
+        urlKey: imageUrlKey(image.url),
+        filenameKey: imageFilenameKey(image.url),
+        position,
+      })),
+      shopifyUpdatedAt: new Date(node.updatedAt),
+      syncedAt: new Date(),
+      variants: variants.map(variant => ({
+        id: parseGid(variant.id),
+        sku: variant.sku ?? '',
+        normalizedSku: normalizeSku(variant.sku ?? ''),
+        title: variant.title,
+        imageId: variant.image ? parseGid(variant.image.id) : null,
+        position: variant.position,
+      })),
+    };
+  }
+}
+
+export const catalogSyncIntervalMinutes = readIntEnv('CATALOG_SYNC_INTERVAL_MINUTES', 60);
@@ -0,0 +1,126 @@
+import type { ShopifyService } from "./shopify";
+
+// Page sizes keep each query well under Shopify's 1000 point cost limit;
+// products with more variants or images are topped up with follow-up queries
+const PRODUCTS_PER_PAGE = 20;
+const VARIANTS_PER_PAGE = 25;
+const IMAGES_PER_PAGE = 10;
+
+export interface Connection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{ node: T }>;
+}
+
+// 'gid://shopify/Product/123' -> 123
+export function parseGid(gid: string): number {
+  return parseInt(gid.slice(gid.lastIndexOf('/') + 1), 10);
+}
+
+export interface CatalogProductNode {
+  id: string;
+  title: string;
+  handle: string;
+}
+
+// A product with every one of its variants and images loaded
+export interface WalkedProduct<P extends CatalogProductNode, V, I> {
+  node: P;
+  variants: V[];
+  images: I[];
+}
+
+export interface CatalogWalkerOptions {
+  name: string; // prefixes the operation names, e.g. 'catalog' -> catalogProducts
+  sortKey: 'ID' | 'UPDATED_AT';
+  productFields?: string; // besides id, title and handle
+  variantFields: string;
+  imageFields: string;
+}
+
+// Pages through a store's products with cursor-paginated GraphQL queries and follows each
+// product's variant and image cursors, for the catalog sync and the catalog audit
+export class CatalogWalker<P extends CatalogProductNode, V, I> {
+  private productsQuery: string;
+  private moreVariantsQuery: string;
+  private moreImagesQuery: string;
+
+  constructor({ name, sortKey, productFields = '', variantFields, imageFields }: CatalogWalkerOptions) {
+    const variants = `pageInfo { hasNextPage endCursor } edges { node { ${variantFields} } }`;
+    const images = `pageInfo { hasNextPage endCursor } edges { node { ${imageFields} } }`;
+
+    this.productsQuery = `
+      query ${name}Products($cursor: String, $query: String) {
+        products(first: ${PRODUCTS_PER_PAGE}, after: $cursor, sortKey: ${sortKey}, query: $query) {
+          pageInfo { hasNextPage endCursor }
+          edges {
+            node {
+              id
+              title
+              handle
+              ${productFields}
+              variants(first: ${VARIANTS_PER_PAGE}) { ${variants} }
+              images(first: ${IMAGES_PER_PAGE}) { ${images} }
+            }
+          }
+        }
+      }
+    `;
+    this.moreVariantsQuery = `
+      query ${name}ProductVariants($id: ID!, $cursor: String) {
+        product(id: $id) { variants(first: 100, after: $cursor) { ${variants} } }
+      }
+    `;
+    this.moreImagesQuery = `
+      query ${name}ProductImages($id: ID!, $cursor: String) {
+        product(id: $id) { images(first: 100, after: $cursor) { ${images} } }
+      }
+    `;
+  }
+
+  // Calls onPage with each page of products, in order; `query` is a Shopify product search
+  // such as updated_at:>='...'
+  async walk(
+    store: ShopifyService,
+    onPage: (products: Array<WalkedProduct<P, V, I>>) => Promise<void>,
+    query: string | null = null
+  ): Promise<void> {
+    type ProductNode = P & { variants: Connection<V>; images: Connection<I> };
+
+    let cursor: string | null = null;
+    do {
+      const data: { products: Connection<ProductNode> } = await store.graphql(this.productsQuery, { cursor, query });
+
+      const products = await Promise.all(data.products.edges.map(async ({ node }) => ({
+        node: node as P,
+        variants: await this.collect(store, node.variants, node.id, this.moreVariantsQuery, 'variants'),
+        images: await this.collect(store, node.images, node.id, this.moreImagesQuery, 'images'),
+      })));
+      await onPage(products);
+
+      cursor = data.products.pageInfo.hasNextPage ? data.products.pageInfo.endCursor : null;
+    } while (cursor);
+  }
+
+  // Follows a nested connection's cursor until every node is loaded
+  private async collect<T>(
+    store: ShopifyService,
+    first: Connection<T>,
+    productGid: string,
+    query: string,
+    field: 'variants' | 'images'
+  ): Promise<T[]> {
+    const nodes = first.edges.map(edge => edge.node);
+    let pageInfo = first.pageInfo;
+
+    while (pageInfo.hasNextPage) {
+      const data: { product: Record<typeof field, Connection<T>> | null } =
+        await store.graphql(query, { id: productGid, cursor: pageInfo.endCursor });
+      if (!data.product) break;
+
+      const page = data.product[field];
+      nodes.push(...page.edges.map(edge => edge.node));
+      pageInfo = page.pageInfo;
+    }
+    return nodes;
+  }
+}
@@ -0,0 +1,275 @@
+import { describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import type { OutputFormat } from "@shared/schema";
+import { imageProcessor, type ImageProcessingOptions } from "./imageProcessor";
+
+// Conversions run inline here - the worker pool is covered in workScheduler.test.ts
+vi.hoisted(() => {
+  process.env.IMAGE_WORKERS = "0";
+});
+
+// A plain image in one color
+function solid(width: number, height: number, background = "#cc3333"): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background } }).png().toBuffer();
+}
+
+// Left half one color, right half another
+function halves(width: number, height: number, left: string, right: string): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: left } })
+    .composite([{ input: { create: { width: width / 2, height, channels: 3, background: right } }, left: width / 2, top: 0 }])
+    .png()
+    .toBuffer();
+}
+
+// RGB of one output pixel; lossless output keeps the colors exact
+async function pixel(buffer: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(buffer).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+// A product shot: a dark box on a plain background
+function productShot(width: number, height: number, box: { left: number; top: number; width: number; height: number }, background = "#ffffff"): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background } })
+    .composite([{ input: { create: { width: box.width, height: box.height, channels: 3, background: "#202020" } }, left: box.left, top: box.top }])
+    .png()
+    .toBuffer();
+}
+
+// Random pixels - detail for the entropy strategy to find
+function noise(width: number, height: number): Promise<Buffer> {
+  const data = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < data.length; i++) data[i] = (i * 7919) % 251;
+  return sharp(data, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+const DARK = [32, 32, 32];
+const WHITE = [255, 255, 255];
+const RED = [255, 0, 0];
+const GREEN = [0, 255, 0];
+const BLUE = [0, 0, 255];
+
+const convert = (source: Buffer, options: Partial<ImageProcessingOptions>) =>
+  imageProcessor.processBuffer(source, { dpi: 300, filename: "test", ...options });
+
+describe("imageProcessor output formats", () => {
+  it.each<[OutputFormat, string, number | undefined]>([
+    ["jpeg", "jpeg", 300],
+    ["png", "png", 300],
+    ["tiff", "tiff", 300],
+    ["webp", "webp", undefined],
+    ["avif", "heif", undefined], // AVIF is an AV1-coded HEIF
+  ])("encodes %s", async (format, container, density) => {
+    const processed = await convert(await solid(200, 100), { width: 40, height: 50, format });
+
+    const metadata = await sharp(processed.buffer).metadata();
+    expect(metadata).toMatchObject({ format: container, width: 40, height: 50 });
+    expect(metadata.density).toBe(density);
+    expect(processed).toMatchObject({ width: 40, height: 50, warnings: [] });
+  });
+
+  it("names and labels the output after its format", () => {
+    expect(imageProcessor.getOutputFilename("SKU-1", "avif")).toBe("SKU-1.avif");
+    expect(imageProcessor.getOutputFilename("SKU-1")).toBe("SKU-1.jpg");
+    expect(imageProcessor.getContentType("webp")).toBe("image/webp");
+    expect(imageProcessor.getContentType("tiff")).toBe("image/tiff");
+  });
+
+  it("keeps PNG and TIFF lossless", async () => {
+    const source = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#123456" } }).png().toBuffer();
+
+    for (const format of ["png", "tiff"] as const) {
+      const processed = await convert(source, { width: 8, height: 8, format });
+      const { data } = await sharp(processed.buffer).raw().toBuffer({ resolveWithObject: true });
+      expect(Array.from(data.subarray(0, 3))).toEqual([0x12, 0x34, 0x56]);
+    }
+  });
+});
+
+describe("imageProcessor dimensions", () => {
+  it("parses sizes with an auto side", () => {
+    expect(imageProcessor.parseDimensions("600x600")).toEqual({ width: 600, height: 600 });
+    expect(imageProcessor.parseDimensions("2048xauto")).toEqual({ width: 2048, height: undefined });
+    expect(() => imageProcessor.parseDimensions("autoxauto")).toThrow();
+  });
+
+  it("keeps the source aspect ratio for an auto side", async () => {
+    const source = await solid(200, 100);
+
+    expect(await convert(source, imageProcessor.parseDimensions("50xauto"))).toMatchObject({ width: 50, height: 25 });
+    expect(await convert(source, imageProcessor.parseDimensions("autox40"))).toMatchObject({ width: 80, height: 40 });
+  });
+});
+
+describe("imageProcessor fit modes", () => {
+  it("pads 'contain' to the canvas with the background color", async () => {
+    const processed = await convert(await solid(200, 100, "#ff0000"), { width: 100, height: 100, fit: "contain", background: "#0000ff", format: "png" });
+
+    expect(processed).toMatchObject({ width: 100, height: 100 });
+    expect(await pixel(processed.buffer, 50, 5)).toEqual(BLUE);
+    expect(await pixel(processed.buffer, 50, 50)).toEqual(RED);
+    expect(await pixel(processed.buffer, 50, 95)).toEqual(BLUE);
+  });
+
+  it("shrinks 'inside' to the source aspect ratio without padding", async () => {
+    const processed = await convert(await solid(200, 100, "#ff0000"), { width: 100, height: 100, fit: "inside", format: "png" });
+
+    expect(processed).toMatchObject({ width: 100, height: 50 });
+    expect(await pixel(processed.buffer, 50, 0)).toEqual(RED);
+  });
+
+  it("stretches 'fill' to the exact size", async () => {
+    const processed = await convert(await halves(200, 100, "#ff0000", "#00ff00"), { width: 100, height: 100, fit: "fill", format: "png" });
+
+    expect(processed).toMatchObject({ width: 100, height: 100 });
+    expect(await pixel(processed.buffer, 10, 50)).toEqual(RED);
+    expect(await pixel(processed.buffer, 90, 50)).toEqual(GREEN);
+  });
+
+  it("anchors a 'cover' crop at the gravity", async () => {
+    const source = await halves(200, 100, "#ff0000", "#00ff00");
+
+    const west = await convert(source, { width: 50, height: 50, fit: "cover", gravity: "west", format: "png" });
+    expect(await pixel(west.buffer, 45, 25)).toEqual(RED);
+    const east = await convert(source, { width: 50, height: 50, fit: "cover", gravity: "east", format: "png" });
+    expect(await pixel(east.buffer, 5, 25)).toEqual(GREEN);
+  });
+
+  it("warns about upscaling by the side the fit mode scales by", async () => {
+    const source = { width: 400, height: 200 };
+
+    // 'cover' fills the taller side (3x), 'contain' only the wider one (1.5x)
+    expect(imageProcessor.getUpscaleWarnings(source, { width: 600, height: 600, fit: "cover", dpi: 300 }))
+      .toEqual(["Output 600x600 px upscales the 400x200 px source 3.0x"]);
+    expect(imageProcessor.getUpscaleWarnings(source, { width: 600, height: 600, fit: "contain", dpi: 300 }))
+      .toEqual(["Output 600x600 px upscales the 400x200 px source 1.5x"]);
+    expect(imageProcessor.getUpscaleWarnings(source, { width: 400, height: 200, fit: "cover", dpi: 300 })).toEqual([]);
+  });
+});
+
+describe("imageProcessor smart cropping", () => {
+  it("crops 'bbox' to the product with the margin around it", async () => {
+    const source = await productShot(400, 400, { left: 250, top: 50, width: 100, height: 100 });
+
+    const tight = await convert(source, { width: 100, height: 100, cropStrategy: "bbox", cropMargin: 0, format: "png" });
+    expect(await pixel(tight.buffer, 2, 2)).toEqual(DARK);
+    expect(await pixel(tight.buffer, 97, 97)).toEqual(DARK);
+
+    // 10% of the box on each side: 120px around the product, scaled to 100
+    const margin = await convert(source, { width: 100, height: 100, cropStrategy: "bbox", cropMargin: 10, format: "png" });
+    expect(await pixel(margin.buffer, 3, 3)).toEqual(WHITE);
+    expect(await pixel(margin.buffer, 12, 12)).toEqual(DARK);
+    expect(await pixel(margin.buffer, 50, 50)).toEqual(DARK);
+  });
+
+  it("widens the 'bbox' crop to the output aspect ratio, padding past the frame", async () => {
+    // The product touches the left edge, so a centered 2:1 crop reaches outside the source
+    const source = await productShot(400, 200, { left: 0, top: 50, width: 100, height: 100 });
+
+    const processed = await convert(source, { width: 200, height: 100, cropStrategy: "bbox", cropMargin: 0, background: "#0000ff", format: "png" });
+    expect(processed).toMatchObject({ width: 200, height: 100 });
+    expect(await pixel(processed.buffer, 10, 50)).toEqual(BLUE);
+    expect(await pixel(processed.buffer, 100, 50)).toEqual(DARK);
+    expect(await pixel(processed.buffer, 190, 50)).toEqual(WHITE);
+  });
+
+  it("finds the salient region with 'attention'", async () => {
+    const source = await sharp({ create: { width: 400, height: 100, channels: 3, background: "#808080" } })
+      .composite([{ input: { create: { width: 100, height: 100, channels: 3, background: "#ff0000" } }, left: 300, top: 0 }])
+      .png()
+      .toBuffer();
+
+    const processed = await convert(source, { width: 100, height: 100, cropStrategy: "attention", format: "png" });
+    expect(await pixel(processed.buffer, 50, 50)).toEqual(RED);
+  });
+
+  it("finds the detailed region with 'entropy'", async () => {
+    const source = await sharp({ create: { width: 400, height: 100, channels: 3, background: "#808080" } })
+      .composite([{ input: await noise(100, 100), left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+
+    const processed = await convert(source, { width: 100, height: 100, cropStrategy: "entropy", format: "png" });
+    const { stdev } = (await sharp(processed.buffer).stats()).channels[0];
+    expect(stdev).toBeGreaterThan(30);
+  });
+
+  it("ignores smart cropping when nothing is cropped", async () => {
+    const source = await halves(200, 100, "#ff0000", "#00ff00");
+
+    const processed = await convert(source, { width: 100, height: 100, fit: "contain", cropStrategy: "attention", background: "#0000ff", format: "png" });
+    expect(await pixel(processed.buffer, 10, 50)).toEqual(RED);
+    expect(await pixel(processed.buffer, 90, 50)).toEqual(GREEN);
+    expect(await pixel(processed.buffer, 50, 5)).toEqual(BLUE);
+  });
+});
+
+describe("imageProcessor background normalization", () => {
+  // A 100x50 product off-center on an off-white studio backdrop
+  const studioShot = () => productShot(300, 200, { left: 30, top: 40, width: 100, height: 50 }, "#f0f0f0");
+
+  it("whitens the backdrop and centers the product at the fill ratio", async () => {
+    const processed = await convert(await studioShot(), { width: 200, height: 200, normalizeBackground: true, fillRatio: 0.5, format: "png" });
+
+    // 100x50 product centered on the 200x200 canvas
+    expect(processed).toMatchObject({ width: 200, height: 200 });
+    expect(await pixel(processed.buffer, 5, 5)).toEqual(WHITE);
+    expect(await pixel(processed.buffer, 48, 100)).toEqual(WHITE);
+    expect(await pixel(processed.buffer, 52, 100)).toEqual(DARK);
+    expect(await pixel(processed.buffer, 147, 100)).toEqual(DARK);
+    expect(await pixel(processed.buffer, 151, 100)).toEqual(WHITE);
+    expect(await pixel(processed.buffer, 100, 73)).toEqual(WHITE);
+    expect(await pixel(processed.buffer, 100, 77)).toEqual(DARK);
+  });
+
+  it("sizes the canvas around the product for an auto side", async () => {
+    const processed = await convert(await studioShot(), { width: 200, normalizeBackground: true, fillRatio: 0.5, format: "png" });
+
+    expect(processed).toMatchObject({ width: 200, height: 100 });
+    expect(await pixel(processed.buffer, 100, 23)).toEqual(WHITE);
+    expect(await pixel(processed.buffer, 100, 27)).toEqual(DARK);
+  });
+
+  it("keeps colors beyond the trim tolerance", async () => {
+    const source = await sharp({ create: { width: 100, height: 100, channels: 3, background: "#ffffff" } })
+      .composite([{ input: { create: { width: 50, height: 50, channels: 3, background: "#e6e6e6" } }, left: 25, top: 25 }])
+      .png()
+      .toBuffer();
+
+    const kept = await convert(source, { width: 100, height: 100, normalizeBackground: true, trimTolerance: 10, fillRatio: 0.5, format: "png" });
+    expect(await pixel(kept.buffer, 50, 50)).toEqual([230, 230, 230]);
+    const flattened = await convert(source, { width: 100, height: 100, normalizeBackground: true, trimTolerance: 30, format: "png" });
+    expect(await pixel(flattened.buffer, 50, 50)).toEqual(WHITE);
+  });
+});
+
+describe("imageProcessor print resolution", () => {
+  it("writes the requested DPI into the file", async () => {
+    const source = await solid(100, 100);
+
+    for (const dpi of [72, 600]) {
+      for (const format of ["jpeg", "png", "tiff"] as const) {
+        const processed = await convert(source, { width: 50, height: 50, dpi, format });
+        expect((await sharp(processed.buffer).metadata()).density).toBe(dpi);
+      }
+    }
+  });
+
+  it("reports the effective DPI when a print size upscales the source", () => {
+    // 4x4in at 300 DPI needs 1200px; a 600px source only reaches 150 DPI
+    const printOptions = { width: 1200, height: 1200, fit: "cover" as const, dpi: 300, printSize: { width: 4, height: 4, unit: "in" as const } };
+
+    expect(imageProcessor.getUpscaleWarnings({ width: 600, height: 600 }, printOptions))
+      .toEqual(["Output 1200x1200 px upscales the 600x600 px source 2.0x - effective print resolution is about 150 DPI, not 300"]);
+    expect(imageProcessor.getUpscaleWarnings({ width: 1200, height: 1200 }, printOptions)).toEqual([]);
+  });
+
+  it("returns the warning with the converted image", async () => {
+    const processed = await convert(await solid(100, 100), {
+      width: 300, height: 300, dpi: 300, format: "png", printSize: { width: 1, height: 1, unit: "in" },
+    });
+
+    expect(processed).toMatchObject({ width: 300, height: 300 });
+    expect(processed.warnings).toEqual(["Output 300x300 px upscales the 100x100 px source 3.0x - effective print resolution is about 100 DPI, not 300"]);
+  });
+});
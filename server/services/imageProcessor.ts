@@ -1,46 +1,297 @@
 import sharp from 'sharp';
 import fetch from 'node-fetch';
+import {
+  dimensionsSchema,
+  outputFormatDetails,
+  type CropStrategy,
+  type FitMode,
+  type Gravity,
+  type OutputFormat,
+  type PrintSize,
+} from '@shared/schema';
+import { type ResolvedOutputOptions } from './presetService';
+import { HttpStatusError, withDownloadTimeout } from './retry';
+import { toBuffer, workScheduler } from './workScheduler';
 
 export interface ImageProcessingOptions {
-  width: number;
-  height: number;
+  width?: number; // undefined = auto, keeps the aspect ratio
+  height?: number;
   dpi: number;
   filename: string;
+  format?: OutputFormat;
+  fit?: FitMode;
+  background?: string; // pad color for 'contain'
+  gravity?: Gravity; // crop anchor for 'cover'
+  cropStrategy?: CropStrategy;
+  cropMargin?: number; // % of the product box kept around it with 'bbox'
+  normalizeBackground?: boolean;
+  trimTolerance?: number; // color distance still treated as background
+  fillRatio?: number; // share of the canvas the product spans after normalization
+  printSize?: PrintSize; // set when width/height were derived from a physical size
+}
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  warnings: string[];
+}
+
+// Region of the source image that differs from its background
+interface ContentBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
 }
 
 export class ImageProcessor {
-  async processImage(imageUrl: string, options: ImageProcessingOptions): Promise<Buffer> {
+  async processImage(imageUrl: string, options: ImageProcessingOptions, signal?: AbortSignal): Promise<ProcessedImage> {
     try {
-      // Fetch the image
-      const response = await fetch(imageUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
-      }
+      // Fetch the image - downloads share a global concurrency cap
+      const imageBuffer = await workScheduler.fetch(() => withDownloadTimeout(async (downloadSignal) => {
+        const response = await fetch(imageUrl, { signal: downloadSignal });
+        if (!response.ok) {
+          throw HttpStatusError.fromResponse('Failed to fetch image', response);
+        }
+        return await response.buffer();
+      }, signal));
+
+      return await this.processBuffer(imageBuffer, options);
+    } catch (error) {
+      console.error('Error processing image:', error);
+      throw error;
+    }
+  }
 
-      const imageBuffer = await response.buffer();
+  // Runs the sharp pipeline on the shared worker pool
+  async processBuffer(imageBuffer: Buffer, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    const processed = await workScheduler.run('processImage', { buffer: imageBuffer, options });
+    return { ...processed, buffer: toBuffer(processed.buffer) };
+  }
 
-      // Process with Sharp
-      const processedBuffer = await sharp(imageBuffer)
+  // The sharp pipeline itself - called inside an image worker
+  async processBufferInline(imageBuffer: Buffer, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const warnings = this.getUpscaleWarnings(metadata, options);
+
+    // Process with Sharp
+    const cropsToContent = options.cropStrategy === 'bbox' && (options.fit || 'cover') === 'cover';
+    let resized: sharp.Sharp;
+    if (options.normalizeBackground) {
+      resized = await this.normalizeBackground(imageBuffer, options);
+    } else if (cropsToContent) {
+      resized = await this.cropToContent(imageBuffer, options);
+    } else {
+      resized = sharp(imageBuffer)
         .resize(options.width, options.height, {
-          fit: 'cover',
-          position: 'center'
-        })
-        .jpeg({
-          quality: this.getDpiQuality(options.dpi),
-          progressive: true
-        })
-        .withMetadata({
-          density: options.dpi
-        })
-        .toBuffer();
+          fit: options.fit || 'cover',
+          position: this.getCropPosition(options),
+          background: options.background || '#ffffff'
+        });
+    }
+
+    const { data, info } = await this.encode(resized, options.format || 'jpeg', this.getDpiQuality(options.dpi), options.dpi)
+      .withMetadata({
+        density: options.dpi
+      })
+      .toBuffer({ resolveWithObject: true });
+
+    return { buffer: data, width: info.width, height: info.height, warnings };
+  }
+
+  // Warn when the output needs more pixels than the source has. For print sizes this
+  // means the print won't actually reach the requested DPI.
+  getUpscaleWarnings(
+    source: { width?: number; height?: number },
+    options: Pick<ImageProcessingOptions, 'width' | 'height' | 'fit' | 'dpi' | 'printSize'>
+  ): string[] {
+    if (!source.width || !source.height) return [];
+
+    const scales = [
+      options.width ? options.width / source.width : undefined,
+      options.height ? options.height / source.height : undefined,
+    ].filter((scale): scale is number => scale !== undefined);
+    if (scales.length === 0) return [];
+
+    const fit = options.fit || 'cover';
+    const scale = fit === 'contain' || fit === 'inside' ? Math.min(...scales) : Math.max(...scales);
+    if (scale <= 1.01) return [];
+
+    const message = `Output ${options.width ?? 'auto'}x${options.height ?? 'auto'} px upscales the ` +
+      `${source.width}x${source.height} px source ${scale.toFixed(1)}x`;
+    if (options.printSize) {
+      return [`${message} - effective print resolution is about ${Math.round(options.dpi / scale)} DPI, not ${options.dpi}`];
+    }
+    return [message];
+  }
+
+  // Smart-crop strategies only apply when 'cover' has to crop
+  private getCropPosition(options: ImageProcessingOptions): string | number {
+    if ((options.fit || 'cover') === 'cover') {
+      if (options.cropStrategy === 'attention') return sharp.strategy.attention;
+      if (options.cropStrategy === 'entropy') return sharp.strategy.entropy;
+    }
+    return options.gravity || 'center';
+  }
+
+  // Crop around the detected product with a margin, growing the box to the output aspect
+  // ratio so the product ends up centered. Areas outside the source are padded.
+  private async cropToContent(imageBuffer: Buffer, options: ImageProcessingOptions): Promise<sharp.Sharp> {
+    const box = await this.findContentBox(imageBuffer);
+    const margin = Math.round(Math.max(box.width, box.height) * (options.cropMargin ?? 5) / 100);
+
+    let width = box.width + margin * 2;
+    let height = box.height + margin * 2;
+    if (options.width && options.height) {
+      const aspect = options.width / options.height;
+      if (width / height < aspect) {
+        width = Math.round(height * aspect);
+      } else {
+        height = Math.round(width / aspect);
+      }
+    }
+
+    const left = Math.round(box.left + box.width / 2 - width / 2);
+    const top = Math.round(box.top + box.height / 2 - height / 2);
+    const extractLeft = Math.max(left, 0);
+    const extractTop = Math.max(top, 0);
+    const extractRight = Math.min(left + width, box.imageWidth);
+    const extractBottom = Math.min(top + height, box.imageHeight);
+
+    // Sharp always extends after resizing, so the padded crop is materialised first
+    const { data, info } = await sharp(imageBuffer)
+      .extract({
+        left: extractLeft,
+        top: extractTop,
+        width: extractRight - extractLeft,
+        height: extractBottom - extractTop
+      })
+      .extend({
+        left: extractLeft - left,
+        top: extractTop - top,
+        right: left + width - extractRight,
+        bottom: top + height - extractBottom,
+        background: options.background || '#ffffff'
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
 
-      return processedBuffer;
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+      .resize(options.width, options.height, { fit: 'fill' });
+  }
+
+  // Flatten the off-white/light-grey background to pure white, trim it away and re-pad the
+  // product so it spans the same share (fillRatio) of every canvas.
+  private async normalizeBackground(imageBuffer: Buffer, options: ImageProcessingOptions): Promise<sharp.Sharp> {
+    const tolerance = options.trimTolerance ?? 10;
+    const fillRatio = options.fillRatio ?? 0.85;
+
+    const { data, info } = await sharp(imageBuffer)
+      .flatten({ background: '#ffffff' })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // The top-left pixel is taken as the background color when it is light enough to be one
+    const [bgR, bgG, bgB] = [data[0], data[1], data[2]];
+    const hasLightBackground = Math.min(bgR, bgG, bgB) >= 200;
+
+    for (let i = 0; i < data.length; i += info.channels) {
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const nearWhite = r >= 255 - tolerance && g >= 255 - tolerance && b >= 255 - tolerance;
+      const nearBackground = hasLightBackground &&
+        Math.abs(r - bgR) <= tolerance && Math.abs(g - bgG) <= tolerance && Math.abs(b - bgB) <= tolerance;
+      if (nearWhite || nearBackground) {
+        data[i] = data[i + 1] = data[i + 2] = 255;
+      }
+    }
+
+    const raw = { width: info.width, height: info.height, channels: info.channels };
+    let product = { data, info: raw };
+    try {
+      const trimmed = await sharp(data, { raw })
+        .trim({ background: '#ffffff', threshold: 1 })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      product = { data: trimmed.data, info: { width: trimmed.info.width, height: trimmed.info.height, channels: trimmed.info.channels } };
     } catch (error) {
-      console.error('Error processing image:', error);
-      throw error;
+      // Nothing but background left - keep the frame as is
+      console.warn('Background normalization found no product to trim:', error);
+    }
+
+    // Size of the product on the canvas, and the canvas itself when a side is 'auto'
+    let productWidth: number;
+    let productHeight: number;
+    if (options.width && options.height) {
+      const scale = Math.min(options.width * fillRatio / product.info.width, options.height * fillRatio / product.info.height);
+      productWidth = Math.max(1, Math.round(product.info.width * scale));
+      productHeight = Math.max(1, Math.round(product.info.height * scale));
+    } else if (options.width) {
+      productWidth = Math.max(1, Math.round(options.width * fillRatio));
+      productHeight = Math.max(1, Math.round(product.info.height * productWidth / product.info.width));
+    } else {
+      productHeight = Math.max(1, Math.round((options.height ?? product.info.height) * fillRatio));
+      productWidth = Math.max(1, Math.round(product.info.width * productHeight / product.info.height));
+    }
+    const canvasWidth = options.width ?? Math.round(productWidth / fillRatio);
+    const canvasHeight = options.height ?? Math.round(productHeight / fillRatio);
+
+    const resizedProduct = await sharp(product.data, { raw: product.info })
+      .resize(productWidth, productHeight, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    const left = Math.floor((canvasWidth - productWidth) / 2);
+    const top = Math.floor((canvasHeight - productHeight) / 2);
+    return sharp(resizedProduct, { raw: { width: productWidth, height: productHeight, channels: product.info.channels } })
+      .extend({
+        left,
+        top,
+        right: canvasWidth - productWidth - left,
+        bottom: canvasHeight - productHeight - top,
+        background: '#ffffff'
+      });
+  }
+
+  // Bounding box of everything that differs from the top-left pixel by more than the threshold
+  private async findContentBox(imageBuffer: Buffer, threshold: number = 10): Promise<ContentBox> {
+    const { width: imageWidth = 0, height: imageHeight = 0 } = await sharp(imageBuffer).metadata();
+
+    try {
+      const { info } = await sharp(imageBuffer)
+        .trim({ threshold })
+        .toBuffer({ resolveWithObject: true });
+
+      return {
+        left: -(info.trimOffsetLeft ?? 0),
+        top: -(info.trimOffsetTop ?? 0),
+        width: info.width,
+        height: info.height,
+        imageWidth,
+        imageHeight
+      };
+    } catch (error) {
+      // Uniform images can't be trimmed - treat the whole frame as content
+      console.warn('Could not detect product bounds, using full image:', error);
+      return { left: 0, top: 0, width: imageWidth, height: imageHeight, imageWidth, imageHeight };
     }
   }
 
+  // Per-image options from preset-resolved output settings
+  toProcessingOptions(output: ResolvedOutputOptions, dpi: number, filename: string): ImageProcessingOptions {
+    const { dimensions, preset, ...settings } = output;
+    return {
+      ...this.parseDimensions(dimensions),
+      ...settings,
+      dpi,
+      filename
+    };
+  }
+
   async processMultipleImages(
     images: Array<{ url: string; options: ImageProcessingOptions }>
   ): Promise<Array<{ filename: string; buffer: Buffer }>> {
@@ -48,9 +299,10 @@ export class ImageProcessor {
 
     for (const { url, options } of images) {
       try {
-        const buffer = await this.processImage(url, options);
+        const { buffer, warnings } = await this.processImage(url, options);
+        warnings.forEach(warning => console.warn(`⚠️ ${options.filename}: ${warning}`));
         results.push({
-          filename: `${options.filename}.jpg`,
+          filename: this.getOutputFilename(options.filename, options.format),
           buffer
         });
       } catch (error) {
@@ -62,6 +314,62 @@ export class ImageProcessor {
     return results;
   }
 
+  // Apply the encoder for the requested output format. Lossy formats take the
+  // DPI-derived quality, lossless formats ignore it.
+  encode(pipeline: sharp.Sharp, format: OutputFormat, quality: number, dpi: number): sharp.Sharp {
+    switch (format) {
+      case 'webp':
+        return pipeline.webp({
+          quality,
+          effort: 4,
+          smartSubsample: true
+        });
+      case 'avif':
+        // AVIF reaches JPEG-equivalent quality at a much lower setting
+        return pipeline.avif({
+          quality: Math.max(quality - 30, 30),
+          effort: 4,
+          chromaSubsampling: '4:4:4'
+        });
+      case 'png':
+        return pipeline.png({
+          compressionLevel: 9,
+          adaptiveFiltering: true
+        });
+      case 'tiff':
+        return pipeline.tiff({
+          compression: 'lzw',
+          // Sharp takes TIFF resolution in pixels per millimetre
+          xres: dpi / 25.4,
+          yres: dpi / 25.4,
+          resolutionUnit: 'inch'
+        });
+      case 'jpeg':
+      default:
+        return pipeline.jpeg({
+          quality,
+          progressive: true
+        });
+    }
+  }
+
+  getOutputFilename(basename: string, format: OutputFormat = 'jpeg'): string {
+    return `${basename}.${outputFormatDetails[format].extension}`;
+  }
+
+  // Output filename base for an uploaded file, e.g. "My Photo (1).PNG" -> "My-Photo-1"
+  getUploadBasename(originalName: string): string {
+    const name = originalName
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^a-zA-Z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return name || `upload-${Date.now()}`;
+  }
+
+  getContentType(format: OutputFormat = 'jpeg'): string {
+    return outputFormatDetails[format].mimeType;
+  }
+
   private getDpiQuality(dpi: number): number {
     if (dpi >= 1200) return 95;
     if (dpi >= 600) return 90;
@@ -69,10 +377,16 @@ export class ImageProcessor {
     return 80;
   }
 
-  parseDimensions(dimensionString: string): { width: number; height: number } {
-    const [width, height] = dimensionString.split('x').map(Number);
+  // Parses 'WxH' where either side may be 'auto' (returned as undefined)
+  parseDimensions(dimensionString: string): { width?: number; height?: number } {
+    const [width, height] = dimensionsSchema.parse(dimensionString)
+      .split('x')
+      .map(side => side === 'auto' ? undefined : Number(side));
     return { width, height };
   }
 }
 
 export const imageProcessor = new ImageProcessor();
+
+workScheduler.registerTask('processImage', ({ buffer, options }) =>
+  imageProcessor.processBufferInline(toBuffer(buffer), options));
@@ -0,0 +1,35 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { HttpStatusError, isTransientError } from "./retry";
+import { pdfProcessor } from "./pdfProcessor";
+
+describe("pdfProcessor downloads", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // /404.pdf and /503.pdf answer with that status
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.writeHead(Number(req.url!.match(/\d+/)![0]));
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("fails a missing PDF for good but retries an unavailable server", async () => {
+    const missing = await pdfProcessor.processPdf(`${baseUrl}/404.pdf`, { filename: "catalog" }).catch(error => error);
+    expect(missing).toBeInstanceOf(HttpStatusError);
+    expect(missing).toMatchObject({ status: 404, message: "Failed to download PDF: 404 Not Found" });
+    expect(isTransientError(missing)).toBe(false);
+
+    const unavailable = await pdfProcessor.processPdf(`${baseUrl}/503.pdf`, { filename: "catalog" }).catch(error => error);
+    expect(unavailable).toMatchObject({ status: 503 });
+    expect(isTransientError(unavailable)).toBe(true);
+  });
+});
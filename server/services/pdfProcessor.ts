@@ -4,11 +4,27 @@ import path from 'path';
 import { randomUUID } from 'crypto';
 import fetch from 'node-fetch';
 import sharp from 'sharp';
+import { type FitMode, type Gravity, type OutputFormat, type PrintSize } from '@shared/schema';
+import { imageProcessor } from './imageProcessor';
+import { toBuffer, workScheduler } from './workScheduler';
+import { HttpStatusError, withDownloadTimeout } from './retry';
 
 export interface PdfProcessingOptions {
   width?: number;
   height?: number;
   filename: string;
+  format?: OutputFormat;
+  fit?: FitMode;
+  background?: string;
+  gravity?: Gravity;
+  dpi?: number; // page render resolution, embedded as the output density
+  printSize?: PrintSize;
+}
+
+export interface ProcessedPdfPage {
+  filename: string;
+  buffer: Buffer;
+  warnings: string[];
 }
 
 export class PdfProcessor {
@@ -18,56 +34,43 @@ export class PdfProcessor {
     this.tempDir = '/tmp';
   }
 
-  async processPdf(pdfUrl: string, options: PdfProcessingOptions): Promise<Array<{ filename: string; buffer: Buffer }>> {
+  async processPdf(pdfUrl: string, options: PdfProcessingOptions): Promise<ProcessedPdfPage[]> {
+    // Download PDF
+    const pdfBuffer = await this.downloadPdf(pdfUrl);
+
+    return await this.processPdfBuffer(pdfBuffer, options);
+  }
+
+  async processPdfBuffer(pdfBuffer: Buffer, options: PdfProcessingOptions): Promise<ProcessedPdfPage[]> {
     const jobId = randomUUID();
     const pdfPath = path.join(this.tempDir, `${jobId}.pdf`);
     const outputDir = path.join(this.tempDir, jobId);
 
     try {
-      // Download PDF
-      await this.downloadPdf(pdfUrl, pdfPath);
+      await fs.writeFile(pdfPath, pdfBuffer);
 
       // Create output directory
       await fs.mkdir(outputDir, { recursive: true });
 
       // Convert PDF to images using pdftoppm
-      await this.convertPdfToImages(pdfPath, outputDir);
+      const dpi = options.dpi ?? 150;
+      await this.convertPdfToImages(pdfPath, outputDir, dpi);
 
       // Get all generated image files
       const files = await fs.readdir(outputDir);
-      const imageFiles = files.filter(f => f.endsWith('.ppm')).sort();
+      const imageFiles = files.filter(f => f.endsWith('.png')).sort();
 
-      const results: Array<{ filename: string; buffer: Buffer }> = [];
+      const results: ProcessedPdfPage[] = [];
 
-      // Process each page image
+      // Process each page image on the shared worker pool
       for (let i = 0; i < imageFiles.length; i++) {
         const imagePath = path.join(outputDir, imageFiles[i]);
         const pageNumber = i + 1;
         const filename = `${options.filename}-page-${pageNumber}`;
 
         try {
-          // Read and process the image
-          let sharpProcessor = sharp(imagePath);
-          
-          // Only resize if dimensions are provided
-          if (options.width && options.height) {
-            sharpProcessor = sharpProcessor.resize(options.width, options.height, {
-              fit: 'contain',
-              background: { r: 255, g: 255, b: 255, alpha: 1 }
-            });
-          }
-          
-          const buffer = await sharpProcessor
-            .jpeg({
-              quality: 90,
-              progressive: true
-            })
-            .toBuffer();
-
-          results.push({
-            filename: `${filename}.jpg`,
-            buffer
-          });
+          const page = await workScheduler.run('renderPdfPage', { imagePath, filename, options, dpi });
+          results.push({ ...page, buffer: toBuffer(page.buffer) });
         } catch (error) {
           console.error(`Error processing page ${pageNumber}:`, error);
         }
@@ -83,25 +86,59 @@ export class PdfProcessor {
     }
   }
 
-  private async downloadPdf(url: string, outputPath: string): Promise<void> {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to download PDF: ${response.status} ${response.statusText}`);
+  // Resizes and encodes one rendered page - called inside an image worker
+  async renderPage(imagePath: string, filename: string, options: PdfProcessingOptions, dpi: number): Promise<ProcessedPdfPage> {
+    let sharpProcessor = sharp(imagePath);
+    const warnings = imageProcessor.getUpscaleWarnings(await sharpProcessor.metadata(), {
+      width: options.width,
+      height: options.height,
+      fit: options.fit || 'contain',
+      dpi,
+      printSize: options.printSize
+    });
+
+    // Only resize if dimensions are provided
+    if (options.width || options.height) {
+      sharpProcessor = sharpProcessor.resize(options.width, options.height, {
+        fit: options.fit || 'contain',
+        position: options.gravity || 'center',
+        background: options.background || '#ffffff'
+      });
     }
 
-    const buffer = await response.buffer();
-    await fs.writeFile(outputPath, buffer);
+    const buffer = await imageProcessor
+      .encode(sharpProcessor, options.format || 'jpeg', 90, dpi)
+      .withMetadata({ density: dpi })
+      .toBuffer();
+
+    return {
+      filename: imageProcessor.getOutputFilename(filename, options.format),
+      buffer,
+      warnings
+    };
   }
 
-  private async convertPdfToImages(pdfPath: string, outputDir: string): Promise<void> {
+  private async downloadPdf(url: string): Promise<Buffer> {
+    return await workScheduler.fetch(() => withDownloadTimeout(async (signal) => {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw HttpStatusError.fromResponse('Failed to download PDF', response);
+      }
+
+      return await response.buffer();
+    }));
+  }
+
+  private async convertPdfToImages(pdfPath: string, outputDir: string, dpi: number): Promise<void> {
     return new Promise((resolve, reject) => {
       // Use pdftoppm to convert PDF to images
-      // Format: pdftoppm -jpeg -r 150 input.pdf output_prefix
+      // Format: pdftoppm -png -r 150 input.pdf output_prefix
+      // PNG keeps the intermediate lossless before the final encode
       const outputPrefix = path.join(outputDir, 'page');
       
       const process = spawn('pdftoppm', [
-        '-jpeg',
-        '-r', '150', // 150 DPI for good quality
+        '-png',
+        '-r', String(dpi),
         pdfPath,
         outputPrefix
       ]);
@@ -144,3 +181,6 @@ export class PdfProcessor {
 }
 
 export const pdfProcessor = new PdfProcessor();
+
+workScheduler.registerTask('renderPdfPage', ({ imagePath, filename, options, dpi }) =>
+  pdfProcessor.renderPage(imagePath, filename, options, dpi));
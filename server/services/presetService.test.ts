@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { presetService, OutputOptionsError, PresetNotFoundError } from "./presetService";
+
+describe("presetService.resolve", () => {
+  it("takes the preset's size, fit and format", async () => {
+    expect(await presetService.resolve({ preset: "marketplace" })).toEqual({
+      dimensions: "1000x1000",
+      format: "jpeg",
+      fit: "contain",
+      background: "#ffffff",
+      gravity: "center",
+      cropStrategy: "gravity",
+      cropMargin: 5,
+      normalizeBackground: false,
+      trimTolerance: 10,
+      fillRatio: 0.85,
+      printSize: undefined,
+      preset: "marketplace",
+    });
+  });
+
+  it("keeps a preset's auto side", async () => {
+    expect(await presetService.resolve({ preset: "banner" })).toMatchObject({ dimensions: "2048xauto", fit: "inside", format: "webp" });
+  });
+
+  it("lets the request's own fields override the preset", async () => {
+    const resolved = await presetService.resolve({ preset: "square", dimensions: "800x1000", format: "png", fit: "contain", background: "#000000" });
+    expect(resolved).toMatchObject({ dimensions: "800x1000", format: "png", fit: "contain", background: "#000000", preset: "square" });
+  });
+
+  it("works without a preset", async () => {
+    expect(await presetService.resolve({ dimensions: "autox300" })).toMatchObject({ dimensions: "autox300", format: "jpeg", fit: "cover", preset: undefined });
+  });
+
+  it("rejects an unknown preset or a request without a size", async () => {
+    await expect(presetService.resolve({ preset: "missing" })).rejects.toThrow(PresetNotFoundError);
+    await expect(presetService.resolve({ format: "webp" })).rejects.toThrow(OutputOptionsError);
+  });
+});
+
+describe("presetService.printSizeToDimensions", () => {
+  it("multiplies the physical size by the DPI", () => {
+    expect(presetService.printSizeToDimensions({ width: 4, height: 6, unit: "in" }, 300)).toBe("1200x1800");
+    expect(presetService.printSizeToDimensions({ width: 100, unit: "mm" }, 254)).toBe("1000xauto");
+    expect(presetService.printSizeToDimensions({ height: 0.001, unit: "in" }, 72)).toBe("autox1");
+  });
+
+  it("needs a DPI and stays within the output limit", () => {
+    expect(() => presetService.printSizeToDimensions({ width: 4, unit: "in" })).toThrow(OutputOptionsError);
+    expect(() => presetService.printSizeToDimensions({ width: 24, height: 36, unit: "in" }, 600))
+      .toThrow("needs 14400 × 21600 px, over the 8000 px limit");
+  });
+
+  it("takes precedence over the preset and the dimensions when resolving", async () => {
+    const printSize = { width: 5, height: 7, unit: "in" as const };
+    const resolved = await presetService.resolve({ preset: "square", dimensions: "600x600", printSize }, 200);
+
+    expect(resolved).toMatchObject({ dimensions: "1000x1400", printSize, preset: "square" });
+    await expect(presetService.resolve({ printSize })).rejects.toThrow("A DPI is required for print-size output");
+  });
+});
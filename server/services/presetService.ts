@@ -0,0 +1,110 @@
+import { storage } from '../storage';
+import {
+  dimensionsSchema,
+  MAX_OUTPUT_DIMENSION,
+  type CropStrategy,
+  type FitMode,
+  type Gravity,
+  type ImageOutputOptions,
+  type ImagePreset,
+  type OutputFormat,
+  type PrintSize,
+} from '@shared/schema';
+
+// Output options that are well-formed but can't be honoured (e.g. too large a print size)
+export class OutputOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputOptionsError';
+  }
+}
+
+export class PresetNotFoundError extends Error {
+  constructor(presetId: string) {
+    super(`Preset not found: ${presetId}`);
+    this.name = 'PresetNotFoundError';
+  }
+}
+
+const MM_PER_INCH = 25.4;
+
+// Output settings after a preset and the request's own fields have been merged
+export interface ResolvedOutputOptions {
+  dimensions: string;
+  format: OutputFormat;
+  fit: FitMode;
+  background: string;
+  gravity: Gravity;
+  cropStrategy: CropStrategy;
+  cropMargin: number;
+  normalizeBackground: boolean;
+  trimTolerance: number;
+  fillRatio: number;
+  printSize?: PrintSize; // kept so upscale warnings can report the effective DPI
+  preset?: string;
+}
+
+export class PresetService {
+  async resolve(request: ImageOutputOptions, dpi?: number): Promise<ResolvedOutputOptions> {
+    let preset: ImagePreset | undefined;
+
+    if (request.preset) {
+      preset = await storage.getImagePreset(request.preset);
+      if (!preset) {
+        throw new PresetNotFoundError(request.preset);
+      }
+    }
+
+    const dimensions = request.printSize
+      ? this.printSizeToDimensions(request.printSize, dpi)
+      : request.dimensions || (preset ? this.toDimensions(preset) : undefined);
+    if (!dimensions) {
+      throw new OutputOptionsError('A preset, dimensions or a print size is required');
+    }
+
+    return {
+      dimensions: dimensionsSchema.parse(dimensions),
+      format: request.format || (preset?.format as OutputFormat | undefined) || 'jpeg',
+      fit: request.fit || (preset?.fit as FitMode | undefined) || 'cover',
+      background: request.background || preset?.background || '#ffffff',
+      gravity: request.gravity || 'center',
+      cropStrategy: request.cropStrategy || 'gravity',
+      cropMargin: request.cropMargin ?? 5,
+      normalizeBackground: request.normalizeBackground ?? false,
+      trimTolerance: request.trimTolerance ?? 10,
+      fillRatio: request.fillRatio ?? 0.85,
+      printSize: request.printSize,
+      preset: preset?.id,
+    };
+  }
+
+  toDimensions(preset: Pick<ImagePreset, 'width' | 'height'>): string {
+    return `${preset.width ?? 'auto'}x${preset.height ?? 'auto'}`;
+  }
+
+  // Physical size × DPI = pixels, e.g. 4in at 300 DPI = 1200px
+  printSizeToDimensions(printSize: PrintSize, dpi?: number): string {
+    if (!dpi) {
+      throw new OutputOptionsError('A DPI is required for print-size output');
+    }
+
+    const toPixels = (size?: number) => {
+      if (!size) return undefined;
+      const inches = printSize.unit === 'mm' ? size / MM_PER_INCH : size;
+      return Math.max(1, Math.round(inches * dpi));
+    };
+
+    const width = toPixels(printSize.width);
+    const height = toPixels(printSize.height);
+    if ((width ?? 0) > MAX_OUTPUT_DIMENSION || (height ?? 0) > MAX_OUTPUT_DIMENSION) {
+      throw new OutputOptionsError(
+        `Print size ${printSize.width ?? 'auto'} × ${printSize.height ?? 'auto'} ${printSize.unit} at ${dpi} DPI needs ` +
+        `${width ?? 'auto'} × ${height ?? 'auto'} px, over the ${MAX_OUTPUT_DIMENSION} px limit - lower the DPI or the size`
+      );
+    }
+
+    return `${width ?? 'auto'}x${height ?? 'auto'}`;
+  }
+}
+
+export const presetService = new PresetService();
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { randomUUID } from "crypto";
+import { FakeShopify } from "../testing/fakeShopify";
+import { buildFakeProduct, sendFakeWebhook, type FakeProductOptions } from "../testing/fakeWebhook";
+
+vi.hoisted(() => {
+  process.env.MAX_BATCH_ITEMS = "2";
+  process.env.CATALOG_SYNC_INTERVAL_MINUTES = "0";
+});
+
+const SECRET = "webhook-secret";
+const SHOP = "us.myshopify.com";
+const square = { preset: "square", dimensions: "600x600", format: "jpeg", fit: "cover", background: "#ffffff", dpi: 300 };
+const standard = { preset: "standard", dimensions: "342x427", format: "jpeg", fit: "cover", background: "#ffffff", dpi: 300 };
+
+describe("product webhooks", () => {
+  let shopify: FakeShopify;
+  let server: Server;
+  let webhookUrl: string;
+  // Loaded once SHOPIFY_STORES points at the fake server
+  let storage: typeof import("../storage").storage;
+  let queueProcessor: typeof import("./queueProcessor").queueProcessor;
+
+  beforeAll(async () => {
+    shopify = await new FakeShopify().start();
+    vi.stubEnv("SHOPIFY_STORES", JSON.stringify([{ id: "us", domain: SHOP, accessToken: "shpat_test", apiUrl: shopify.url, webhookSecret: SECRET }]));
+    ({ storage } = await import("../storage"));
+    ({ queueProcessor } = await import("./queueProcessor"));
+    const { registerRoutes } = await import("../routes");
+    const { shopifyStores } = await import("./shopifyStores");
+
+    const app = express();
+    app.use(express.json({ verify: (req, _res, buf) => { (req as { rawBody?: Buffer }).rawBody = buf; } }));
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/shopify/products`;
+
+    // The startup sync mustn't drop products indexed from webhooks later on
+    await vi.waitFor(async () => {
+      expect((await shopifyStores.get("us").catalog.getStatus()).state?.lastFullSyncAt).toBeTruthy();
+    });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await shopify.close();
+    vi.unstubAllEnvs();
+  });
+
+  // Image URLs on the fake server 404, so the queued conversions fail fast
+  const deliver = (product: Omit<FakeProductOptions, "images">, options: { webhookId?: string; badSignature?: boolean; shop?: string } = {}) =>
+    sendFakeWebhook({
+      url: webhookUrl,
+      secret: SECRET,
+      shop: options.shop ?? SHOP,
+      body: JSON.stringify(buildFakeProduct({ ...product, images: [`${shopify.url}/images/${product.productId}-v2.jpg`] })),
+      webhookId: options.webhookId,
+      badSignature: options.badSignature,
+    });
+
+  it("rejects deliveries with a bad signature or from an unknown shop", async () => {
+    const product = { productId: 101, title: "Unsigned", skus: ["WH-101"] };
+    await storage.recordSkuConversion("us", "WH-101", square);
+
+    expect((await deliver(product, { badSignature: true })).status).toBe(401);
+    expect((await deliver(product, { shop: "other.myshopify.com" })).status).toBe(401);
+    expect((await storage.findSkuConversions("us", ["WH-101"]))).toHaveLength(1);
+  });
+
+  it("queues jobs with each recorded preset, at most MAX_BATCH_ITEMS SKUs per job", async () => {
+    const skus = ["WH-1", "WH-2", "WH-3"];
+    for (const sku of skus) await storage.recordSkuConversion("us", sku.toLowerCase(), square);
+    await storage.recordSkuConversion("us", "WH-2", standard);
+
+    const response = await deliver({ productId: 102, title: "Split", skus });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+
+    expect(result).toMatchObject({ imagesChanged: true, duplicate: false });
+    expect(result.skus.sort()).toEqual(skus);
+    const jobs = result.jobs.map((job: { preset: string; skus: string[] }) => [job.preset, job.skus]);
+    expect(jobs).toHaveLength(3);
+    expect(jobs).toEqual(expect.arrayContaining([["square", ["WH-1", "WH-2"]], ["square", ["WH-3"]], ["standard", ["WH-2"]]]));
+
+    const queued = await queueProcessor.getJob(result.jobs[0].jobId);
+    expect(queued!.options).toMatchObject({ preset: result.jobs[0].preset, storeId: "us" });
+    expect(queued!.items.map(item => item.input)).toEqual(result.jobs[0].skus);
+  });
+
+  it("ignores a redelivery of a handled webhook", async () => {
+    await storage.recordSkuConversion("us", "WH-201", square);
+    const webhookId = randomUUID();
+    const product = { productId: 103, title: "Repeated", skus: ["WH-201"] };
+
+    const first = await (await deliver(product, { webhookId })).json();
+    expect(first.jobs).toHaveLength(1);
+
+    const repeated = await (await deliver(product, { webhookId })).json();
+    expect(repeated).toMatchObject({ duplicate: true, jobs: [] });
+    expect((await storage.getWebhookDelivery(webhookId))?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("only queues the missing jobs when Shopify redelivers after a failure", async () => {
+    for (const sku of ["WH-301", "WH-302", "WH-303"]) await storage.recordSkuConversion("us", sku, square);
+    const webhookId = randomUUID();
+    const product = { productId: 104, title: "Partial", skus: ["WH-301", "WH-302", "WH-303"] };
+
+    const addBatchJob = queueProcessor.addBatchJob.bind(queueProcessor);
+    const spy = vi.spyOn(queueProcessor, "addBatchJob")
+      .mockImplementationOnce(addBatchJob)
+      .mockRejectedValueOnce(new Error("Storage unavailable"));
+
+    expect((await deliver(product, { webhookId })).status).toBe(500);
+    const partial = await storage.getWebhookDelivery(webhookId);
+    expect(partial).toMatchObject({ completedAt: null, jobs: [{ jobId: expect.any(String) }] });
+
+    spy.mockImplementation(addBatchJob);
+    const response = await deliver(product, { webhookId });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+
+    // The images are already indexed by now, but the unfinished delivery still counts as a change
+    expect(result.imagesChanged).toBe(true);
+    expect(result.jobs.map((job: { jobId: string }) => job.jobId)).toContain(partial!.jobs[0].jobId);
+    expect(result.jobs.flatMap((job: { skus: string[] }) => job.skus)).toEqual(["WH-301", "WH-302", "WH-303"]);
+    expect(spy).toHaveBeenCalledTimes(3);
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,146 @@
+import { normalizeSku, type CatalogImage, type ProductWebhook, type WebhookDelivery } from "@shared/schema";
+import { storage } from "../storage";
+import { queueProcessor, batchLimits, type BatchJobOptions } from "./queueProcessor";
+import type { ShopifyService } from "./shopify";
+
+export const PRODUCT_WEBHOOK_TOPICS = ['products/create', 'products/update'];
+
+// Shopify retries a delivery for up to 48 hours, so deliveries are remembered for a week
+const WEBHOOK_DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface RegenerationJob {
+  jobId: string;
+  skus: string[];
+  preset?: string;
+  dimensions: string;
+  format: string;
+}
+
+export interface ProductWebhookResult {
+  productId: number;
+  imagesChanged: boolean;
+  duplicate: boolean;
+  skus: string[]; // the product's SKUs with earlier conversions
+  jobs: RegenerationJob[];
+}
+
+// Images are replaced with new ids, and edited in place with a new ?v= on the same id
+function imagesChanged(previous: CatalogImage[] | null, product: ProductWebhook): boolean {
+  if (!previous) return true;
+  const current = [...product.images].sort((a, b) => a.position - b.position);
+  return previous.length !== current.length ||
+    previous.some((image, index) => image.id !== current[index].id || image.src !== current[index].src);
+}
+
+// Keeps converted images in step with Shopify: when a product's photos change, every SKU of
+// the product that was converted before is converted again with each of its earlier settings,
+// one batch job per distinct settings (split into jobs of at most MAX_BATCH_ITEMS SKUs).
+// Shopify retries a delivery until it gets a 2xx, so deliveries are recorded by webhook id:
+// each queued job is saved as it's queued and the delivery is marked complete after the last,
+// so a redelivery after a failure only queues the jobs that are still missing.
+class ProductWebhooks {
+  private inFlight = new Set<string>();
+
+  async handle(store: ShopifyService, webhookId: string | undefined, product: ProductWebhook): Promise<ProductWebhookResult> {
+    const result: ProductWebhookResult = { productId: product.id, imagesChanged: false, duplicate: false, skus: [], jobs: [] };
+    if (!webhookId) {
+      return await this.regenerate(store, product, result);
+    }
+
+    // A redelivery can arrive while the first delivery is still being handled
+    if (this.inFlight.has(webhookId)) {
+      console.log(`🔁 Ignoring repeated webhook ${webhookId} for product ${product.id}`);
+      return { ...result, duplicate: true };
+    }
+
+    this.inFlight.add(webhookId);
+    try {
+      const delivery = await storage.getWebhookDelivery(webhookId);
+      if (delivery?.completedAt) {
+        console.log(`🔁 Ignoring repeated webhook ${webhookId} for product ${product.id}`);
+        return { ...result, duplicate: true };
+      }
+      return await this.regenerate(store, product, result, { webhookId, stored: delivery });
+    } finally {
+      this.inFlight.delete(webhookId);
+    }
+  }
+
+  // Forgets deliveries Shopify won't send again
+  async cleanupOldDeliveries(): Promise<number> {
+    const deleted = await storage.deleteWebhookDeliveriesBefore(new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_MS));
+    if (deleted > 0) {
+      console.log(`🧹 Forgot ${deleted} old webhook delivery record(s)`);
+    }
+    return deleted;
+  }
+
+  private async regenerate(
+    store: ShopifyService,
+    product: ProductWebhook,
+    result: ProductWebhookResult,
+    { webhookId, stored }: { webhookId?: string; stored?: WebhookDelivery } = {}
+  ): Promise<ProductWebhookResult> {
+    // Batch jobs look products up in the index, so it has to have the new images first.
+    // An unfinished delivery is only recorded once the images were found changed - the index
+    // already has them by the time Shopify sends it again.
+    const previous = await store.catalog.indexWebhookProduct(product);
+    result.imagesChanged = !!stored || imagesChanged(previous, product);
+    const delivery = webhookId
+      ? stored ?? { id: webhookId, storeId: store.id, productId: product.id, jobs: [], receivedAt: new Date(), completedAt: null }
+      : undefined;
+    if (!result.imagesChanged) {
+      if (delivery) await storage.saveWebhookDelivery({ ...delivery, completedAt: new Date() });
+      return result;
+    }
+    if (delivery && !stored) {
+      await storage.saveWebhookDelivery(delivery);
+    }
+
+    // Earlier conversions may have typed the SKU in another case - jobs use the product's spelling
+    const skus = new Map(product.variants
+      .filter(variant => variant.sku?.trim())
+      .map(variant => [normalizeSku(variant.sku!), variant.sku!.trim()]));
+    const conversions = await storage.findSkuConversions(store.id, Array.from(skus.values()));
+
+    const groups = new Map<string, { settings: BatchJobOptions; skus: string[] }>();
+    for (const conversion of conversions) {
+      const group = groups.get(conversion.settingsKey) ?? { settings: conversion.settings as BatchJobOptions, skus: [] };
+      const sku = skus.get(conversion.normalizedSku)!;
+      if (!group.skus.includes(sku)) {
+        group.skus.push(sku);
+      }
+      groups.set(conversion.settingsKey, group);
+    }
+    result.skus = Array.from(new Set(Array.from(groups.values()).flatMap(group => group.skus)));
+
+    for (const [settingsKey, { settings, skus: groupSkus }] of Array.from(groups.entries())) {
+      for (let start = 0; start < groupSkus.length; start += batchLimits.maxItems) {
+        const chunk = groupSkus.slice(start, start + batchLimits.maxItems);
+        const key = `${settingsKey}#${start / batchLimits.maxItems}`;
+
+        let jobId = delivery?.jobs.find(job => job.key === key)?.jobId;
+        if (!jobId) {
+          jobId = await queueProcessor.addBatchJob(chunk.map(sku => ({ type: 'sku' as const, input: sku })), { ...settings, storeId: store.id });
+          if (delivery) {
+            delivery.jobs.push({ key, jobId });
+            await storage.saveWebhookDelivery(delivery);
+          }
+        }
+        result.jobs.push({
+          jobId,
+          skus: chunk,
+          preset: settings.preset,
+          dimensions: settings.dimensions,
+          format: settings.format
+        });
+      }
+    }
+    if (delivery) await storage.saveWebhookDelivery({ ...delivery, completedAt: new Date() });
+
+    console.log(`🔄 ${product.title}: images changed, queued ${result.jobs.length} regeneration job(s) for ${result.skus.length} SKU(s)`);
+    return result;
+  }
+}
+
+export const productWebhooks = new ProductWebhooks();
@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Readable } from "stream";
+import JSZip from "jszip";
+import { storage } from "../storage";
+import { FakeShopify, fakeCatalog } from "../testing/fakeShopify";
+import { shopifyStores } from "./shopifyStores";
+import { queueProcessor, BatchJobStateError, type BatchJobOptions } from "./queueProcessor";
+
+// One item at a time, so a job's later items wait for the first
+vi.hoisted(() => {
+  process.env.BATCH_CONCURRENCY = "1";
+});
+
+// Conversions hang until finishConversion is called or the job's downloads are aborted,
+// so the job stays in flight - unless finishConversions is set
+let conversionStarted: () => void;
+let finishConversion: () => void;
+let finishConversions = false;
+const convertedUrls: string[] = [];
+const conversionWarnings: string[] = [];
+vi.mock("./imageProcessor", () => ({
+  imageProcessor: {
+    toProcessingOptions: () => ({}),
+    processImage: (url: string, _options: unknown, signal: AbortSignal) => {
+      convertedUrls.push(url);
+      if (finishConversions) return Promise.resolve({ buffer: Buffer.from(url), warnings: conversionWarnings });
+      conversionStarted();
+      return new Promise((resolve, reject) => {
+        finishConversion = () => resolve({ buffer: Buffer.from("converted"), warnings: [] });
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+    },
+    getOutputFilename: (filename: string) => `${filename}.jpg`,
+    getContentType: () => "image/jpeg",
+  },
+}));
+
+vi.mock("./resultStore", () => {
+  const results = new Map<string, Buffer>();
+  return {
+    resultStore: {
+      put: async (key: string, buffer: Buffer) => { results.set(key, buffer); },
+      createReadStream: (key: string) => Readable.from([results.get(key)!]),
+    },
+    createLazyReadStream: (store: { createReadStream: (key: string) => Readable }, key: string) => store.createReadStream(key),
+  };
+});
+
+function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  return new Promise((resolve, reject) => {
+    stream.on("data", chunk => chunks.push(Buffer.from(chunk)));
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+const nextConversion = () => new Promise<void>(resolve => { conversionStarted = resolve; });
+
+const options = { dimensions: "342x427", format: "jpeg", dpi: 300 } as BatchJobOptions;
+
+async function waitForStatus(jobId: string, status: string) {
+  await vi.waitFor(async () => {
+    expect((await queueProcessor.getJob(jobId))?.status).toBe(status);
+  });
+}
+
+describe("queueProcessor job controls", () => {
+  it("keeps a cancel when a pause or resume arrives before the job has stopped", async () => {
+    const started = nextConversion();
+    const jobId = await queueProcessor.addBatchJob([{ type: "url", input: "https://cdn.example.com/photo.jpg" }], options);
+    await started;
+
+    await queueProcessor.cancelJob(jobId);
+    await expect(queueProcessor.pauseJob(jobId)).rejects.toThrow(BatchJobStateError);
+    await expect(queueProcessor.resumeJob(jobId)).rejects.toThrow(BatchJobStateError);
+
+    await waitForStatus(jobId, "cancelled");
+    const job = await queueProcessor.getJob(jobId);
+    expect(job!.items[0].status).toBe("cancelled");
+    expect(job!.progress.cancelled).toBe(1);
+  });
+
+  it("keeps running when a resume arrives while the pause is being saved", async () => {
+    let started = nextConversion();
+    const jobId = await queueProcessor.addBatchJob([
+      { type: "url", input: "https://cdn.example.com/first.jpg" },
+      { type: "url", input: "https://cdn.example.com/second.jpg" },
+    ], options);
+    await started;
+    await queueProcessor.pauseJob(jobId);
+
+    // Hold the paused status write until the resume is in
+    const updateBatchJob = storage.updateBatchJob.bind(storage);
+    let pauseSaving!: () => void;
+    const pauseWritten = new Promise<void>(resolve => { pauseSaving = resolve; });
+    let savePause!: () => void;
+    const spy = vi.spyOn(storage, "updateBatchJob").mockImplementation(async (id, updates) => {
+      if (updates.status === "paused") {
+        pauseSaving();
+        await new Promise<void>(resolve => { savePause = resolve; });
+      }
+      return updateBatchJob(id, updates);
+    });
+
+    started = nextConversion();
+    finishConversion();
+    await pauseWritten;
+    await queueProcessor.resumeJob(jobId);
+    savePause();
+    spy.mockRestore();
+
+    await started;
+    finishConversion();
+    await waitForStatus(jobId, "completed");
+    expect((await queueProcessor.getJob(jobId))!.progress.completed).toBe(2);
+  });
+});
+
+describe("queueProcessor SKU images", () => {
+  let shopify: FakeShopify;
+
+  beforeAll(async () => {
+    // Product 1: three images, the second variant showing the second image and the third
+    // image tagged "back"
+    const products = fakeCatalog(2, { images: 3 });
+    products[0].images[2].altText = "Product 1 - Back view";
+    shopify = await new FakeShopify(products).start();
+    vi.spyOn(shopifyStores, "get").mockReturnValue(shopify.createStore());
+    finishConversions = true;
+  });
+
+  afterAll(async () => {
+    finishConversions = false;
+    vi.restoreAllMocks();
+    await shopify.close();
+  });
+
+  const imageUrl = (product: number, position: number) =>
+    `https://cdn.shopify.com/s/files/1/0001/files/product-${product}-${position}.jpg?v=1700000000`;
+
+  async function run(skus: string[], jobOptions: Partial<BatchJobOptions>) {
+    convertedUrls.length = 0;
+    const jobId = await queueProcessor.addBatchJob(skus.map(sku => ({ type: "sku" as const, input: sku })), { ...options, ...jobOptions });
+    await vi.waitFor(async () => {
+      expect((await queueProcessor.getJob(jobId))?.status).toMatch(/completed|failed/);
+    }, { timeout: 5000 });
+    return (await queueProcessor.getJob(jobId))!;
+  }
+
+  it("converts the image the selector picks", async () => {
+    await run(["SKU-1-2"], {});
+    expect(convertedUrls).toEqual([imageUrl(1, 2)]);
+    await run(["SKU-1-2"], { imageSelector: { type: "primary" } });
+    expect(convertedUrls).toEqual([imageUrl(1, 1)]);
+    await run(["SKU-1-1"], { imageSelector: { type: "index", index: 2 } });
+    expect(convertedUrls).toEqual([imageUrl(1, 3)]);
+    await run(["SKU-1-1"], { imageSelector: { type: "alt", match: "BACK" } });
+    expect(convertedUrls).toEqual([imageUrl(1, 3)]);
+  });
+
+  it("fails items the selector finds no image for", async () => {
+    const job = await run(["SKU-1-1", "SKU-2-1"], { imageSelector: { type: "alt", match: "back" } });
+
+    expect(job.items.map(item => item.status)).toEqual(["completed", "failed"]);
+    expect(job.items[1].error).toBe("No product image matches the image selector for SKU: SKU-2-1");
+    expect(job.items[1].attempts).toBe(1);
+  });
+
+  it("converts every image in all-images mode, numbered after the SKU", async () => {
+    conversionWarnings.push("Upscaled");
+    const job = await run(["SKU-1-1", "SKU-2-2"], { imageSelector: { type: "all" } });
+    conversionWarnings.length = 0;
+
+    expect(convertedUrls).toEqual([imageUrl(1, 1), imageUrl(1, 2), imageUrl(1, 3), imageUrl(2, 1), imageUrl(2, 2), imageUrl(2, 3)]);
+    expect(job.items[0].outputs.map(output => output.filename)).toEqual(["SKU-1-1-1.jpg", "SKU-1-1-2.jpg", "SKU-1-1-3.jpg"]);
+    expect(job.items[0].outputs[2].previewUrl).toBe(`/api/batch-job/${job.id}/items/${job.items[0].id}/result/2`);
+    expect(job.items[0].warnings).toEqual(["SKU-1-1-1: Upscaled", "SKU-1-1-2: Upscaled", "SKU-1-1-3: Upscaled"]);
+
+    // Each SKU gets a folder in the ZIP
+    const zip = await JSZip.loadAsync(await streamToBuffer(await queueProcessor.createZipStream(job.id)));
+    expect(Object.keys(zip.files).filter(name => !zip.files[name].dir).sort()).toEqual([
+      "SKU-1-1/SKU-1-1-1.jpg", "SKU-1-1/SKU-1-1-2.jpg", "SKU-1-1/SKU-1-1-3.jpg",
+      "SKU-2-2/SKU-2-2-1.jpg", "SKU-2-2/SKU-2-2-2.jpg", "SKU-2-2/SKU-2-2-3.jpg",
+    ]);
+    expect(await zip.file("SKU-2-2/SKU-2-2-3.jpg")!.async("string")).toBe(imageUrl(2, 3));
+  });
+});
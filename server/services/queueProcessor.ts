@@ -1,76 +1,124 @@
 import { EventEmitter } from 'events';
-import { shopifyService } from './shopify';
+import { shopifyStores } from './shopifyStores';
 import { imageProcessor } from './imageProcessor';
+import { createLazyReadStream, resultStore } from './resultStore';
 import JSZip from 'jszip';
+import { type ResolvedOutputOptions } from './presetService';
+import { batchRetryOptions, RetryError, withRetry } from './retry';
+import { storage } from '../storage';
+import { readIntEnv } from '../config';
+import { shopifyPublisher } from './shopifyPublisher';
+import { selectProductImages, type BatchItemOutput, type BatchItemPublication, type BatchItemRecord, type BatchJobRecord, type ImageSelector, type PublishOptions, type ShopifyImage } from '@shared/schema';
+
+export type ProcessingItemType = 'sku' | 'url' | 'upload';
+
+export interface ProcessingItemOutput extends BatchItemOutput {
+  previewUrl: string;
+}
 
 export interface ProcessingItem {
   id: string;
-  type: 'sku' | 'url';
-  input: string; // SKU or URL
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  result?: {
-    filename: string;
-    buffer: Buffer;
-    previewUrl?: string;
-  };
+  type: ProcessingItemType;
+  input: string; // SKU, URL or uploaded file name
+  uploadKey?: string; // result store key of the uploaded source for 'upload' items
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  outputs: ProcessingItemOutput[]; // one per converted image, several in all-images mode
+  warnings?: string[];
   error?: string;
+  attempts: number; // tries made in the last run, including automatic retries
+  publication?: BatchItemPublication;
+}
+
+export interface BatchJobOptions extends ResolvedOutputOptions {
+  dpi: number;
+  imageSelector?: ImageSelector; // which product image SKU items convert
+  publish?: PublishOptions; // upload converted SKU images to their products
+  storeId?: string; // the Shopify store SKUs are looked up in and published to, the default store if unset
 }
 
+export type BatchJobStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
 export interface BatchJob {
   id: string;
   items: ProcessingItem[];
-  options: {
-    dimensions: string;
-    dpi: number;
-  };
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  options: BatchJobOptions;
+  status: BatchJobStatus;
   progress: {
     total: number;
     completed: number;
     failed: number;
+    cancelled: number;
   };
   startedAt?: Date;
   completedAt?: Date;
 }
 
+// A pause/resume/cancel request that doesn't fit the job's current state
+export class BatchJobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchJobStateError';
+  }
+}
+
+export class BatchJobNotFoundError extends Error {
+  constructor(message = 'Job not found') {
+    super(message);
+    this.name = 'BatchJobNotFoundError';
+  }
+}
+
+// Control state of the job that is currently running
+interface RunningJob {
+  controller: AbortController; // aborted on cancel to stop in-flight downloads
+  stopReason?: 'paused' | 'cancelled';
+}
+
+// MAX_BATCH_ITEMS caps the size of a single batch job; BATCH_CONCURRENCY is how many
+// of its items are downloaded and converted at the same time
+export const batchLimits = {
+  maxItems: readIntEnv('MAX_BATCH_ITEMS', 2000, 1),
+  concurrency: readIntEnv('BATCH_CONCURRENCY', 10, 1),
+};
+
+// Jobs, items and their states live in storage and results in the result store, so a
+// restart only loses the in-flight work, which is picked up again by resumePendingJobs()
 class QueueProcessor extends EventEmitter {
-  private jobs = new Map<string, BatchJob>();
   private processingQueue: string[] = [];
   private isProcessing = false;
-  private readonly BATCH_SIZE = 10; // Process 10 items at a time - optimized for 30 SKUs
-  private readonly CONCURRENT_BATCHES = 3; // Process 3 batches simultaneously
+  private running = new Map<string, RunningJob>();
 
   constructor() {
     super();
   }
 
-  async addBatchJob(items: Array<{ type: 'sku' | 'url'; input: string }>, options: { dimensions: string; dpi: number }): Promise<string> {
+  async addBatchJob(
+    items: Array<{ type: ProcessingItemType; input: string; upload?: Buffer }>,
+    options: BatchJobOptions
+  ): Promise<string> {
     const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const processingItems: ProcessingItem[] = items.map((item, index) => ({
-      id: `${jobId}_item_${index}`,
-      type: item.type,
-      input: item.input,
-      status: 'pending'
+
+    // Uploaded sources go to the result store first so the job can be resumed from them
+    const itemRecords = await Promise.all(items.map(async (item, index) => {
+      const id = `${jobId}_item_${index}`;
+      let uploadKey: string | undefined;
+      if (item.upload) {
+        uploadKey = `${jobId}/uploads/${id}`;
+        await resultStore.put(uploadKey, item.upload);
+      }
+      return { id, jobId, position: index, type: item.type, input: item.input, uploadKey };
     }));
 
-    const job: BatchJob = {
+    await storage.createBatchJob({
       id: jobId,
-      items: processingItems,
       options,
-      status: 'pending',
-      progress: {
-        total: items.length,
-        completed: 0,
-        failed: 0
-      }
-    };
+      total: items.length,
+    }, itemRecords);
 
-    this.jobs.set(jobId, job);
     this.processingQueue.push(jobId);
-    
+
     console.log(`🚀 Added job ${jobId} with ${items.length} items to queue`);
-    
+
     // Start processing if not already running
     if (!this.isProcessing) {
       this.startProcessing();
@@ -79,8 +127,42 @@ class QueueProcessor extends EventEmitter {
     return jobId;
   }
 
-  getJob(jobId: string): BatchJob | undefined {
-    return this.jobs.get(jobId);
+  getStats() {
+    return {
+      queuedJobs: this.processingQueue.length,
+      runningJobs: this.running.size
+    };
+  }
+
+  async getJob(jobId: string): Promise<BatchJob | undefined> {
+    const record = await storage.getBatchJob(jobId);
+    if (!record) return undefined;
+
+    const items = await storage.getBatchItems(jobId);
+    return this.toBatchJob(record, items);
+  }
+
+  // Re-queues jobs that were pending or mid-way when the server stopped
+  async resumePendingJobs() {
+    const jobs = await storage.getBatchJobsByStatus(['pending', 'processing']);
+    if (jobs.length === 0) return;
+
+    for (const job of jobs) {
+      // Items that were being processed when the server stopped start over
+      const items = await storage.getBatchItems(job.id);
+      await Promise.all(items
+        .filter(item => item.status === 'processing')
+        .map(item => storage.updateBatchItem(item.id, { status: 'pending' })));
+
+      if (!this.processingQueue.includes(job.id)) {
+        this.processingQueue.push(job.id);
+      }
+    }
+
+    console.log(`♻️ Resuming ${jobs.length} interrupted batch job(s)`);
+    if (!this.isProcessing) {
+      this.startProcessing();
+    }
   }
 
   private async startProcessing() {
@@ -93,143 +175,446 @@ class QueueProcessor extends EventEmitter {
 
     while (this.processingQueue.length > 0) {
       const jobId = this.processingQueue.shift()!;
-      const job = this.jobs.get(jobId);
-      
-      if (!job) continue;
 
-      await this.processJob(job);
+      try {
+        const job = await this.getJob(jobId);
+        // Skip jobs paused or cancelled while they were waiting
+        if (!job || (job.status !== 'pending' && job.status !== 'processing')) continue;
+
+        await this.processJob(job);
+      } catch (error) {
+        console.error(`❌ Failed to run job ${jobId}:`, error);
+      }
     }
 
     this.isProcessing = false;
     console.log(`✅ Queue processing completed`);
   }
 
-  private async processJob(job: BatchJob) {
-    console.log(`📋 Processing job ${job.id} with ${job.items.length} items`);
-    
-    job.status = 'processing';
-    job.startedAt = new Date();
-    this.emit('jobProgress', job);
+  // Pausing lets in-flight items finish; pending items stay pending until resumed
+  async pauseJob(jobId: string): Promise<BatchJob> {
+    const job = await this.requireJob(jobId);
+    if (job.status !== 'pending' && job.status !== 'processing') {
+      throw new BatchJobStateError(`Job is ${job.status} and can't be paused`);
+    }
 
-    // Split items into batches
-    const batches = this.createBatches(job.items, this.BATCH_SIZE);
-    console.log(`📦 Split into ${batches.length} batches of max ${this.BATCH_SIZE} items`);
+    const running = this.running.get(jobId);
+    // Cancelled but still processing until its aborted items have stopped
+    if (running?.stopReason === 'cancelled') {
+      throw new BatchJobStateError('Job is being cancelled and can\'t be paused');
+    }
+    if (running) {
+      // processJob records the paused state once in-flight items have finished
+      running.stopReason = 'paused';
+    } else {
+      this.processingQueue = this.processingQueue.filter(id => id !== jobId);
+      await this.setJobStatus(job, 'paused');
+    }
 
-    // Process batches concurrently
-    const batchPromises = batches.map((batch, index) => 
-      this.processBatch(job, batch, index)
-    );
+    console.log(`⏸️ Pausing job ${jobId}`);
+    return job;
+  }
 
-    try {
-      await Promise.all(batchPromises);
-      job.status = 'completed';
+  async resumeJob(jobId: string): Promise<BatchJob> {
+    const job = await this.requireJob(jobId);
+    const running = this.running.get(jobId);
+    if (running?.stopReason === 'cancelled') {
+      throw new BatchJobStateError('Job is being cancelled and can\'t be resumed');
+    }
+
+    // Paused while its last items were still in flight - just keep it running
+    if (running?.stopReason === 'paused') {
+      running.stopReason = undefined;
+      return job;
+    }
+    if (job.status !== 'paused') {
+      throw new BatchJobStateError(`Job is ${job.status} and can't be resumed`);
+    }
+
+    await this.setJobStatus(job, 'pending');
+    this.processingQueue.push(jobId);
+    console.log(`▶️ Resuming job ${jobId}`);
+
+    if (!this.isProcessing) {
+      this.startProcessing();
+    }
+    return job;
+  }
+
+  // Cancelling aborts in-flight downloads and marks every unfinished item as cancelled
+  async cancelJob(jobId: string): Promise<BatchJob> {
+    const job = await this.requireJob(jobId);
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      throw new BatchJobStateError(`Job is already ${job.status}`);
+    }
+
+    const running = this.running.get(jobId);
+    if (running) {
+      // processJob records the cancellation once in-flight items have stopped
+      running.stopReason = 'cancelled';
+      running.controller.abort();
+    } else {
+      this.processingQueue = this.processingQueue.filter(id => id !== jobId);
+      await this.cancelPendingItems(job);
       job.completedAt = new Date();
-      console.log(`✅ Job ${job.id} completed successfully`);
-    } catch (error) {
-      job.status = 'failed';
-      console.error(`❌ Job ${job.id} failed:`, error);
+      await this.setJobStatus(job, 'cancelled');
+    }
+
+    console.log(`⏹️ Cancelling job ${jobId}`);
+    return job;
+  }
+
+  // Puts failed (or cancelled) items back in the queue. Without itemIds every failed item is retried.
+  async retryItems(jobId: string, itemIds?: string[]): Promise<BatchJob> {
+    const job = await this.requireJob(jobId);
+    if (job.status === 'pending' || job.status === 'processing') {
+      throw new BatchJobStateError('Wait for the job to finish or pause it before retrying items');
+    }
+
+    const items = itemIds
+      ? itemIds.map(itemId => {
+          const item = job.items.find(item => item.id === itemId);
+          if (!item) throw new BatchJobNotFoundError(`Item not found: ${itemId}`);
+          if (item.status !== 'failed' && item.status !== 'cancelled') {
+            throw new BatchJobStateError(`Item is ${item.status} and can't be retried`);
+          }
+          return item;
+        })
+      : job.items.filter(item => item.status === 'failed');
+    if (items.length === 0) {
+      throw new BatchJobStateError('No failed items to retry');
+    }
+
+    for (const item of items) {
+      if (item.status === 'failed') job.progress.failed--;
+      if (item.status === 'cancelled') job.progress.cancelled--;
+      item.status = 'pending';
+      item.error = undefined;
+      item.attempts = 0;
+      await storage.updateBatchItem(item.id, { status: item.status, error: null, attempts: 0 });
+      this.emit('itemProgress', { jobId: job.id, item });
+    }
+    await storage.updateBatchJob(job.id, { failed: job.progress.failed, cancelled: job.progress.cancelled });
+    console.log(`🔁 Retrying ${items.length} item(s) of job ${jobId}`);
+
+    // A paused job picks the items up when it's resumed
+    if (job.status === 'paused') {
+      this.emit('jobProgress', job);
+      return job;
+    }
+
+    job.completedAt = undefined;
+    await this.setJobStatus(job, 'pending');
+    this.processingQueue.push(jobId);
+    if (!this.isProcessing) {
+      this.startProcessing();
+    }
+    return job;
+  }
+
+  private async requireJob(jobId: string): Promise<BatchJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new BatchJobNotFoundError();
     }
+    return job;
+  }
 
+  private async setJobStatus(job: BatchJob, status: BatchJobStatus) {
+    job.status = status;
+    await storage.updateBatchJob(job.id, {
+      status,
+      completedAt: job.completedAt ?? null,
+      cancelled: job.progress.cancelled
+    });
+    this.emit('jobStatus', job);
     this.emit('jobProgress', job);
   }
 
-  private async processBatch(job: BatchJob, batch: ProcessingItem[], batchIndex: number) {
-    console.log(`🔄 Processing batch ${batchIndex + 1} with ${batch.length} items`);
+  private async cancelPendingItems(job: BatchJob) {
+    for (const item of job.items.filter(item => item.status === 'pending')) {
+      item.status = 'cancelled';
+      job.progress.cancelled++;
+      await storage.updateBatchItem(item.id, { status: item.status });
+      this.emit('itemProgress', { jobId: job.id, item });
+    }
+  }
+
+  private async processJob(job: BatchJob) {
+    const pendingItems = job.items.filter(item => item.status === 'pending');
+    console.log(`📋 Processing job ${job.id} with ${pendingItems.length} of ${job.items.length} items left`);
+
+    const running: RunningJob = { controller: new AbortController() };
+    this.running.set(job.id, running);
 
-    const { width, height } = imageProcessor.parseDimensions(job.options.dimensions);
+    job.startedAt = job.startedAt || new Date();
+    await storage.updateBatchJob(job.id, { startedAt: job.startedAt });
+    await this.setJobStatus(job, 'processing');
 
-    // Process items in this batch concurrently
-    const itemPromises = batch.map(item => this.processItem(job, item, width, height, job.options.dpi));
-    await Promise.all(itemPromises);
+    // Workers pull one item at a time, so a pause or cancel stops new items from starting
+    const queue = [...pendingItems];
+    const worker = async () => {
+      while (!running.stopReason && queue.length > 0) {
+        await this.processItem(job, queue.shift()!, running.controller.signal);
+      }
+    };
 
-    console.log(`✅ Completed batch ${batchIndex + 1}`);
+    try {
+      for (;;) {
+        // A resume can land after the workers stopped for a pause - start them again then
+        do {
+          await Promise.all(Array.from({ length: Math.min(batchLimits.concurrency, queue.length) }, worker));
+        } while (!running.stopReason && queue.length > 0);
+        if (running.stopReason !== 'paused') break;
+
+        await this.setJobStatus(job, 'paused');
+        // ...or while the pause was being saved, when resumeJob still sees the job running
+        if (running.stopReason === 'paused') {
+          console.log(`⏸️ Job ${job.id} paused`);
+          return;
+        }
+        if (!running.stopReason) await this.setJobStatus(job, 'processing');
+      }
+
+      if (running.stopReason === 'cancelled') {
+        await this.cancelPendingItems(job);
+        job.completedAt = new Date();
+        await this.setJobStatus(job, 'cancelled');
+        console.log(`⏹️ Job ${job.id} cancelled`);
+      } else {
+        job.completedAt = new Date();
+        await this.setJobStatus(job, 'completed');
+        console.log(`✅ Job ${job.id} completed successfully`);
+      }
+    } catch (error) {
+      console.error(`❌ Job ${job.id} failed:`, error);
+      await this.setJobStatus(job, 'failed');
+    } finally {
+      this.running.delete(job.id);
+    }
   }
 
-  private async processItem(job: BatchJob, item: ProcessingItem, width: number, height: number, dpi: number) {
+  private async processItem(job: BatchJob, item: ProcessingItem, signal: AbortSignal) {
+    const { format } = job.options;
+
     try {
       console.log(`🖼️ Processing ${item.type}: ${item.input}`);
       item.status = 'processing';
+      await storage.updateBatchItem(item.id, { status: item.status });
       this.emit('itemProgress', { jobId: job.id, item });
 
-      let imageUrl: string;
-      let filename: string;
-
-      if (item.type === 'sku') {
-        // Get product from Shopify
-        const product = await shopifyService.getProductBySku(item.input);
-        if (!product || !product.images.length) {
-          throw new Error(`Product or image not found for SKU: ${item.input}`);
+      // Transient Shopify/CDN failures are retried with backoff, permanent ones fail right away
+      const { product, results } = await withRetry(async (attempt) => {
+        item.attempts = attempt;
+        return await this.fetchAndProcess(job, item, signal);
+      }, batchRetryOptions, {
+        signal,
+        onRetry: (attempt, error, delayMs) => {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.log(`🔁 Retrying ${item.type}: ${item.input} in ${delayMs}ms (attempt ${attempt + 1}/${batchRetryOptions.attempts}) - ${message}`);
         }
-        imageUrl = product.images[0].src;
-        filename = item.input;
-      } else {
-        // Direct URL
-        imageUrl = item.input;
-        filename = this.extractFilenameFromUrl(item.input) || `url-image-${Date.now()}`;
+      });
+
+      item.outputs = [];
+      for (let index = 0; index < results.length; index++) {
+        const { processed, filename } = results[index];
+        const outputFilename = imageProcessor.getOutputFilename(filename, format);
+        const key = `${job.id}/${item.id}-${outputFilename}`;
+        await resultStore.put(key, processed.buffer);
+
+        item.outputs.push({
+          filename: outputFilename,
+          key,
+          contentType: imageProcessor.getContentType(format),
+          previewUrl: this.getPreviewUrl(job.id, item.id, index)
+        });
+      }
+      const warnings = results.flatMap(({ processed, filename }) =>
+        results.length > 1 ? processed.warnings.map(warning => `${filename}: ${warning}`) : processed.warnings
+      );
+      if (warnings.length > 0) {
+        item.warnings = warnings;
       }
 
-      // Process the image
-      const processedBuffer = await imageProcessor.processImage(imageUrl, {
-        width,
-        height,
-        dpi,
-        filename
-      });
+      // Not retried with the conversion - a half-finished publish could add the media twice.
+      // The created media are saved on the item first, so retrying the item doesn't add them again.
+      const publish = job.options.publish;
+      if (publish && product) {
+        try {
+          const store = shopifyStores.get(job.options.storeId);
+          item.publication = await shopifyPublisher.publish(store, product, item.input, results.map(({ processed, source }, index) => ({
+            buffer: processed.buffer,
+            filename: item.outputs[index].filename,
+            contentType: item.outputs[index].contentType,
+            source: source!
+          })), publish, {
+            previous: item.publication,
+            onMediaCreated: async (publication) => {
+              item.publication = publication;
+              await storage.updateBatchItem(item.id, { publication });
+            }
+          });
+        } catch (error) {
+          throw new Error(`Publishing to Shopify failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
 
-      item.result = {
-        filename: `${filename}.jpg`,
-        buffer: processedBuffer,
-        previewUrl: `data:image/jpeg;base64,${processedBuffer.toString('base64')}`
-      };
+      if (item.type === 'sku') {
+        await this.recordConversion(job, item.input);
+      }
 
       item.status = 'completed';
       job.progress.completed++;
-      
+
       console.log(`✅ Completed ${item.type}: ${item.input}`);
 
     } catch (error) {
-      console.error(`❌ Failed ${item.type}: ${item.input}`, error);
-      item.status = 'failed';
-      item.error = error instanceof Error ? error.message : 'Unknown error';
-      job.progress.failed++;
+      if (signal.aborted) {
+        console.log(`⏹️ Cancelled ${item.type}: ${item.input}`);
+        item.status = 'cancelled';
+        job.progress.cancelled++;
+      } else {
+        console.error(`❌ Failed ${item.type}: ${item.input} after ${item.attempts} attempt(s)`, error instanceof RetryError ? error.lastError : error);
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+        job.progress.failed++;
+      }
     }
 
+    await storage.updateBatchItem(item.id, {
+      status: item.status,
+      outputs: item.outputs.map(({ previewUrl: _previewUrl, ...output }) => output),
+      publication: item.publication ?? null,
+      warnings: item.warnings ?? null,
+      error: item.error ?? null,
+      attempts: item.attempts
+    });
+    await storage.updateBatchJob(job.id, {
+      completed: job.progress.completed,
+      failed: job.progress.failed,
+      cancelled: job.progress.cancelled
+    });
     this.emit('itemProgress', { jobId: job.id, item });
   }
 
-  private createBatches<T>(array: T[], batchSize: number): T[][] {
-    const batches: T[][] = [];
-    for (let i = 0; i < array.length; i += batchSize) {
-      batches.push(array.slice(i, i + batchSize));
+  // One try at resolving the item's source image(s) and converting them. In all-images mode
+  // a SKU yields one result per product image; everything else yields exactly one. SKU results
+  // keep the product and source image so they can be published back to it.
+  private async fetchAndProcess(job: BatchJob, item: ProcessingItem, signal: AbortSignal) {
+    const convert = async (filename: string, imageUrl?: string, source?: ShopifyImage) => {
+      const processingOptions = imageProcessor.toProcessingOptions(job.options, job.options.dpi, filename);
+      const processed = imageUrl
+        ? await imageProcessor.processImage(imageUrl, processingOptions, signal)
+        : await imageProcessor.processBuffer(await resultStore.get(item.uploadKey!), processingOptions);
+      return { processed, filename, source };
+    };
+
+    if (item.type === 'upload') {
+      if (!item.uploadKey || !(await resultStore.exists(item.uploadKey))) {
+        throw new Error(`Uploaded file is no longer available: ${item.input}`);
+      }
+      return { product: null, results: [await convert(imageProcessor.getUploadBasename(item.input))] };
+    }
+
+    if (item.type === 'sku') {
+      // Get product from Shopify
+      const product = await shopifyStores.get(job.options.storeId).getProductBySku(item.input, signal);
+      if (!product || !product.images.length) {
+        throw new Error(`Product or image not found for SKU: ${item.input}`);
+      }
+      const images = selectProductImages(product, item.input, job.options.imageSelector);
+      if (images.length === 0) {
+        throw new Error(`No product image matches the image selector for SKU: ${item.input}`);
+      }
+      const results = [];
+      for (const { image, basename } of images) {
+        results.push(await convert(basename, image.src, image));
+      }
+      return { product, results };
+    }
+
+    // Direct URL
+    return { product: null, results: [await convert(await this.extractFilenameFromUrl(item.input, job.options.storeId) || `url-image-${Date.now()}`, item.input)] };
+  }
+
+  private toBatchJob(record: BatchJobRecord, items: BatchItemRecord[]): BatchJob {
+    return {
+      id: record.id,
+      items: items.map(item => ({
+        id: item.id,
+        type: item.type as ProcessingItemType,
+        input: item.input,
+        uploadKey: item.uploadKey ?? undefined,
+        status: item.status as ProcessingItem['status'],
+        outputs: item.outputs.map((output, index) => ({
+          ...output,
+          previewUrl: this.getPreviewUrl(record.id, item.id, index)
+        })),
+        warnings: item.warnings ?? undefined,
+        error: item.error ?? undefined,
+        attempts: item.attempts,
+        publication: item.publication ?? undefined
+      })),
+      options: record.options as BatchJobOptions,
+      status: record.status as BatchJobStatus,
+      progress: {
+        total: record.total,
+        completed: record.completed,
+        failed: record.failed,
+        cancelled: record.cancelled
+      },
+      startedAt: record.startedAt ?? undefined,
+      completedAt: record.completedAt ?? undefined
+    };
+  }
+
+  // Results are served from the result store instead of being inlined as data URLs
+  private getPreviewUrl(jobId: string, itemId: string, index: number): string {
+    return `/api/batch-job/${jobId}/items/${itemId}/result${index > 0 ? `/${index}` : ''}`;
+  }
+
+  // Remembers the settings so a changed product photo can be re-converted the same way.
+  // Publishing is left out: re-publishing would change the product again.
+  private async recordConversion(job: BatchJob, sku: string) {
+    const { publish: _publish, storeId = shopifyStores.defaultStoreId, ...settings } = job.options;
+    try {
+      await storage.recordSkuConversion(storeId, sku, settings);
+    } catch (error) {
+      console.error(`❌ Failed to record conversion of ${sku}:`, error);
     }
-    return batches;
   }
 
-  private extractFilenameFromUrl(url: string): string | null {
+  // Images from the catalog are named after their SKU, anything else after the URL's file name
+  private async extractFilenameFromUrl(url: string, storeId?: string): Promise<string | null> {
+    const sku = await shopifyStores.get(storeId).catalog.getSkuByImageUrl(url);
+    if (sku) return sku;
+
     try {
       const urlObj = new URL(url);
       const pathname = urlObj.pathname;
       const segments = pathname.split('/');
       const lastSegment = segments[segments.length - 1];
-      
+
       if (lastSegment && lastSegment.length > 0) {
         return lastSegment.replace(/\.[^.]*$/, '');
       }
-      
+
       return urlObj.hostname.replace(/^www\./, '').replace(/\./g, '-');
     } catch {
       return null;
     }
   }
 
-  async generateZipForJob(jobId: string): Promise<Buffer> {
-    const job = this.jobs.get(jobId);
+  // Streams the ZIP as it's built - each result is read from the result store only when its
+  // entry is written, so memory use stays flat however large the batch is
+  async createZipStream(jobId: string): Promise<NodeJS.ReadableStream> {
+    const job = await this.getJob(jobId);
     if (!job) {
       throw new Error('Job not found');
     }
 
-    const completedItems = job.items.filter(item => 
-      item.status === 'completed' && item.result
+    const completedItems = job.items.filter(item =>
+      item.status === 'completed' && item.outputs.length > 0
     );
 
     if (completedItems.length === 0) {
@@ -237,28 +622,58 @@ class QueueProcessor extends EventEmitter {
     }
 
     const zip = new JSZip();
-    
-    completedItems.forEach(item => {
-      if (item.result) {
-        zip.file(item.result.filename, item.result.buffer);
+    const usedNames = new Set<string>();
+
+    const allImages = job.options.imageSelector?.type === 'all';
+    let fileCount = 0;
+
+    for (const item of completedItems) {
+      // All-images SKUs get a folder each: SKU/SKU-1.jpg, SKU/SKU-2.jpg, ...
+      const folder = allImages && item.type === 'sku' ? `${this.getUniqueName(item.input, usedNames)}/` : '';
+      for (const output of item.outputs) {
+        const name = folder ? `${folder}${output.filename}` : this.getUniqueName(output.filename, usedNames);
+        zip.file(name, createLazyReadStream(resultStore, output.key));
+        fileCount++;
       }
-    });
+    }
 
-    console.log(`📦 Generating ZIP for job ${jobId} with ${completedItems.length} files`);
-    return await zip.generateAsync({ type: 'nodebuffer' });
+    console.log(`📦 Streaming ZIP for job ${jobId} with ${fileCount} files`);
+    return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true });
   }
 
-  // Clean up old jobs (call periodically)
-  cleanupOldJobs(maxAgeMs: number = 24 * 60 * 60 * 1000) { // 24 hours default
-    const now = Date.now();
-    Array.from(this.jobs.entries()).forEach(([jobId, job]) => {
-      const jobAge = job.completedAt ? now - job.completedAt.getTime() : now - (job.startedAt?.getTime() || now);
-      if (jobAge > maxAgeMs) {
-        this.jobs.delete(jobId);
-        console.log(`🗑️ Cleaned up old job: ${jobId}`);
+  // Two items can map to the same filename (e.g. the same image uploaded twice) - number the repeats
+  private getUniqueName(filename: string, usedNames: Set<string>): string {
+    let name = filename;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = filename.replace(/(\.[^.]*)?$/, `-${i}$1`);
+    }
+    usedNames.add(name);
+    return name;
+  }
+
+  // Clean up old jobs and their stored files (call periodically)
+  async cleanupOldJobs(maxAgeMs: number = 24 * 60 * 60 * 1000) { // 24 hours default
+    const cutoff = new Date(Date.now() - maxAgeMs);
+    const jobs = await storage.getBatchJobsCreatedBefore(cutoff);
+
+    for (const job of jobs) {
+      // Leave unfinished jobs alone - they may still be running or waiting to be resumed
+      if (job.status === 'pending' || job.status === 'processing' || job.status === 'paused') continue;
+
+      await resultStore.deletePrefix(job.id);
+      await storage.deleteBatchJob(job.id);
+      console.log(`🗑️ Cleaned up old job: ${job.id}`);
+    }
+
+    // Stored files no job refers to (e.g. from a job deleted before its files were) - only
+    // once they are as old as the cutoff, so uploads of a job being created are left alone
+    for (const { prefix, modifiedAt } of await resultStore.listPrefixes()) {
+      if (modifiedAt < cutoff && !(await storage.getBatchJob(prefix))) {
+        await resultStore.deletePrefix(prefix);
+        console.log(`🗑️ Cleaned up orphaned results: ${prefix}`);
       }
-    });
+    }
   }
 }
 
-export const queueProcessor = new QueueProcessor();
\ No newline at end of file
+export const queueProcessor = new QueueProcessor();
@@ -0,0 +1,103 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Where batch results and uploaded batch sources live outside of process memory.
+// Keys are relative paths like "<jobId>/<itemId>.jpg".
+export interface ResultStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string): Readable;
+  exists(key: string): Promise<boolean>;
+  deletePrefix(prefix: string): Promise<void>; // removes everything stored for a job
+  listPrefixes(): Promise<Array<{ prefix: string; modifiedAt: Date }>>; // one per job with stored files
+}
+
+export class DiskResultStore implements ResultStore {
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so a crash never leaves a half-written result behind
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(key));
+  }
+
+  createReadStream(key: string): Readable {
+    return createReadStream(this.resolve(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  async listPrefixes(): Promise<Array<{ prefix: string; modifiedAt: Date }>> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.rootDir, { withFileTypes: true });
+    } catch {
+      return []; // nothing stored yet
+    }
+    return await Promise.all(entries
+      .filter(entry => entry.isDirectory())
+      .map(async (entry) => ({
+        prefix: entry.name,
+        modifiedAt: (await fs.stat(this.resolve(entry.name))).mtime
+      })));
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid result key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Opens the stored file on the first read, so a ZIP of thousands of results can queue
+// its entries up front without holding a file handle for each one
+export function createLazyReadStream(store: ResultStore, key: string): Readable {
+  let source: Readable | undefined;
+
+  const stream: Readable = new Readable({
+    read() {
+      if (source) {
+        source.resume();
+        return;
+      }
+      source = store.createReadStream(key)
+        .on('data', (chunk) => {
+          if (!stream.push(chunk)) source!.pause();
+        })
+        .on('end', () => stream.push(null))
+        .on('error', (error) => stream.destroy(error));
+    },
+    destroy(error, callback) {
+      source?.destroy();
+      callback(error);
+    }
+  });
+  return stream;
+}
+
+// RESULTS_DIR should point at a persistent volume in production
+export const resultsDir = process.env.RESULTS_DIR || path.resolve('data', 'results');
+
+export const resultStore: ResultStore = new DiskResultStore(resultsDir);
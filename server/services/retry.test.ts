@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import fetch from "node-fetch";
+import { HttpStatusError, isTransientError, withDownloadTimeout, withRetry } from "./retry";
+
+vi.hoisted(() => {
+  process.env.DOWNLOAD_TIMEOUT_MS = "100";
+});
+
+describe("isTransientError", () => {
+  it("classifies HTTP statuses", () => {
+    expect(isTransientError(new HttpStatusError("Failed", 503))).toBe(true);
+    expect(isTransientError(new HttpStatusError("Failed", 429))).toBe(true);
+    expect(isTransientError(new HttpStatusError("Failed", 404))).toBe(false);
+    expect(isTransientError(new Error("Product not found"))).toBe(false);
+  });
+
+  it("finds socket errors in the cause of a global fetch failure", async () => {
+    // Drops every connection without answering
+    const server = createServer((req) => req.socket.destroy());
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const error = await globalThis.fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`).catch(error => error);
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error.code).toBeUndefined();
+      expect(isTransientError(error)).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it("looks through nested causes", () => {
+    const socketError = Object.assign(new Error("Connect Timeout Error"), { code: "UND_ERR_CONNECT_TIMEOUT" });
+    const wrapped = new Error("Shopify request failed", { cause: new TypeError("fetch failed", { cause: socketError }) });
+    expect(isTransientError(wrapped)).toBe(true);
+    expect(isTransientError(new Error("Bad input", { cause: new Error("still bad") }))).toBe(false);
+  });
+
+  it("retries a failed DNS lookup but not an unknown host", () => {
+    const lookupFailure = (code: string) => new TypeError("fetch failed", { cause: Object.assign(new Error(`getaddrinfo ${code} cdn.example.com`), { code }) });
+    expect(isTransientError(lookupFailure("EAI_AGAIN"))).toBe(true);
+    expect(isTransientError(lookupFailure("ENOTFOUND"))).toBe(false);
+  });
+});
+
+describe("withDownloadTimeout", () => {
+  let server: Server;
+  let url: string;
+
+  // Sends the headers, then never finishes the body
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "image/jpeg" });
+      res.write("partial");
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/stalled.jpg`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const download = (signal?: AbortSignal) =>
+    withDownloadTimeout(async (downloadSignal) => (await fetch(url, { signal: downloadSignal })).buffer(), signal);
+
+  it("turns a stalled download into a retryable timeout", async () => {
+    let attempts = 0;
+    const error = await withRetry(() => {
+      attempts++;
+      return download();
+    }, { attempts: 2, baseDelayMs: 0, maxDelayMs: 0 }).catch(error => error);
+
+    expect(attempts).toBe(2);
+    expect(error.lastError.name).toBe("TimeoutError");
+    expect(error.transient).toBe(true);
+  });
+
+  it("reports the caller's abort as is", async () => {
+    const controller = new AbortController();
+    const pending = download(controller.signal);
+    controller.abort();
+    const error = await pending.catch(error => error);
+    expect(error.name).toBe("AbortError");
+    expect(isTransientError(error)).toBe(false);
+  });
+});
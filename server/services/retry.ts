@@ -0,0 +1,157 @@
+import { readIntEnv } from '../config';
+
+// Retry helpers for batch items - network hiccups from Shopify or the image CDN
+// shouldn't fail an item for good
+
+// An upstream HTTP response that wasn't ok; the status decides whether retrying can help
+export class HttpStatusError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+
+  static fromResponse(message: string, response: { status: number; statusText: string; headers: { get(name: string): string | null } }) {
+    return new HttpStatusError(
+      `${message}: ${response.status} ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Socket-level failures worth another try. ENOTFOUND (no such host) is left out - a mistyped
+// or dead host won't resolve next time either; EAI_AGAIN is the DNS lookup that may.
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE',
+  'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+]);
+
+// 5xx, 408 and 429 responses, timeouts and dropped connections are transient.
+// Everything else - 404s, "Product not found", images sharp can't decode - is permanent.
+// Node's fetch fails with TypeError('fetch failed') and keeps the socket error in `cause`,
+// so the cause chain is checked too.
+export function isTransientError(error: unknown): boolean {
+  for (let current = error, depth = 0; current instanceof Error && depth < 5; current = current.cause, depth++) {
+    if (current instanceof HttpStatusError) {
+      return current.status >= 500 || current.status === 408 || current.status === 429;
+    }
+    if (current.name === 'TimeoutError') return true;
+
+    const code = (current as { code?: string }).code;
+    if (code && (TRANSIENT_ERROR_CODES.has(code) || code.startsWith('UND_ERR_'))) return true;
+  }
+  return false;
+}
+
+// Image and PDF downloads are aborted after DOWNLOAD_TIMEOUT_MS so a stalled CDN can't hold
+// a fetch slot forever; uploads to Shopify's staged upload targets get UPLOAD_TIMEOUT_MS and
+// Admin API calls SHOPIFY_REQUEST_TIMEOUT_MS
+export const downloadTimeoutMs = readIntEnv('DOWNLOAD_TIMEOUT_MS', 60_000, 1);
+export const uploadTimeoutMs = readIntEnv('UPLOAD_TIMEOUT_MS', 120_000, 1);
+export const shopifyRequestTimeoutMs = readIntEnv('SHOPIFY_REQUEST_TIMEOUT_MS', 30_000, 1);
+
+// Runs a download with a signal that aborts on the caller's signal (e.g. a cancelled job) or
+// after downloadTimeoutMs. A timeout is rethrown as a TimeoutError, which is retried.
+export function withDownloadTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return withTimeout('Download', downloadTimeoutMs, fn, signal);
+}
+
+// The same for an upload, after uploadTimeoutMs
+export function withUploadTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return withTimeout('Upload', uploadTimeoutMs, fn, signal);
+}
+
+// The same for a Shopify Admin API call, after shopifyRequestTimeoutMs
+export function withRequestTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return withTimeout('Shopify request', shopifyRequestTimeoutMs, fn, signal);
+}
+
+async function withTimeout<T>(label: string, timeoutMs: number, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  try {
+    return await fn(signal ? AbortSignal.any([signal, timeout]) : timeout);
+  } catch (error) {
+    if (timeout.aborted && !signal?.aborted) {
+      const timeoutError = new Error(`${label} timed out after ${timeoutMs}ms`, { cause: error });
+      timeoutError.name = 'TimeoutError';
+      throw timeoutError;
+    }
+    throw error;
+  }
+}
+
+export interface RetryOptions {
+  attempts: number; // total tries, including the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const batchRetryOptions: RetryOptions = {
+  attempts: readIntEnv('BATCH_RETRY_ATTEMPTS', 3, 1),
+  baseDelayMs: readIntEnv('BATCH_RETRY_BASE_DELAY_MS', 500),
+  maxDelayMs: readIntEnv('BATCH_RETRY_MAX_DELAY_MS', 10_000),
+};
+
+// Exponential backoff with full jitter; a Retry-After from the server wins when it's longer
+export function getRetryDelay(attempt: number, options: RetryOptions, error?: unknown): number {
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  const delay = Math.round(Math.random() * backoff);
+  const retryAfter = error instanceof HttpStatusError ? error.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.max(delay, Math.min(retryAfter, options.maxDelayMs)) : delay;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class RetryError extends Error {
+  constructor(public lastError: unknown, public attempts: number, public transient: boolean) {
+    super(lastError instanceof Error ? lastError.message : 'Unknown error');
+    this.name = 'RetryError';
+  }
+}
+
+// Runs fn until it succeeds, hits a permanent error or runs out of attempts.
+// Failures are rethrown as a RetryError that records how many attempts were made.
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  { signal, onRetry }: { signal?: AbortSignal; onRetry?: (attempt: number, error: unknown, delayMs: number) => void } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const transient = isTransientError(error);
+      if (!transient || attempt >= options.attempts) {
+        throw new RetryError(error, attempt, transient);
+      }
+
+      const delayMs = getRetryDelay(attempt, options, error);
+      onRetry?.(attempt, error, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
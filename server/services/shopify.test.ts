@@ -0,0 +1,216 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { readFileSync } from "fs";
+import { FakeShopify, FakeResponse, fakeCatalog } from "../testing/fakeShopify";
+import { isTransientError } from "./retry";
+import { CatalogSelectionError, type ShopifyService } from "./shopify";
+
+// Give up on a throttled or stalled request straight away
+vi.hoisted(() => {
+  process.env.SHOPIFY_THROTTLE_RETRIES = "0";
+  process.env.SHOPIFY_REQUEST_TIMEOUT_MS = "200";
+});
+
+// Three /products.json pages recorded from the 2023-10 REST API (trimmed to a few products
+// each), with the Link headers that chain them through page_info cursors
+interface RecordedPage {
+  request: string;
+  headers: Record<string, string>;
+  body: { products: Array<{ variants: unknown[] }> };
+}
+const recordedPages: RecordedPage[] = JSON.parse(
+  readFileSync(new URL("../testing/fixtures/rest-products-pages.json", import.meta.url), "utf8")
+);
+const variantsPerPage = recordedPages.map(page => page.body.products.reduce((total, product) => total + product.variants.length, 0));
+
+describe("ShopifyService REST SKU fallback", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+
+  beforeAll(async () => {
+    // No products over GraphQL, so every lookup ends up scanning the REST catalog
+    shopify = await new FakeShopify().start();
+    shopify.onRest("/products.json", (url) => {
+      const pageInfo = url.searchParams.get("page_info");
+      const page = recordedPages.find(page => new URL(page.request, url).searchParams.get("page_info") === pageInfo);
+      return page ? new FakeResponse(200, page.body, page.headers) : new FakeResponse(400, { errors: "Invalid page_info" });
+    });
+    store = shopify.createStore();
+  });
+
+  beforeEach(() => {
+    shopify.requests = [];
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  const restRequests = () => shopify.requests.filter(request => request.path.startsWith("/products.json")).map(request => request.path);
+
+  it("follows the page_info cursor chain to a SKU on the last page", async () => {
+    const product = await store.getProductBySku("66p-00022n-fls");
+
+    expect(product).toMatchObject({ id: 1007, title: "Filter Holder, 47mm" });
+    // The variant without a SKU doesn't break parsing
+    expect(product!.variants.map(variant => variant.sku)).toEqual(["", "66P-00022N-FLS"]);
+    expect(restRequests()).toEqual(recordedPages.map(page => page.request));
+    expect(store.getRestScanStats().last).toEqual({
+      sku: "66p-00022n-fls",
+      found: true,
+      pages: 3,
+      variantsScanned: variantsPerPage[0] + variantsPerPage[1] + 3,
+    });
+  });
+
+  it("stops at the page with the SKU", async () => {
+    const product = await store.getProductBySku("66P-00004B-FLS");
+
+    expect(product?.id).toBe(1004);
+    expect(restRequests()).toHaveLength(2);
+    expect(store.getRestScanStats().last).toMatchObject({ found: true, pages: 2, variantsScanned: variantsPerPage[0] + 2 });
+  });
+
+  it("reads every page before giving up", async () => {
+    const before = store.getRestScanStats();
+
+    expect(await store.getProductBySku("NOT-A-SKU")).toBeNull();
+
+    const after = store.getRestScanStats();
+    const total = variantsPerPage.reduce((sum, count) => sum + count, 0);
+    expect(after.last).toEqual({ sku: "NOT-A-SKU", found: false, pages: 3, variantsScanned: total });
+    expect(after.scans).toBe(before.scans + 1);
+    expect(after.variantsScanned).toBe(before.variantsScanned + total);
+  });
+});
+
+describe("ShopifyService SKU lookup failures", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+
+  beforeAll(async () => {
+    shopify = await new FakeShopify(fakeCatalog(3)).start();
+    shopify.onRest("/products.json", () => new FakeResponse(200, { products: [] }));
+    store = shopify.createStore();
+  });
+
+  beforeEach(() => {
+    shopify.requests = [];
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  const restRequests = () => shopify.requests.filter(request => request.path.startsWith("/products.json"));
+
+  it("throws a GraphQL 5xx instead of scanning the REST catalog", async () => {
+    shopify.onGraphql("productVariantsBySku", () => new FakeResponse(503, { errors: "Service Unavailable" }));
+
+    await expect(store.getProductBySku("SKU-2-1")).rejects.toMatchObject({ status: 503 });
+    expect(restRequests()).toHaveLength(0);
+  });
+
+  it("throws when GraphQL stays throttled", async () => {
+    shopify.onGraphql("productVariantsBySku", () => new FakeResponse(200, { errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }] }));
+
+    await expect(store.getMultipleProductsBySkus(["SKU-1-1", "SKU-2-1"])).rejects.toMatchObject({ status: 429 });
+    expect(restRequests()).toHaveLength(0);
+  });
+
+  it("times out a stalled request as a transient error", async () => {
+    shopify.onGraphql("productVariantsBySku", () => new Promise(() => {}));
+
+    const error = await store.getProductBySku("SKU-1-1").catch(error => error);
+    expect(error).toMatchObject({ name: "TimeoutError", message: "Shopify request timed out after 200ms" });
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it("aborts an in-flight lookup when the caller's signal fires", async () => {
+    shopify.onGraphql("productVariantsBySku", () => new Promise(() => {}));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(store.getMultipleProductsBySkus(["SKU-1-1", "SKU-2-1"], controller.signal)).rejects.toMatchObject({ name: "AbortError" });
+    expect(shopify.operations()).toEqual(["productVariantsBySku"]);
+  });
+
+  it("falls back to REST only when GraphQL has no matching variant", async () => {
+    shopify.onGraphql("productVariantsBySku", () => ({ productVariants: { edges: [] } }));
+
+    expect(await store.getMultipleProductsBySkus(["SKU-9-9"])).toEqual({ "SKU-9-9": null });
+    expect(restRequests()).toHaveLength(1);
+  });
+});
+
+describe("ShopifyService catalog selection", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+  let searches: string[];
+
+  beforeAll(async () => {
+    // 80 products of two variants each - the selection spans two pages of 100 variants.
+    // Product 1's second variant has no SKU and product 2 repeats product 1's first SKU.
+    const products = fakeCatalog(80);
+    products[0].variants[1].sku = "  ";
+    products[1].variants[0].sku = "SKU-1-1";
+    const variants = products.flatMap(product => product.variants.map(variant => ({ sku: variant.sku, product: { id: `gid://shopify/Product/${product.id}` } })));
+
+    shopify = await new FakeShopify(products).start();
+    shopify.onGraphql("selectionVariants", ({ cursor, query }) => {
+      searches.push(query);
+      const start = cursor ? Number(cursor) : 0;
+      const page = variants.slice(start, start + 100);
+      return {
+        productVariants: {
+          pageInfo: { hasNextPage: start + 100 < variants.length, endCursor: String(start + page.length) },
+          edges: page.map(node => ({ node })),
+        },
+      };
+    });
+    shopify.onGraphql("collectionByHandle", ({ handle }) => ({
+      collectionByHandle: handle === "summer-sale" ? { id: "gid://shopify/Collection/4242" } : null,
+    }));
+    store = shopify.createStore();
+  });
+
+  beforeEach(() => {
+    searches = [];
+    shopify.requests = [];
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  it("collects every page of SKUs once, counting variants without one", async () => {
+    const selection = await store.getSkusForSelection({ by: "vendor", value: "Acme" });
+
+    expect(selection).toMatchObject({ products: 80, variantsWithoutSku: 1 });
+    expect(selection.skus).toHaveLength(158);
+    expect(selection.skus.slice(0, 3)).toEqual(["SKU-1-1", "SKU-2-2", "SKU-3-1"]);
+    expect(searches).toEqual(['vendor:"Acme"', 'vendor:"Acme"']);
+  });
+
+  it("searches by product type and tag, quoting the value", async () => {
+    await store.getSkusForSelection({ by: "productType", value: "T-Shirt" });
+    await store.getSkusForSelection({ by: "tag", value: 'say "hi"' });
+
+    expect(searches).toEqual(['product_type:"T-Shirt"', 'product_type:"T-Shirt"', 'tag:"say \\"hi\\""', 'tag:"say \\"hi\\""']);
+  });
+
+  it("looks up a collection handle, but not a collection ID", async () => {
+    await store.getSkusForSelection({ by: "collection", value: "summer-sale" });
+    await store.getSkusForSelection({ by: "collection", value: "1234" });
+
+    expect(searches).toEqual(["collection:4242", "collection:4242", "collection:1234", "collection:1234"]);
+    expect(shopify.operations().filter(operation => operation === "collectionByHandle")).toHaveLength(1);
+  });
+
+  it("throws a CatalogSelectionError for an unknown collection", async () => {
+    const error = await store.getSkusForSelection({ by: "collection", value: "winter" }).catch(error => error);
+
+    expect(error).toBeInstanceOf(CatalogSelectionError);
+    expect(error.message).toBe("Collection not found: winter");
+    expect(searches).toEqual([]);
+  });
+});
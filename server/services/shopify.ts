@@ -1,190 +1,170 @@
-import { ShopifyProduct, shopifyProductSchema } from "@shared/schema";
+import { createHmac, timingSafeEqual } from "crypto";
+import { ShopifyProduct, shopifyProductSchema, type CatalogSelection } from "@shared/schema";
+import { HttpStatusError } from "./retry";
+import { ShopifyClient } from "./shopifyClient";
+import { CatalogIndex } from "./catalogIndex";
 
-const SHOPIFY_STORE = process.env.SHOPIFY_STORE_URL || process.env.STORE_URL || process.env.SHOPIFY_STORE;
-const SHOPIFY_ACCESS_TOKEN = process.env.STORE_ACCESS_TOKEN || process.env.SHOPIFY_ACCESS_TOKEN;
+export interface ShopifyStoreConfig {
+  id: string;
+  name: string;
+  domain: string; // e.g. shopfls.myshopify.com
+  accessToken: string;
+  apiVersion: string; // e.g. 2023-10
+  apiUrl?: string; // replaces https://{domain}/admin/api/{apiVersion}, e.g. a fake Shopify server in tests
+  webhookSecret?: string; // the app's client secret, which signs its webhooks
+}
+
+// A catalog selection that matches nothing in the store, e.g. an unknown collection handle
+export class CatalogSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogSelectionError';
+  }
+}
+
+// What a REST catalog scan for a SKU found, and how much of the catalog it had to read
+export interface RestSkuScan {
+  product: ShopifyProduct | null;
+  pages: number;
+  variantsScanned: number;
+}
 
+// One Shopify store - see shopifyStores for the registry of all of them
 export class ShopifyService {
-  private baseUrl: string;
-  private headers: Record<string, string>;
+  readonly catalog: CatalogIndex; // local SKU/image index of this store's catalog
+  private client: ShopifyClient;
   private isConfigured: boolean;
+  private restScanStats = { scans: 0, pages: 0, variantsScanned: 0, last: null as (RestSkuScan & { sku: string }) | null };
 
-  constructor() {
-    this.isConfigured = !!(SHOPIFY_STORE && SHOPIFY_ACCESS_TOKEN);
-    
-    if (this.isConfigured && SHOPIFY_STORE && SHOPIFY_ACCESS_TOKEN) {
-      this.baseUrl = `https://${SHOPIFY_STORE}/admin/api/2023-10`;
-      this.headers = {
-        'X-Shopify-Access-Token': SHOPIFY_ACCESS_TOKEN,
+  constructor(private config: ShopifyStoreConfig) {
+    this.isConfigured = !!(config.domain && config.accessToken);
+    this.catalog = new CatalogIndex(this);
+
+    if (this.isConfigured) {
+      const baseUrl = config.apiUrl?.replace(/\/$/, '') || `https://${config.domain}/admin/api/${config.apiVersion}`;
+      this.client = new ShopifyClient(baseUrl, {
+        'X-Shopify-Access-Token': config.accessToken,
         'Content-Type': 'application/json',
-      };
+      });
     } else {
-      console.warn('⚠️  Shopify API not configured - missing SHOPIFY_STORE and/or SHOPIFY_ACCESS_TOKEN');
-      this.baseUrl = '';
-      this.headers = {};
+      console.warn(`⚠️  Shopify store ${config.id} not configured - missing its domain and/or access token`);
+      this.client = new ShopifyClient('', {});
     }
   }
 
-  async getProductBySku(sku: string): Promise<ShopifyProduct | null> {
+  get id(): string {
+    return this.config.id;
+  }
+
+  get configured(): boolean {
+    return this.isConfigured;
+  }
+
+  // What the client may know about the store - everything but the token
+  get info() {
+    return {
+      id: this.config.id,
+      name: this.config.name,
+      domain: this.config.domain,
+      apiVersion: this.config.apiVersion,
+      configured: this.isConfigured,
+      webhooks: !!this.config.webhookSecret
+    };
+  }
+
+  get domain(): string {
+    return this.config.domain;
+  }
+
+  // Shopify signs each webhook with a base64 HMAC-SHA256 of the raw body
+  verifyWebhook(rawBody: Buffer, hmac: string | undefined): boolean {
+    if (!this.config.webhookSecret || !hmac) return false;
+
+    const expected = createHmac('sha256', this.config.webhookSecret).update(rawBody).digest();
+    const actual = Buffer.from(hmac, 'base64');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  // Runs an Admin GraphQL query; HTTP failures and GraphQL errors both throw
+  graphql<T = any>(query: string, variables: Record<string, unknown> = {}, signal?: AbortSignal): Promise<T> {
+    return this.client.graphql<T>(query, variables, signal);
+  }
+
+  // Rate-limit budget and throttling counters, for /api/health
+  getThrottleStats() {
+    return this.client.getStats();
+  }
+
+  // How often SKU lookups fell back to scanning the catalog over REST, for /api/health
+  getRestScanStats() {
+    const { last, ...totals } = this.restScanStats;
+    return {
+      ...totals,
+      last: last && { sku: last.sku, found: !!last.product, pages: last.pages, variantsScanned: last.variantsScanned }
+    };
+  }
+
+  // `signal` aborts the Shopify requests of a lookup that's no longer needed, e.g. a cancelled job's
+  async getProductBySku(sku: string, signal?: AbortSignal): Promise<ShopifyProduct | null> {
     if (!this.isConfigured) {
-      throw new Error('Shopify API not configured. Please set SHOPIFY_STORE and SHOPIFY_ACCESS_TOKEN environment variables.');
+      throw new Error(this.notConfiguredMessage());
     }
     
     try {
       console.log(`🔍 Searching for product with variant SKU: ${sku}`);
+
+      // The local catalog index answers without any API calls
+      const indexed = await this.catalog.lookup(sku);
+      if (indexed) {
+        console.log(`✅ Found product in catalog index: ${indexed.title}`);
+        return indexed;
+      }
       
       // Try GraphQL first (more efficient)
-      const graphqlResult = await this.searchProductBySkuGraphQL(sku);
+      const graphqlResult = await this.searchProductBySkuGraphQL(sku, signal);
       if (graphqlResult) {
         console.log(`✅ Found product via GraphQL: ${graphqlResult.title}`);
         return graphqlResult;
       }
       
-      // Fallback to REST API with improved search
-      console.log(`⚠️ GraphQL search failed, trying REST API fallback...`);
-      return await this.searchProductBySkuRestImproved(sku);
+      // GraphQL found no variant with this SKU - fall back to scanning the REST catalog
+      console.log(`⚠️ No GraphQL match, trying REST API fallback...`);
+      return (await this.searchProductBySkuRestImproved(sku, signal)).product;
     } catch (error) {
       console.error('Error fetching product by SKU:', error);
       throw error;
     }
   }
 
-  private async searchProductBySkuGraphQL(sku: string): Promise<ShopifyProduct | null> {
-    try {
-      const query = `
-        query productVariantsBySku($query: String!) {
-          productVariants(first: 10, query: $query) {
-            edges {
-              node {
-                id
-                title
-                sku
-                price
-                product {
-                  id
-                  title
-                  handle
-                  variants(first: 250) {
-                    edges {
-                      node {
-                        id
-                        title
-                        sku
-                      }
-                    }
-                  }
-                  images(first: 10) {
-                    edges {
-                      node {
-                        id
-                        url
-                        altText
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        query: `sku:"${sku}"`
-      };
-
-      console.log(`📡 GraphQL query for SKU: ${sku}`);
-      
-      const response = await fetch(`${this.baseUrl}/graphql.json`, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify({ query, variables })
-      });
-
-      if (!response.ok) {
-        console.error(`❌ GraphQL API Error: ${response.status} ${response.statusText}`);
-        return null;
-      }
-
-      const result = await response.json();
-      
-      if (result.errors) {
-        console.error('❌ GraphQL errors:', result.errors);
-        return null;
-      }
-
-      const variants = result.data?.productVariants?.edges || [];
-      
-      if (variants.length === 0) {
-        console.log(`📭 No variants found with SKU: ${sku}`);
-        return null;
-      }
-
-      // Get the first matching variant's product
-      const variantNode = variants[0].node;
-      const product = variantNode.product;
-      
-      console.log(`🎯 Found matching variant: ${variantNode.sku} in product: ${product.title}`);
-
-      // Transform GraphQL response to match our schema
-      const transformedProduct = {
-        id: parseInt(product.id.replace('gid://shopify/Product/', '')),
-        title: product.title,
-        handle: product.handle,
-        variants: product.variants.edges.map((v: any) => ({
-          id: parseInt(v.node.id.replace('gid://shopify/ProductVariant/', '')),
-          sku: v.node.sku,
-          title: v.node.title,
-        })),
-        images: product.images.edges.map((img: any) => ({
-          id: parseInt(img.node.id.replace('gid://shopify/ProductImage/', '')),
-          src: img.node.url,
-          alt: img.node.altText,
-        })),
-      };
-
-      return shopifyProductSchema.parse(transformedProduct);
-    } catch (error) {
-      console.error('❌ GraphQL search error:', error);
-      return null;
-    }
-  }
-
-  async getSkuByImageUrl(imageUrl: string): Promise<string | null> {
-    if (!this.isConfigured) {
-      console.warn('⚠️ Shopify API not configured for image URL lookup');
-      return null;
-    }
-    
-    try {
-      console.log(`🔍 Reverse lookup: Finding SKU for image URL: ${imageUrl}`);
-      
-      // Extract the core image identifier from URL for searching
-      const imageIdentifier = this.extractImageIdentifier(imageUrl);
-      if (!imageIdentifier) {
-        console.log(`📭 Could not extract image identifier from URL`);
-        return null;
-      }
-      
-      console.log(`🏷️ Looking for products with image: ${imageIdentifier}`);
-      
-      const query = `
-        query findProductByImage($query: String!) {
-          products(first: 50, query: $query) {
-            edges {
-              node {
+  // Null only when Shopify answers without a matching variant. Throttling, 5xx and network
+  // errors are thrown - falling back to a REST scan of the whole catalog would only add load.
+  private async searchProductBySkuGraphQL(sku: string, signal?: AbortSignal): Promise<ShopifyProduct | null> {
+    const query = `
+      query productVariantsBySku($query: String!) {
+        productVariants(first: 1, query: $query) {
+          edges {
+            node {
+              id
+              title
+              sku
+              price
+              product {
                 id
                 title
                 handle
-                variants(first: 10) {
+                variants(first: 100) {
                   edges {
                     node {
                       id
-                      sku
                       title
+                      sku
+                      image {
+                        id
+                      }
                     }
                   }
                 }
-                images(first: 20) {
+                images(first: 100) {
                   edges {
                     node {
                       id
@@ -197,338 +177,210 @@ export class ShopifyService {
             }
           }
         }
-      `;
-
-      // Search by various patterns - try broader searches for Shopify products
-      const searchQueries = [
-        `title:*${imageIdentifier}*`,
-        `product_type:*${imageIdentifier}*`,
-        imageIdentifier,
-        `"${imageIdentifier}"`,
-        // Try searching for common product patterns
-        `title:*Vactrap*`,
-        `title:*EZBio*`
-      ];
-
-      for (const searchQuery of searchQueries) {
-        console.log(`🔎 Trying search query: ${searchQuery}`);
-        
-        const variables = { query: searchQuery };
-        
-        const response = await fetch(`${this.baseUrl}/graphql.json`, {
-          method: 'POST',
-          headers: this.headers,
-          body: JSON.stringify({ query, variables })
-        });
-
-        if (!response.ok) {
-          console.error(`❌ GraphQL API Error: ${response.status}`);
-          continue;
-        }
+      }
+    `;
 
-        const result = await response.json();
-        
-        if (result.errors) {
-          console.error('❌ GraphQL errors:', result.errors);
-          continue;
-        }
+    const variables = {
+      query: `sku:"${sku}"`
+    };
 
-        const products = result.data?.products?.edges || [];
-        console.log(`📦 Found ${products.length} products to check`);
-        
-        // Look through products to find one with matching image
-        for (const productEdge of products) {
-          const product = productEdge.node;
-          console.log(`🔍 Checking product: ${product.title}`);
-          
-          // Check if any product image matches our URL
-          for (const imageEdge of product.images.edges) {
-            const productImage = imageEdge.node;
-            console.log(`🖼️ Comparing with product image: ${productImage.url}`);
-            
-            // Compare image URLs (handle different CDN formats)
-            if (this.imagesMatch(imageUrl, productImage.url)) {
-              console.log(`✅ Found matching product: ${product.title}`);
-              
-              // Get the first variant with a SKU
-              const firstVariantWithSku = product.variants.edges.find((v: any) => v.node.sku);
-              if (firstVariantWithSku) {
-                const foundSku = firstVariantWithSku.node.sku;
-                console.log(`🎯 Found SKU: ${foundSku}`);
-                return foundSku;
-              }
-            }
-          }
-        }
-      }
-      
-      console.log(`📭 No SKU found for image URL`);
-      return null;
-      
-    } catch (error) {
-      console.error('❌ Error in reverse SKU lookup:', error);
+    console.log(`📡 GraphQL query for SKU: ${sku}`);
+    
+    const data = await this.client.graphql(query, variables, signal);
+    const variants = data?.productVariants?.edges || [];
+    
+    if (variants.length === 0) {
+      console.log(`📭 No variants found with SKU: ${sku}`);
       return null;
     }
-  }
 
-  private extractImageIdentifier(url: string): string | null {
-    try {
-      // Extract meaningful parts from Shopify URLs
-      if (url.includes('/files/')) {
-        const filenamePart = url.split('/files/')[1];
-        if (filenamePart) {
-          // Get the base name before dimensions and UUIDs
-          return filenamePart
-            .replace(/\.[^.]*$/, '') // Remove extension
-            .replace(/-\d+x\d+.*$/, '') // Remove dimensions
-            .replace(/-foxxlifesciences.*$/, '') // Remove store-specific parts
-            .split('_')[0]; // Take first part before underscores
-        }
-      }
-      
-      // Fallback: extract filename from URL
-      const pathname = new URL(url).pathname;
-      const segments = pathname.split('/');
-      const filename = segments[segments.length - 1];
-      return filename.replace(/\.[^.]*$/, '').split('-')[0].split('_')[0];
-      
-    } catch (error) {
-      return null;
-    }
-  }
+    // Get the first matching variant's product
+    const variantNode = variants[0].node;
+    const product = variantNode.product;
+    
+    console.log(`🎯 Found matching variant: ${variantNode.sku} in product: ${product.title}`);
 
-  private imagesMatch(url1: string, url2: string): boolean {
-    // Handle different CDN formats and compare core identifiers
-    try {
-      console.log(`🔗 Comparing URLs:`);
-      console.log(`   Input: ${url1}`);
-      console.log(`   Product: ${url2}`);
-      
-      // Direct URL comparison for exact matches (ignoring query parameters)
-      const cleanUrl1 = url1.split('?')[0];
-      const cleanUrl2 = url2.split('?')[0];
-      
-      if (cleanUrl1 === cleanUrl2) {
-        console.log(`✅ Direct URL match (ignoring query params)`);
-        return true;
-      }
-      
-      // Compare core identifiers
-      const id1 = this.extractImageIdentifier(url1);
-      const id2 = this.extractImageIdentifier(url2);
-      
-      console.log(`   ID1: ${id1}`);
-      console.log(`   ID2: ${id2}`);
-      
-      if (id1 && id2 && id1 === id2) {
-        console.log(`✅ Image identifier match`);
-        return true;
-      }
-      
-      // Compare pathnames
-      const path1 = new URL(url1).pathname;
-      const path2 = new URL(url2).pathname;
-      
-      console.log(`   Path1: ${path1}`);
-      console.log(`   Path2: ${path2}`);
-      
-      if (path1 === path2) {
-        console.log(`✅ Pathname match`);
-        return true;
-      }
-      
-      // Look for filename matches in paths
-      const filename1 = path1.split('/').pop()?.split('?')[0];
-      const filename2 = path2.split('/').pop()?.split('?')[0];
-      
-      if (filename1 && filename2 && filename1 === filename2) {
-        console.log(`✅ Filename match: ${filename1}`);
-        return true;
-      }
-      
-      console.log(`❌ No match found`);
-      return false;
-      
-    } catch (error) {
-      console.warn(`⚠️ Error comparing URLs:`, error);
-      return false;
-    }
+    // Transform GraphQL response to match our schema
+    const transformedProduct = {
+      id: parseInt(product.id.replace('gid://shopify/Product/', '')),
+      title: product.title,
+      handle: product.handle,
+      variants: product.variants.edges.map((v: any) => ({
+        id: parseInt(v.node.id.replace('gid://shopify/ProductVariant/', '')),
+        sku: v.node.sku ?? '',
+        title: v.node.title,
+        image_id: v.node.image ? parseInt(v.node.image.id.replace('gid://shopify/ProductImage/', '')) : null,
+      })),
+      images: product.images.edges.map((img: any) => ({
+        id: parseInt(img.node.id.replace('gid://shopify/ProductImage/', '')),
+        src: img.node.url,
+        alt: img.node.altText,
+      })),
+    };
+
+    return shopifyProductSchema.parse(transformedProduct);
   }
 
-  private async searchProductBySkuRestImproved(sku: string): Promise<ShopifyProduct | null> {
+  // Scans the whole catalog page by page. The 2023-10 REST API only paginates with the
+  // page_info cursors from the Link header - ?page=N is ignored there. Each scan's pages and
+  // variants read are added to getRestScanStats().
+  private async searchProductBySkuRestImproved(sku: string, signal?: AbortSignal): Promise<RestSkuScan> {
     try {
       console.log(`Searching variants with REST API for SKU: ${sku}`);
-      
-      // Start with a simple search through products (first page)
-      const limit = 250;
-      let totalVariantsChecked = 0;
-      
-      console.log(`Fetching products to search for SKU: ${sku}`);
-      
-      const productsResponse = await fetch(
-        `${this.baseUrl}/products.json?limit=${limit}&published_status=any`,
-        { headers: this.headers }
-      );
-
-      if (!productsResponse.ok) {
-        console.error(`Shopify API Error: ${productsResponse.status} ${productsResponse.statusText}`);
-        const errorText = await productsResponse.text();
-        console.error('Response body:', errorText);
-        throw new Error(`Shopify API error: ${productsResponse.status} ${productsResponse.statusText}`);
-      }
 
-      const productsData = await productsResponse.json();
-      
-      if (!productsData.products || productsData.products.length === 0) {
-        console.log(`No products found in store`);
-        return null;
-      }
-      
-      console.log(`Found ${productsData.products.length} products to search through`);
-      
-      // Search through all variants in all products
-      for (const product of productsData.products) {
-        if (product.variants && product.variants.length > 0) {
-          totalVariantsChecked += product.variants.length;
-          
-          for (const variant of product.variants) {
-            const variantSku = variant.sku?.trim?.() || '';
-            const targetSku = sku.trim();
-            
-            // Try both exact match and case-insensitive match
-            if (variantSku === targetSku || variantSku.toLowerCase() === targetSku.toLowerCase()) {
-              console.log(`✅ FOUND! Variant with SKU ${variantSku} (searching for ${targetSku}) in product: ${product.title}`);
-              console.log(`Product ID: ${product.id}, Variant ID: ${variant.id}`);
-              
-              return shopifyProductSchema.parse(product);
-            }
-            
-            // Log a sample of SKUs for debugging (only first few to avoid spam)
-            if (totalVariantsChecked < 50) {
-              console.log(`Checking variant SKU: "${variantSku}" against target: "${targetSku}"`);
-            }
-          }
-        }
-      }
-      
-      console.log(`❌ SKU ${sku} not found after checking ${totalVariantsChecked} variants`);
-      
-      // Try searching more variants directly
-      console.log(`Trying direct variants endpoint search for more variants...`);
-      
-      // Search through multiple pages of variants
-      for (let variantPage = 1; variantPage <= 10; variantPage++) {
-        console.log(`Checking variants page ${variantPage}...`);
-        
-        const variantsResponse = await fetch(
-          `${this.baseUrl}/variants.json?limit=250&page=${variantPage}`,
-          { headers: this.headers }
-        );
+      const targetSku = sku.trim().toLowerCase();
+      let path: string | null = '/products.json?limit=250&published_status=any';
+      let pages = 0;
+      let variantsScanned = 0;
 
-        if (!variantsResponse.ok) {
-          console.log(`Variants page ${variantPage} returned error: ${variantsResponse.status}`);
-          break;
-        }
-        
-        const variantsData = await variantsResponse.json();
-        console.log(`Variants page ${variantPage}: Found ${variantsData.variants?.length || 0} variants`);
-        
-        if (!variantsData.variants || variantsData.variants.length === 0) {
-          console.log(`No more variants at page ${variantPage}`);
-          break;
-        }
-        
-        const targetVariant = variantsData.variants?.find((v: any) => v.sku === sku);
-        if (targetVariant) {
-          console.log(`✅ Found variant via variants endpoint page ${variantPage}! Product ID: ${targetVariant.product_id}`);
-          
-          // Get the product details
-          const productResponse = await fetch(
-            `${this.baseUrl}/products/${targetVariant.product_id}.json`,
-            { headers: this.headers }
-          );
-          
-          if (productResponse.ok) {
-            const productData = await productResponse.json();
-            return shopifyProductSchema.parse(productData.product);
-          }
-        }
-      }
-      
-      console.log(`Checking more products beyond first batch...`);
-      // Try fetching more products - expand search significantly
-      for (let productPage = 2; productPage <= 20; productPage++) {
-        console.log(`Checking products page ${productPage}...`);
-        
-        const moreProductsResponse = await fetch(
-          `${this.baseUrl}/products.json?limit=250&page=${productPage}&published_status=any`,
-          { headers: this.headers }
-        );
+      while (path) {
+        const response = await this.client.rest(path, {}, signal);
 
-        if (!moreProductsResponse.ok) {
-          console.log(`Products page ${productPage} returned error: ${moreProductsResponse.status}`);
-          break;
+        if (!response.ok) {
+          console.error(`Shopify API Error: ${response.status} ${response.statusText}`);
+          const errorText = await response.text();
+          console.error('Response body:', errorText);
+          throw HttpStatusError.fromResponse('Shopify API error', response);
         }
 
-        const moreProductsData = await moreProductsResponse.json();
-        
-        if (!moreProductsData.products || moreProductsData.products.length === 0) {
-          console.log(`No more products at page ${productPage}`);
-          break;
-        }
-        
-        console.log(`Products page ${productPage}: Found ${moreProductsData.products.length} products`);
-        
-        // Search through all variants in products on this page
-        for (const product of moreProductsData.products) {
-          if (product.variants && product.variants.length > 0) {
-            for (const variant of product.variants) {
-              if (variant.sku === sku) {
-                console.log(`✅ FOUND! Variant with SKU ${sku} in product: ${product.title} (page ${productPage})`);
-                return shopifyProductSchema.parse(product);
-              }
+        const data = await response.json();
+        pages++;
+
+        for (const product of data.products || []) {
+          for (const variant of product.variants || []) {
+            variantsScanned++;
+            if ((variant.sku?.trim?.() || '').toLowerCase() === targetSku) {
+              console.log(`✅ FOUND! Variant with SKU ${variant.sku} in product: ${product.title} (page ${pages}, ${variantsScanned} variants scanned)`);
+              // Variants without a SKU come back as sku: null, like in GraphQL
+              const parsed = shopifyProductSchema.parse({
+                ...product,
+                variants: product.variants.map((v: any) => ({ ...v, sku: v.sku ?? '' }))
+              });
+              return this.recordRestScan(sku, { product: parsed, pages, variantsScanned });
             }
           }
         }
+
+        const pageInfo = this.getNextPageInfo(response.headers.get('link'));
+        path = pageInfo ? `/products.json?limit=250&page_info=${encodeURIComponent(pageInfo)}` : null;
       }
-      
-      return null;
+
+      console.log(`❌ SKU ${sku} not found after scanning ${variantsScanned} variants on ${pages} pages`);
+      return this.recordRestScan(sku, { product: null, pages, variantsScanned });
     } catch (error) {
       console.error('Error in REST API search:', error);
       throw error;
     }
   }
 
-  async getMultipleProductsBySkus(skus: string[]): Promise<Record<string, ShopifyProduct | null>> {
+  private recordRestScan(sku: string, scan: RestSkuScan): RestSkuScan {
+    this.restScanStats.scans++;
+    this.restScanStats.pages += scan.pages;
+    this.restScanStats.variantsScanned += scan.variantsScanned;
+    this.restScanStats.last = { ...scan, sku };
+    return scan;
+  }
+
+  // Pulls the cursor out of `Link: <...?page_info=abc&limit=250>; rel="next"`
+  private getNextPageInfo(linkHeader: string | null): string | null {
+    if (!linkHeader) return null;
+
+    for (const link of linkHeader.split(',')) {
+      const match = link.match(/<([^>]+)>;\s*rel="?next"?/);
+      if (match) {
+        return new URL(match[1]).searchParams.get('page_info');
+      }
+    }
+    return null;
+  }
+
+  // SKUs that don't exist map to null; a Shopify failure (throttling, 5xx, network) rejects
+  // the whole lookup rather than passing for a missing product
+  async getMultipleProductsBySkus(skus: string[], signal?: AbortSignal): Promise<Record<string, ShopifyProduct | null>> {
     const results: Record<string, ShopifyProduct | null> = {};
     
-    // Process SKUs in batches to avoid rate limits
+    // One at a time - the client holds requests back when the rate-limit budget runs low
     for (const sku of skus) {
-      try {
-        const product = await this.getProductBySku(sku);
-        results[sku] = product;
-        
-        // Small delay to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error(`Error fetching product for SKU ${sku}:`, error);
-        results[sku] = null;
-      }
+      results[sku] = await this.getProductBySku(sku, signal);
     }
 
     return results;
   }
 
+  // Expands a collection/vendor/product type/tag selection into its SKUs, in catalog order.
+  // Variants without a SKU can't be batched and are only counted.
+  async getSkusForSelection(selection: CatalogSelection): Promise<{ skus: string[]; products: number; variantsWithoutSku: number }> {
+    if (!this.isConfigured) {
+      throw new Error(this.notConfiguredMessage());
+    }
+
+    const query = `
+      query selectionVariants($cursor: String, $query: String!) {
+        productVariants(first: 100, after: $cursor, query: $query) {
+          pageInfo { hasNextPage endCursor }
+          edges { node { sku product { id } } }
+        }
+      }
+    `;
+    const searchQuery = await this.getSelectionQuery(selection);
+    console.log(`🔎 Expanding catalog selection: ${searchQuery}`);
+
+    const skus = new Set<string>();
+    const products = new Set<string>();
+    let variantsWithoutSku = 0;
+    let cursor: string | null = null;
+
+    do {
+      const data: any = await this.client.graphql(query, { cursor, query: searchQuery });
+      for (const { node } of data.productVariants.edges) {
+        products.add(node.product.id);
+        if (node.sku?.trim()) skus.add(node.sku.trim());
+        else variantsWithoutSku++;
+      }
+      cursor = data.productVariants.pageInfo.hasNextPage ? data.productVariants.pageInfo.endCursor : null;
+    } while (cursor);
+
+    console.log(`📦 Selection matched ${skus.size} SKUs in ${products.size} products`);
+    return { skus: Array.from(skus), products: products.size, variantsWithoutSku };
+  }
+
+  // Variant search syntax for a selection; collections are searched by ID, so handles are looked up first
+  private async getSelectionQuery(selection: CatalogSelection): Promise<string> {
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    switch (selection.by) {
+      case 'vendor':
+        return `vendor:${quote(selection.value)}`;
+      case 'productType':
+        return `product_type:${quote(selection.value)}`;
+      case 'tag':
+        return `tag:${quote(selection.value)}`;
+      case 'collection': {
+        if (/^\d+$/.test(selection.value)) {
+          return `collection:${selection.value}`;
+        }
+        const data = await this.client.graphql(
+          `query collectionByHandle($handle: String!) { collectionByHandle(handle: $handle) { id } }`,
+          { handle: selection.value }
+        );
+        if (!data.collectionByHandle) {
+          throw new CatalogSelectionError(`Collection not found: ${selection.value}`);
+        }
+        return `collection:${data.collectionByHandle.id.replace('gid://shopify/Collection/', '')}`;
+      }
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/products/count.json`, {
-        headers: this.headers
-      });
+      const response = await this.client.rest('/products/count.json');
       return response.ok;
     } catch {
       return false;
     }
   }
-}
 
-export const shopifyService = new ShopifyService();
+  private notConfiguredMessage(): string {
+    return `Shopify store ${this.config.id} is not configured. Set SHOPIFY_STORES, or SHOPIFY_STORE and SHOPIFY_ACCESS_TOKEN for a single store.`;
+  }
+}
@@ -0,0 +1,191 @@
+import { readIntEnv } from '../config';
+import { HttpStatusError, sleep, withRequestTimeout } from './retry';
+
+// Shopify rate-limits with leaky buckets: REST allows 40 calls that drain at 2/second,
+// GraphQL 1000 cost points restored at 50/second. Both report what's left on every
+// response, so the client keeps a local estimate and waits before it runs dry.
+class LeakyBucket {
+  private updatedAt = Date.now();
+
+  constructor(public capacity: number, public available: number, public restoreRate: number) {}
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + ((now - this.updatedAt) / 1000) * this.restoreRate);
+    this.updatedAt = now;
+  }
+
+  // How long until `cost` fits in the bucket
+  waitFor(cost: number): number {
+    this.refill();
+    const needed = Math.min(cost, this.capacity) - this.available;
+    return needed > 0 ? Math.ceil((needed / this.restoreRate) * 1000) : 0;
+  }
+
+  take(cost: number) {
+    this.refill();
+    this.available -= cost;
+  }
+
+  // Shopify's own numbers replace the estimate
+  update(available: number, capacity = this.capacity, restoreRate = this.restoreRate) {
+    this.capacity = capacity;
+    this.restoreRate = restoreRate;
+    this.available = available;
+    this.updatedAt = Date.now();
+  }
+}
+
+interface ThrottleStats {
+  requests: number;
+  throttled: number; // 429s and THROTTLED errors from Shopify
+  retries: number;
+  waits: number; // requests held back because the local budget was low
+  waitMs: number;
+}
+
+const THROTTLE_RETRY_ATTEMPTS = readIntEnv('SHOPIFY_THROTTLE_RETRIES', 5);
+const DEFAULT_QUERY_COST = 50; // estimate for queries we haven't seen a cost for yet
+const DEFAULT_THROTTLE_DELAY_MS = 2000;
+
+// REST responses carry X-Shopify-Shop-Api-Call-Limit: 32/40
+function parseCallLimit(value: string | null): { used: number; limit: number } | undefined {
+  const match = value?.match(/^(\d+)\/(\d+)$/);
+  return match ? { used: Number(match[1]), limit: Number(match[2]) } : undefined;
+}
+
+// Every Shopify Admin API call goes through here. Requests queue in order while the
+// budget is low, and throttled calls are retried after Retry-After or once the bucket refills.
+// Each request times out after SHOPIFY_REQUEST_TIMEOUT_MS; a caller's signal (e.g. a cancelled
+// batch job) aborts it, and any wait before it, straight away.
+export class ShopifyClient {
+  private restBucket = new LeakyBucket(40, 40, 2);
+  private graphqlBucket = new LeakyBucket(1000, 1000, 50);
+  private restQueue: Promise<void> = Promise.resolve();
+  private graphqlQueue: Promise<void> = Promise.resolve();
+  private queryCosts = new Map<string, number>(); // last requested cost per query
+  private restStats: ThrottleStats = { requests: 0, throttled: 0, retries: 0, waits: 0, waitMs: 0 };
+  private graphqlStats: ThrottleStats = { requests: 0, throttled: 0, retries: 0, waits: 0, waitMs: 0 };
+
+  constructor(private baseUrl: string, private headers: Record<string, string>) {}
+
+  // Takes a path under the API base URL or a full URL. Non-ok responses other than
+  // exhausted throttling retries are returned for the caller to handle.
+  async rest(pathOrUrl: string, init: { method?: string; body?: string } = {}, signal?: AbortSignal): Promise<Response> {
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.reserve('rest', 1, signal);
+      this.restStats.requests++;
+      // The timeout keeps running while the caller reads the body
+      const response = await withRequestTimeout(requestSignal => fetch(url, { ...init, headers: this.headers, signal: requestSignal }), signal);
+
+      const callLimit = parseCallLimit(response.headers.get('x-shopify-shop-api-call-limit'));
+      if (callLimit) {
+        this.restBucket.update(callLimit.limit - callLimit.used, callLimit.limit);
+      }
+
+      if (response.status !== 429) return response;
+
+      this.restStats.throttled++;
+      if (attempt > THROTTLE_RETRY_ATTEMPTS) return response;
+
+      // Shopify sends Retry-After in seconds on REST 429s
+      const retryAfterMs = HttpStatusError.fromResponse('', response).retryAfterMs ?? DEFAULT_THROTTLE_DELAY_MS;
+      this.restBucket.update(0);
+      await this.backOff(this.restStats, url, retryAfterMs, signal);
+    }
+  }
+
+  // Runs an Admin GraphQL query; HTTP failures and GraphQL errors both throw
+  async graphql<T = any>(query: string, variables: Record<string, unknown> = {}, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const estimatedCost = this.queryCosts.get(query) ?? DEFAULT_QUERY_COST;
+      await this.reserve('graphql', estimatedCost, signal);
+      this.graphqlStats.requests++;
+
+      const { response, result } = await withRequestTimeout(async (requestSignal) => {
+        const response = await fetch(`${this.baseUrl}/graphql.json`, {
+          method: 'POST',
+          headers: this.headers,
+          body: JSON.stringify({ query, variables }),
+          signal: requestSignal
+        });
+        return { response, result: response.ok ? await response.json() : undefined };
+      }, signal);
+
+      if (response.status === 429) {
+        this.graphqlStats.throttled++;
+        const error = HttpStatusError.fromResponse('Shopify GraphQL error', response);
+        if (attempt > THROTTLE_RETRY_ATTEMPTS) throw error;
+        await this.backOff(this.graphqlStats, 'graphql', error.retryAfterMs ?? DEFAULT_THROTTLE_DELAY_MS, signal);
+        continue;
+      }
+      if (!response.ok) {
+        throw HttpStatusError.fromResponse('Shopify GraphQL error', response);
+      }
+
+      const cost = result.extensions?.cost;
+      if (cost) {
+        this.queryCosts.set(query, cost.requestedQueryCost);
+        const status = cost.throttleStatus;
+        this.graphqlBucket.update(status.currentlyAvailable, status.maximumAvailable, status.restoreRate);
+      }
+
+      // Throttled queries come back as 200s with a THROTTLED error and nothing charged
+      const throttled = result.errors?.some((error: any) => error.extensions?.code === 'THROTTLED');
+      if (throttled) {
+        this.graphqlStats.throttled++;
+        if (attempt > THROTTLE_RETRY_ATTEMPTS) {
+          throw new HttpStatusError('Shopify GraphQL error: throttled', 429);
+        }
+        await this.backOff(this.graphqlStats, 'graphql', this.graphqlBucket.waitFor(cost?.requestedQueryCost ?? estimatedCost) || DEFAULT_THROTTLE_DELAY_MS, signal);
+        continue;
+      }
+
+      if (result.errors) {
+        throw new Error(`Shopify GraphQL error: ${JSON.stringify(result.errors)}`);
+      }
+      return result.data as T;
+    }
+  }
+
+  getStats() {
+    return {
+      rest: { ...this.restStats, available: Math.floor(this.restBucket.available), capacity: this.restBucket.capacity },
+      graphql: { ...this.graphqlStats, available: Math.floor(this.graphqlBucket.available), capacity: this.graphqlBucket.capacity }
+    };
+  }
+
+  // Waits in line until the bucket can cover `cost`, then books it so requests
+  // queued behind this one see the reduced budget
+  private async reserve(api: 'rest' | 'graphql', cost: number, signal?: AbortSignal) {
+    const bucket = api === 'rest' ? this.restBucket : this.graphqlBucket;
+    const stats = api === 'rest' ? this.restStats : this.graphqlStats;
+
+    const previous = api === 'rest' ? this.restQueue : this.graphqlQueue;
+    let release!: () => void;
+    const turn = new Promise<void>(resolve => { release = resolve; });
+    if (api === 'rest') this.restQueue = turn; else this.graphqlQueue = turn;
+
+    await previous;
+    try {
+      const waitMs = bucket.waitFor(cost);
+      if (waitMs > 0) {
+        stats.waits++;
+        stats.waitMs += waitMs;
+        await sleep(waitMs, signal);
+      }
+      bucket.take(cost);
+    } finally {
+      release();
+    }
+  }
+
+  private async backOff(stats: ThrottleStats, target: string, delayMs: number, signal?: AbortSignal) {
+    stats.retries++;
+    stats.waitMs += delayMs;
+    console.warn(`⏳ Shopify throttled ${target}, retrying in ${delayMs}ms`);
+    await sleep(delayMs, signal);
+  }
+}
@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BatchItemPublication, ShopifyProduct } from "@shared/schema";
+import { FakeShopify, FakeResponse, fakeCatalog } from "../testing/fakeShopify";
+import { shopifyPublisher, type PublishImage } from "./shopifyPublisher";
+import type { ShopifyService } from "./shopify";
+
+vi.hoisted(() => {
+  process.env.BATCH_RETRY_BASE_DELAY_MS = "0";
+});
+
+describe("shopifyPublisher", () => {
+  let shopify: FakeShopify;
+  let store: ShopifyService;
+  let product: ShopifyProduct;
+  // Product 1's media as the fake Admin API has them; MediaImage n shows ProductImage n
+  let media: string[];
+  let uploads: string[];
+  let uploadFailures: number;
+  let deleteErrors: Array<{ field: string[]; message: string }>;
+
+  beforeAll(async () => {
+    shopify = await new FakeShopify(fakeCatalog(1)).start();
+    store = shopify.createStore();
+
+    shopify.onGraphql("publishProductMedia", () => ({
+      product: { media: { edges: media.map(id => ({ node: { id, image: { id: id.replace("MediaImage", "ProductImage") } } })) } },
+    }));
+    shopify.onGraphql("publishStagedUploads", ({ input }) => ({
+      stagedUploadsCreate: {
+        stagedTargets: input.map((file: { filename: string }) => ({
+          url: `${shopify.url}/staged-uploads`,
+          resourceUrl: `https://shopify-staged-uploads.storage.googleapis.com/tmp/${file.filename}`,
+          parameters: [{ name: "key", value: `tmp/${file.filename}` }],
+        })),
+        userErrors: [],
+      },
+    }));
+    shopify.onRest("/staged-uploads", (_url, body) => {
+      if (uploadFailures > 0) {
+        uploadFailures--;
+        return new FakeResponse(503, "Service Unavailable");
+      }
+      uploads.push(body.match(/filename="([^"]+)"/)![1]);
+      return new FakeResponse(204, "");
+    });
+    shopify.onGraphql("publishCreateMedia", ({ media: created }) => {
+      const ids = created.map((_: unknown, index: number) => `gid://shopify/MediaImage/${9000 + media.length + index}`);
+      media.push(...ids);
+      return { productCreateMedia: { media: ids.map((id: string) => ({ id, alt: null })), mediaUserErrors: [] } };
+    });
+    shopify.onGraphql("publishDeleteMedia", ({ mediaIds }) => {
+      if (deleteErrors.length > 0) return { productDeleteMedia: { deletedMediaIds: [], mediaUserErrors: deleteErrors } };
+      media = media.filter(id => !mediaIds.includes(id));
+      return { productDeleteMedia: { deletedMediaIds: mediaIds, mediaUserErrors: [] } };
+    });
+
+    product = (await store.getProductBySku("SKU-1-1"))!;
+  });
+
+  beforeEach(() => {
+    media = ["gid://shopify/MediaImage/1000", "gid://shopify/MediaImage/1001"];
+    uploads = [];
+    uploadFailures = 0;
+    deleteErrors = [];
+    shopify.requests = [];
+  });
+
+  afterAll(async () => {
+    await shopify.close();
+  });
+
+  // The converted first product image
+  const images = (): PublishImage[] => [{
+    buffer: Buffer.from("converted"),
+    filename: "SKU-1-1.jpg",
+    contentType: "image/jpeg",
+    source: product.images[0],
+  }];
+
+  it("only reads the product's media on a dry run", async () => {
+    const publication = await shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "replace", dryRun: true });
+
+    expect(publication).toMatchObject({
+      productId: 1,
+      dryRun: true,
+      media: [{ id: null, filename: "SKU-1-1.jpg", alt: "Product 1" }],
+      removedMediaIds: ["gid://shopify/MediaImage/1000"],
+    });
+    expect(shopify.operations()).toEqual(["publishProductMedia"]);
+    expect(media).toHaveLength(2);
+  });
+
+  it("uploads, attaches and replaces the media on a real publish", async () => {
+    const publication = await shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "replace", dryRun: false, altText: "{title} ({sku})" });
+
+    expect(shopify.operations()).toEqual(["publishProductMedia", "publishStagedUploads", "publishCreateMedia", "publishDeleteMedia"]);
+    expect(uploads).toEqual(["SKU-1-1.jpg"]);
+    expect(publication).toMatchObject({
+      dryRun: false,
+      media: [{ id: "gid://shopify/MediaImage/9002", alt: "Product 1 (SKU-1-1)" }],
+      removedMediaIds: ["gid://shopify/MediaImage/1000"],
+    });
+    expect(publication.pendingRemoval).toBeUndefined();
+    expect(media).toEqual(["gid://shopify/MediaImage/1001", "gid://shopify/MediaImage/9002"]);
+  });
+
+  it("retries a failed staged upload", async () => {
+    uploadFailures = 1;
+
+    await shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "append", dryRun: false });
+
+    expect(shopify.requests.filter(request => request.path === "/staged-uploads")).toHaveLength(2);
+    expect(uploads).toEqual(["SKU-1-1.jpg"]);
+    expect(media).toHaveLength(3);
+  });
+
+  it("doesn't create the media again when a retry follows a failed removal", async () => {
+    deleteErrors = [{ field: ["mediaIds"], message: "Media is being processed" }];
+    let saved: BatchItemPublication | undefined;
+    const onMediaCreated = async (publication: BatchItemPublication) => { saved = publication; };
+
+    await expect(
+      shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "replace", dryRun: false }, { onMediaCreated })
+    ).rejects.toThrow(/old ones couldn't be removed/);
+    expect(saved).toMatchObject({ pendingRemoval: true, media: [{ id: "gid://shopify/MediaImage/9002" }] });
+    expect(media).toHaveLength(3);
+
+    deleteErrors = [];
+    uploads = [];
+    shopify.requests = [];
+    const publication = await shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "replace", dryRun: false }, { previous: saved, onMediaCreated });
+
+    expect(shopify.operations()).toEqual(["publishProductMedia", "publishDeleteMedia"]);
+    expect(uploads).toEqual([]);
+    expect(publication).toMatchObject({ pendingRemoval: undefined, media: saved!.media });
+    expect(media).toEqual(["gid://shopify/MediaImage/1001", "gid://shopify/MediaImage/9002"]);
+
+    // Once finished, a further retry leaves the product alone
+    shopify.requests = [];
+    expect(await shopifyPublisher.publish(store, product, "SKU-1-1", images(), { mode: "replace", dryRun: false }, { previous: publication })).toBe(publication);
+    expect(shopify.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,241 @@
+import type { BatchItemPublication, PublishOptions, ShopifyImage, ShopifyProduct } from "@shared/schema";
+import { batchRetryOptions, HttpStatusError, withRetry, withUploadTimeout } from "./retry";
+import type { ShopifyService } from "./shopify";
+import { parseGid } from "./catalogWalker";
+
+export interface PublishImage {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+  source: ShopifyImage; // the product image it was converted from
+}
+
+// Shopify rejected the upload or the media mutation
+export class PublishError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+// A retry passes the item's earlier publication so media that were already created aren't
+// created again; onMediaCreated saves the new media ids before the replaced media are removed
+export interface PublishProgress {
+  previous?: BatchItemPublication;
+  onMediaCreated?: (publication: BatchItemPublication) => Promise<void>;
+}
+
+interface MediaNode {
+  id: string;
+  image?: { id: string } | null; // only on MediaImage
+}
+
+interface UserError {
+  field: string[] | null;
+  message: string;
+}
+
+const STAGED_UPLOADS_MUTATION = `
+  mutation publishStagedUploads($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets { url resourceUrl parameters { name value } }
+      userErrors { field message }
+    }
+  }
+`;
+
+const CREATE_MEDIA_MUTATION = `
+  mutation publishCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+    productCreateMedia(productId: $productId, media: $media) {
+      media { id alt }
+      mediaUserErrors { field message }
+    }
+  }
+`;
+
+const DELETE_MEDIA_MUTATION = `
+  mutation publishDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+    productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+      deletedMediaIds
+      mediaUserErrors { field message }
+    }
+  }
+`;
+
+// A product has at most 250 media
+const PRODUCT_MEDIA_QUERY = `
+  query publishProductMedia($id: ID!) {
+    product(id: $id) {
+      media(first: 250) { edges { node { id ... on MediaImage { image { id } } } } }
+    }
+  }
+`;
+
+function formatUserErrors(errors: UserError[]): string {
+  return errors.map(error => error.field?.length ? `${error.field.join('.')}: ${error.message}` : error.message).join('; ');
+}
+
+// Publishes converted images as product media: each file goes to a Shopify staged upload
+// target and productCreateMedia attaches the uploads to the product. Replaced images are only
+// deleted once the new media exist. Variants pointing at a replaced image lose it.
+class ShopifyPublisher {
+  async publish(
+    store: ShopifyService,
+    product: ShopifyProduct,
+    sku: string,
+    images: PublishImage[],
+    options: PublishOptions,
+    { previous, onMediaCreated }: PublishProgress = {}
+  ): Promise<BatchItemPublication> {
+    const productId = `gid://shopify/Product/${product.id}`;
+
+    // The media were created on an earlier try - only the removal can be left to do
+    if (previous && !previous.dryRun && previous.productId === product.id) {
+      if (!previous.pendingRemoval) {
+        console.log(`⏭️ Already published to ${product.title}`);
+        return previous;
+      }
+      await this.removeMedia(store, productId, await this.findExistingMedia(store, productId, previous.removedMediaIds));
+      console.log(`✅ Removed the replaced media from ${product.title}`);
+      return { ...previous, pendingRemoval: undefined, publishedAt: new Date().toISOString() };
+    }
+
+    const media = images.map(image => ({
+      filename: image.filename,
+      alt: this.getAltText(image, product, sku, options.altText)
+    }));
+    const removedMediaIds = options.mode === 'replace' ? await this.findSourceMedia(store, productId, images) : [];
+
+    if (options.dryRun) {
+      console.log(`🧪 Dry run: would publish ${images.length} image(s) to ${product.title}${removedMediaIds.length ? ` replacing ${removedMediaIds.length}` : ''}`);
+      return this.toPublication(product, options, media.map(item => ({ ...item, id: null })), removedMediaIds);
+    }
+
+    console.log(`📤 Publishing ${images.length} image(s) to ${product.title}`);
+    const resourceUrls = await this.stageUploads(store, images);
+
+    const created = await store.graphql(CREATE_MEDIA_MUTATION, {
+      productId,
+      media: media.map((item, index) => ({ originalSource: resourceUrls[index], alt: item.alt, mediaContentType: 'IMAGE' }))
+    });
+    const { mediaUserErrors, media: createdMedia } = created.productCreateMedia;
+    if (mediaUserErrors.length > 0) {
+      throw new PublishError(`Shopify rejected the media: ${formatUserErrors(mediaUserErrors)}`);
+    }
+
+    const publication = this.toPublication(
+      product,
+      options,
+      media.map((item, index) => ({ ...item, id: createdMedia[index]?.id ?? null })),
+      removedMediaIds
+    );
+    if (removedMediaIds.length > 0) {
+      await onMediaCreated?.({ ...publication, pendingRemoval: true });
+      await this.removeMedia(store, productId, removedMediaIds);
+    }
+
+    console.log(`✅ Published ${createdMedia.length} image(s) to ${product.title}`);
+    return publication;
+  }
+
+  private async removeMedia(store: ShopifyService, productId: string, mediaIds: string[]) {
+    if (mediaIds.length === 0) return;
+    const deleted = await store.graphql(DELETE_MEDIA_MUTATION, { productId, mediaIds });
+    if (deleted.productDeleteMedia.mediaUserErrors.length > 0) {
+      throw new PublishError(`New media were added but the old ones couldn't be removed: ${formatUserErrors(deleted.productDeleteMedia.mediaUserErrors)}`);
+    }
+  }
+
+  // Reserves a staged upload target per file and uploads the files to them
+  private async stageUploads(store: ShopifyService, images: PublishImage[]): Promise<string[]> {
+    const staged = await store.graphql(STAGED_UPLOADS_MUTATION, {
+      input: images.map(image => ({
+        resource: 'IMAGE',
+        filename: image.filename,
+        mimeType: image.contentType,
+        fileSize: String(image.buffer.length),
+        httpMethod: 'POST'
+      }))
+    });
+    const { stagedTargets, userErrors } = staged.stagedUploadsCreate;
+    if (userErrors.length > 0) {
+      throw new PublishError(`Couldn't create staged uploads: ${formatUserErrors(userErrors)}`);
+    }
+
+    const resourceUrls: string[] = [];
+    for (let index = 0; index < images.length; index++) {
+      const image = images[index];
+      const target = stagedTargets[index];
+
+      // The target's parameters (policy, signature, ...) have to come before the file
+      const form = new FormData();
+      for (const { name, value } of target.parameters) {
+        form.append(name, value);
+      }
+      form.append('file', new Blob([image.buffer], { type: image.contentType }), image.filename);
+
+      // A staged target takes the same file again, so failed or stalled uploads are retried
+      await withRetry(() => withUploadTimeout(async (signal) => {
+        const response = await fetch(target.url, { method: 'POST', body: form, signal });
+        if (!response.ok) {
+          throw HttpStatusError.fromResponse(`Staged upload of ${image.filename} failed`, response);
+        }
+      }), batchRetryOptions, {
+        onRetry: (attempt, error, delayMs) => {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.log(`🔁 Retrying staged upload of ${image.filename} in ${delayMs}ms (attempt ${attempt + 1}/${batchRetryOptions.attempts}) - ${message}`);
+        }
+      });
+      resourceUrls.push(target.resourceUrl);
+    }
+    return resourceUrls;
+  }
+
+  // The product's MediaImage ids for the images the outputs were converted from
+  private async findSourceMedia(store: ShopifyService, productId: string, images: PublishImage[]): Promise<string[]> {
+    const sourceIds = new Set(images.map(image => image.source.id));
+    return (await this.getProductMedia(store, productId))
+      .filter(node => node.image && sourceIds.has(parseGid(node.image.id)))
+      .map(node => node.id);
+  }
+
+  // Which of the media ids the product still has - an earlier removal may have got partway
+  private async findExistingMedia(store: ShopifyService, productId: string, mediaIds: string[]): Promise<string[]> {
+    const existing = new Set((await this.getProductMedia(store, productId)).map(node => node.id));
+    return mediaIds.filter(id => existing.has(id));
+  }
+
+  private async getProductMedia(store: ShopifyService, productId: string): Promise<MediaNode[]> {
+    const data = await store.graphql<{ product: { media: { edges: Array<{ node: MediaNode }> } } | null }>(
+      PRODUCT_MEDIA_QUERY,
+      { id: productId }
+    );
+    if (!data.product) {
+      throw new PublishError(`Product not found in Shopify: ${productId}`);
+    }
+    return data.product.media.edges.map(edge => edge.node);
+  }
+
+  private getAltText(image: PublishImage, product: ShopifyProduct, sku: string, template?: string): string {
+    if (!template) return image.source.alt || product.title;
+    return template.replace(/\{sku\}/g, sku).replace(/\{title\}/g, product.title);
+  }
+
+  private toPublication(
+    product: ShopifyProduct,
+    options: PublishOptions,
+    media: BatchItemPublication['media'],
+    removedMediaIds: string[]
+  ): BatchItemPublication {
+    return {
+      productId: product.id,
+      mode: options.mode,
+      dryRun: options.dryRun,
+      media,
+      removedMediaIds,
+      publishedAt: new Date().toISOString()
+    };
+  }
+}
+
+export const shopifyPublisher = new ShopifyPublisher();
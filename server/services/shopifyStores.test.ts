@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The registry reads SHOPIFY_STORES when the module is first imported
+async function loadRegistry(stores: string) {
+  vi.stubEnv("SHOPIFY_STORES", stores);
+  vi.resetModules();
+  return (await import("./shopifyStores")).shopifyStores;
+}
+
+describe("SHOPIFY_STORES", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("registers each store with the first one as the default", async () => {
+    const registry = await loadRegistry(JSON.stringify([
+      { id: "us", domain: "us.myshopify.com", accessToken: "shpat_us" },
+      { id: "eu", name: "Europe", domain: "eu.myshopify.com", accessToken: "shpat_eu", apiVersion: "2024-10" },
+    ]));
+
+    expect(registry.defaultStoreId).toBe("us");
+    expect(registry.list().map(({ info }) => [info.id, info.name, info.apiVersion])).toEqual([["us", "us", "2023-10"], ["eu", "Europe", "2024-10"]]);
+    expect(registry.findByDomain("EU.myshopify.com")?.id).toBe("eu");
+  });
+
+  it("names the variable when the JSON is malformed", async () => {
+    await expect(loadRegistry("[{id: 'us'}]")).rejects.toThrow(/^Invalid SHOPIFY_STORES: not valid JSON/);
+  });
+
+  it("lists every invalid entry", async () => {
+    await expect(loadRegistry(JSON.stringify([{ id: "u s", domain: "us.myshopify.com" }]))).rejects.toThrow(
+      "Invalid SHOPIFY_STORES: 0.id: Store ids may only contain letters, digits, - and _; 0.accessToken: Required"
+    );
+    await expect(loadRegistry("{}")).rejects.toThrow("Invalid SHOPIFY_STORES: value: Expected array, received object");
+  });
+
+  it("rejects duplicate store ids", async () => {
+    const store = { id: "us", domain: "us.myshopify.com", accessToken: "shpat_us" };
+    await expect(loadRegistry(JSON.stringify([store, store]))).rejects.toThrow("Invalid SHOPIFY_STORES: duplicate store id us");
+  });
+});
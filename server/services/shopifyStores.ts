@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { ShopifyService, type ShopifyStoreConfig } from "./shopify";
+
+// Admin API version for stores that don't pin their own
+const SHOPIFY_API_VERSION = process.env.SHOPIFY_API_VERSION || '2023-10';
+
+// A storeId that isn't in the registry
+export class UnknownStoreError extends Error {
+  constructor(storeId: string) {
+    super(`Unknown Shopify store: ${storeId}`);
+    this.name = 'UnknownStoreError';
+  }
+}
+
+// SHOPIFY_STORES can't be read - the message names the variable and what's wrong with it
+export class StoreConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid SHOPIFY_STORES: ${message}`);
+    this.name = 'StoreConfigError';
+  }
+}
+
+const storesEnvSchema = z.array(z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/i, "Store ids may only contain letters, digits, - and _"),
+  name: z.string().optional(),
+  domain: z.string().min(1), // e.g. shopfls.myshopify.com
+  accessToken: z.string().min(1),
+  apiVersion: z.string().optional(),
+  apiUrl: z.string().url().optional(),
+  webhookSecret: z.string().min(1).optional(),
+})).min(1);
+
+// SHOPIFY_STORES lists every store as JSON, e.g.
+//   [{"id":"us","name":"US","domain":"shopfls.myshopify.com","accessToken":"shpat_...","apiVersion":"2024-10"}]
+// Without it the single SHOPIFY_STORE/SHOPIFY_ACCESS_TOKEN pair is the store 'default'.
+function loadStoreConfigs(): ShopifyStoreConfig[] {
+  const stores = process.env.SHOPIFY_STORES;
+  if (stores) {
+    let json: unknown;
+    try {
+      json = JSON.parse(stores);
+    } catch (error) {
+      throw new StoreConfigError(`not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+    const parsed = storesEnvSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new StoreConfigError(parsed.error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`).join('; '));
+    }
+    return parsed.data.map(store => ({
+      ...store,
+      name: store.name || store.id,
+      apiVersion: store.apiVersion || SHOPIFY_API_VERSION,
+    }));
+  }
+
+  const domain = process.env.SHOPIFY_STORE_URL || process.env.STORE_URL || process.env.SHOPIFY_STORE || '';
+  return [{
+    id: 'default',
+    name: domain || 'default',
+    domain,
+    accessToken: process.env.STORE_ACCESS_TOKEN || process.env.SHOPIFY_ACCESS_TOKEN || '',
+    apiVersion: SHOPIFY_API_VERSION,
+    apiUrl: process.env.SHOPIFY_API_URL, // e.g. a fake Shopify server in tests
+    webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET,
+  }];
+}
+
+// Every store the app can talk to, each with its own API client, rate-limit budget and
+// catalog index. Requests and batch jobs name a store by id; without one they use the first.
+class ShopifyStoreRegistry {
+  private stores = new Map<string, ShopifyService>();
+
+  constructor(configs: ShopifyStoreConfig[]) {
+    for (const config of configs) {
+      if (this.stores.has(config.id)) {
+        throw new StoreConfigError(`duplicate store id ${config.id}`);
+      }
+      this.stores.set(config.id, new ShopifyService(config));
+    }
+  }
+
+  get defaultStoreId(): string {
+    return this.stores.keys().next().value!;
+  }
+
+  get(storeId?: string | null): ShopifyService {
+    const store = this.stores.get(storeId || this.defaultStoreId);
+    if (!store) {
+      throw new UnknownStoreError(storeId!);
+    }
+    return store;
+  }
+
+  // Webhooks name their store by its myshopify.com domain
+  findByDomain(domain: string | undefined): ShopifyService | undefined {
+    const normalized = domain?.trim().toLowerCase();
+    return normalized ? this.list().find(store => store.domain.toLowerCase() === normalized) : undefined;
+  }
+
+  list(): ShopifyService[] {
+    return Array.from(this.stores.values());
+  }
+}
+
+export const shopifyStores = new ShopifyStoreRegistry(loadStoreConfigs());
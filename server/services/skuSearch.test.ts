@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { CatalogProduct } from "@shared/schema";
+import { SkuSearchIndex } from "./skuSearch";
+
+// A product with one variant per SKU; variants after the first have no image of their own
+function product(id: number, skus: string[], images = 1): CatalogProduct {
+  const imageList = Array.from({ length: images }, (_, position) => ({
+    id: id * 100 + position,
+    src: `https://cdn.shopify.com/files/product-${id}-${position + 1}.jpg`,
+    alt: null,
+  }));
+  return {
+    id,
+    storeId: "test",
+    title: `Product ${id}`,
+    handle: `product-${id}`,
+    images: imageList,
+    shopifyUpdatedAt: new Date(),
+    syncedAt: new Date(),
+    variants: skus.map((sku, position) => ({
+      id: id * 100 + 50 + position,
+      productId: id,
+      sku,
+      normalizedSku: sku.trim().toLowerCase(),
+      title: `Variant ${position + 1}`,
+      imageId: imageList[position]?.id ?? null,
+      position: position + 1,
+    })),
+  };
+}
+
+const index = new SkuSearchIndex([
+  product(1, ["66P-00022N-FLS", "66P-00022N-FLS-XL", " "], 2),
+  product(2, ["66P-00023N-FLS"], 0),
+  product(3, ["MUG-RED", "MUG-RED-LARGE-2024"]),
+  product(4, ["TSHIRT-BLUE"]),
+]);
+
+const ranked = (query: string, limit = 8) => index.search(query, limit).map(({ sku, match, score }) => [sku, match, score]);
+
+describe("SkuSearchIndex", () => {
+  it("indexes every variant with a SKU", () => {
+    expect(index.size).toBe(6);
+  });
+
+  it("ranks an exact match over longer completions over typos", () => {
+    // Case, dashes, underscores and spaces don't count
+    expect(ranked("66p 00022n_fls")).toEqual([
+      ["66P-00022N-FLS", "exact", 1],
+      ["66P-00022N-FLS-XL", "prefix", 0.93],
+      ["66P-00023N-FLS", "fuzzy", 0.75],
+    ]);
+    expect(ranked("mug-red")).toEqual([
+      ["MUG-RED", "exact", 1],
+      ["MUG-RED-LARGE-2024", "prefix", 0.86],
+    ]);
+  });
+
+  it("finds a typo in a SKU that's still being typed", () => {
+    expect(ranked("tshurt")).toEqual([["TSHIRT-BLUE", "fuzzy", 0.48]]);
+  });
+
+  it("allows no typos and no substrings in short queries", () => {
+    expect(ranked("66").map(([sku]) => sku)).toEqual(["66P-00022N-FLS", "66P-00023N-FLS", "66P-00022N-FLS-XL"]);
+    expect(ranked("mig")).toEqual([]);
+    expect(ranked("red")).toEqual([
+      ["MUG-RED", "contains", 0.35],
+      ["MUG-RED-LARGE-2024", "contains", 0.32],
+    ]);
+  });
+
+  it("returns the best matches up to the limit, shorter completions first", () => {
+    expect(ranked("66p", 2)).toEqual([
+      ["66P-00022N-FLS", "prefix", 0.84],
+      ["66P-00023N-FLS", "prefix", 0.84],
+    ]);
+    expect(ranked(" - _ ")).toEqual([]);
+  });
+
+  it("shows the variant's own image, else the product's first", () => {
+    const [own, fallback] = index.search("66p00022nfls", 2);
+    expect(own).toMatchObject({ productId: 1, productTitle: "Product 1", variantTitle: "Variant 1", imageUrl: "https://cdn.shopify.com/files/product-1-1.jpg" });
+    expect(fallback.imageUrl).toBe("https://cdn.shopify.com/files/product-1-2.jpg");
+    expect(index.search("66P-00023N-FLS", 1)[0].imageUrl).toBeNull();
+  });
+});
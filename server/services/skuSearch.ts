@@ -0,0 +1,97 @@
+import { skuSearchKey, type CatalogProduct, type SkuSuggestion } from "@shared/schema";
+
+interface SkuEntry {
+  key: string; // skuSearchKey() of the SKU
+  suggestion: Omit<SkuSuggestion, 'match' | 'score'>;
+}
+
+// Typos allowed for a query of this many characters - short queries would match everything
+function maxDistance(length: number): number {
+  return length <= 3 ? 0 : length <= 6 ? 1 : length <= 10 ? 2 : 3;
+}
+
+// Levenshtein distance, giving up (returning max + 1) once it can't stay within max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// In-memory SKU search over a snapshot of the catalog index. Ranking: exact (after
+// normalizing case, dashes and whitespace) > prefix > typo within a few edits > substring.
+export class SkuSearchIndex {
+  private entries: SkuEntry[];
+
+  constructor(products: CatalogProduct[]) {
+    this.entries = products.flatMap(product => product.variants
+      .filter(variant => variant.sku.trim())
+      .map(variant => ({
+        key: skuSearchKey(variant.sku),
+        suggestion: {
+          sku: variant.sku,
+          productId: product.id,
+          productTitle: product.title,
+          variantTitle: variant.title,
+          imageUrl: (product.images.find(image => image.id === variant.imageId) ?? product.images[0])?.src ?? null
+        }
+      })));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  search(query: string, limit: number): SkuSuggestion[] {
+    const key = skuSearchKey(query);
+    if (!key) return [];
+    const max = maxDistance(key.length);
+
+    const matches: SkuSuggestion[] = [];
+    for (const entry of this.entries) {
+      const match = this.score(key, entry.key, max);
+      if (match) {
+        matches.push({ ...entry.suggestion, ...match });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.sku.localeCompare(b.sku))
+      .slice(0, limit);
+  }
+
+  private score(query: string, key: string, max: number): Pick<SkuSuggestion, 'match' | 'score'> | null {
+    if (key === query) return { match: 'exact', score: 1 };
+
+    // Longer completions rank below the ones closest to what was typed
+    const coverage = query.length / key.length;
+    if (key.startsWith(query)) return { match: 'prefix', score: round(0.8 + 0.15 * coverage) };
+
+    if (max > 0) {
+      const distance = editDistance(query, key, max);
+      if (distance <= max) return { match: 'fuzzy', score: round(0.75 - 0.15 * (distance - 1)) };
+
+      // A typo in a SKU that's still being typed
+      const prefixDistance = editDistance(query, key.slice(0, query.length), max);
+      if (prefixDistance <= max) return { match: 'fuzzy', score: round(0.55 - 0.1 * prefixDistance + 0.05 * coverage) };
+    }
+
+    if (query.length >= 3 && key.includes(query)) return { match: 'contains', score: round(0.3 + 0.1 * coverage) };
+    return null;
+  }
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import { Limiter, workScheduler } from "./workScheduler";
+import { imageProcessor } from "./imageProcessor";
+
+// One real worker thread, so tasks queue behind each other
+vi.hoisted(() => {
+  process.env.IMAGE_WORKERS = "1";
+});
+
+describe("Limiter", () => {
+  it("runs at most its limit at once and starts the rest in order", async () => {
+    const limiter = new Limiter(2);
+    const started: number[] = [];
+    const releases: Array<() => void> = [];
+    const runs = [1, 2, 3, 4].map(n => limiter.run(() => {
+      started.push(n);
+      return new Promise<number>(resolve => releases.push(() => resolve(n)));
+    }));
+
+    await vi.waitFor(() => expect(started).toEqual([1, 2]));
+    expect(limiter.getStats()).toEqual({ limit: 2, active: 2, queued: 2 });
+
+    releases[1]();
+    await vi.waitFor(() => expect(started).toEqual([1, 2, 3]));
+    releases[0]();
+    releases[2]();
+    await vi.waitFor(() => expect(started).toEqual([1, 2, 3, 4]));
+    releases[3]();
+
+    expect(await Promise.all(runs)).toEqual([1, 2, 3, 4]);
+    expect(limiter.getStats()).toEqual({ limit: 2, active: 0, queued: 0 });
+  });
+
+  it("frees the slot when a job fails", async () => {
+    const limiter = new Limiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(await limiter.run(async () => "next")).toBe("next");
+  });
+});
+
+describe("workScheduler", () => {
+  it("runs queued image tasks on the worker pool", { timeout: 30_000 }, async () => {
+    const source = await sharp({ create: { width: 200, height: 100, channels: 3, background: "#cc3333" } }).png().toBuffer();
+    const convert = (width: number) => imageProcessor.processBuffer(source, { width, height: width, dpi: 300, format: "png", filename: "test" });
+
+    const converting = [convert(40), convert(60)];
+    expect(workScheduler.getStats().workers).toMatchObject({ size: 1, started: 1, busy: 1, queued: 1 });
+
+    const [small, large] = await Promise.all(converting);
+    expect(Buffer.isBuffer(small.buffer)).toBe(true);
+    expect(await sharp(small.buffer).metadata()).toMatchObject({ width: 40, height: 40 });
+    expect(large).toMatchObject({ width: 60, height: 60 });
+    expect(workScheduler.getStats().workers).toMatchObject({ started: 1, busy: 0, queued: 0 });
+  });
+
+  it("passes a task's error back from the worker", { timeout: 30_000 }, async () => {
+    await expect(imageProcessor.processBuffer(Buffer.from("not an image"), { width: 40, height: 40, dpi: 300, filename: "test" }))
+      .rejects.toThrow(/unsupported image format/);
+  });
+
+  it("refuses a task nothing registered", async () => {
+    await expect(workScheduler.runInline({ name: "unknown" } as never)).rejects.toThrow("Unknown work task: unknown");
+  });
+});
@@ -0,0 +1,187 @@
+import os from 'os';
+import { Worker, isMainThread } from 'worker_threads';
+import { readIntEnv } from '../config';
+import type { ImageProcessingOptions, ProcessedImage } from './imageProcessor';
+import type { PdfProcessingOptions, ProcessedPdfPage } from './pdfProcessor';
+
+// Caps how many async jobs run at once; the rest wait in FIFO order
+export class Limiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(public readonly limit: number) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  getStats() {
+    return { limit: this.limit, active: this.active, queued: this.waiting.length };
+  }
+}
+
+// Every task the pool runs, with its payload and what its handler resolves to
+interface WorkTasks {
+  processImage: { payload: { buffer: Uint8Array; options: ImageProcessingOptions }; result: ProcessedImage };
+  renderPdfPage: { payload: { imagePath: string; filename: string; options: PdfProcessingOptions; dpi: number }; result: ProcessedPdfPage };
+}
+
+export type WorkTaskName = keyof WorkTasks;
+
+type TaskHandlers = { [N in WorkTaskName]?: (payload: WorkTasks[N]['payload']) => Promise<WorkTasks[N]['result']> };
+
+// What the pool posts to a worker
+export type WorkMessage<N extends WorkTaskName = WorkTaskName> = { [K in N]: { name: K; payload: WorkTasks[K]['payload'] } }[N];
+
+// Results come back from a worker structured-cloned, with Buffers turned into Uint8Arrays
+type Cloned<T> = { [K in keyof T]: T[K] extends Buffer ? Uint8Array : T[K] };
+
+interface QueuedTask {
+  message: WorkMessage;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: QueuedTask;
+  error?: Error;
+}
+
+// Fixed-size pool of worker threads, each running one task at a time
+class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: QueuedTask[] = [];
+
+  constructor(public readonly size: number, private createWorker: () => Worker) {}
+
+  run(message: WorkMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ message, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  getStats() {
+    return {
+      size: this.size,
+      started: this.workers.length,
+      busy: this.workers.filter(slot => slot.task).length,
+      queued: this.queue.length
+    };
+  }
+
+  // Busy workers are ref'd so pending tasks keep the process alive; idle ones are not
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const slot = this.workers.find(slot => !slot.task) ?? (this.workers.length < this.size ? this.spawn() : undefined);
+      if (!slot) return;
+
+      const task = this.queue.shift()!;
+      slot.task = task;
+      slot.worker.ref();
+      slot.worker.postMessage(task.message);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const slot: PoolWorker = { worker: this.createWorker() };
+
+    slot.worker.on('message', (message: { result?: unknown; error?: { name: string; message: string } }) => {
+      const task = slot.task;
+      slot.task = undefined;
+      slot.worker.unref();
+      if (message.error) {
+        task?.reject(Object.assign(new Error(message.error.message), { name: message.error.name }));
+      } else {
+        task?.resolve(message.result);
+      }
+      this.dispatch();
+    });
+    slot.worker.on('error', (error) => {
+      console.error('❌ Image worker crashed:', error);
+      slot.error = error;
+    });
+    // A crashed worker fails its task and is replaced on the next dispatch
+    slot.worker.on('exit', (code) => {
+      this.workers = this.workers.filter(other => other !== slot);
+      slot.task?.reject(slot.error ?? new Error(`Image worker exited with code ${code}`));
+      this.dispatch();
+    });
+    this.workers.push(slot);
+    return slot;
+  }
+}
+
+// Dev runs the TypeScript sources through tsx, whose loader worker threads don't inherit,
+// so the worker registers it first. The production build bundles the worker into dist/workers.
+function createImageWorker(): Worker {
+  if (import.meta.url.endsWith('.ts')) {
+    const workerUrl = new URL('../workers/imageWorker.ts', import.meta.url).href;
+    return new Worker(
+      `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(workerUrl)}); })`,
+      { eval: true }
+    );
+  }
+  return new Worker(new URL('./workers/imageWorker.js', import.meta.url));
+}
+
+// Shared by request handlers and batch jobs so simultaneous users can't starve the event loop:
+// sharp work runs on IMAGE_WORKERS worker threads (0 runs it inline) and at most
+// MAX_CONCURRENT_FETCHES image/PDF downloads are in flight
+class WorkScheduler {
+  private handlers: TaskHandlers = {};
+  private pool?: WorkerPool;
+  private readonly poolSize = readIntEnv('IMAGE_WORKERS', Math.max(1, os.availableParallelism() - 1));
+  private readonly fetchLimiter = new Limiter(readIntEnv('MAX_CONCURRENT_FETCHES', 16, 1));
+
+  // Handlers are registered by the modules that own the work, in every thread
+  registerTask<N extends WorkTaskName>(name: N, handler: TaskHandlers[N]) {
+    this.handlers[name] = handler;
+  }
+
+  // Runs a registered task on the worker pool. Payloads and results are structured-cloned,
+  // so Buffers come back as Uint8Arrays - see toBuffer().
+  async run<N extends WorkTaskName>(name: N, payload: WorkTasks[N]['payload']): Promise<Cloned<WorkTasks[N]['result']>> {
+    const message = { name, payload } as WorkMessage<N>;
+    if (!isMainThread || this.poolSize === 0) {
+      return await this.runInline(message) as Cloned<WorkTasks[N]['result']>;
+    }
+    this.pool ??= new WorkerPool(this.poolSize, createImageWorker);
+    return await this.pool.run(message as WorkMessage) as Cloned<WorkTasks[N]['result']>;
+  }
+
+  async runInline<N extends WorkTaskName>({ name, payload }: WorkMessage<N>): Promise<WorkTasks[N]['result']> {
+    const handler: TaskHandlers[N] = this.handlers[name];
+    if (!handler) {
+      throw new Error(`Unknown work task: ${name}`);
+    }
+    return await handler(payload);
+  }
+
+  fetch<T>(fn: () => Promise<T>): Promise<T> {
+    return this.fetchLimiter.run(fn);
+  }
+
+  getStats() {
+    return {
+      workers: this.pool?.getStats() ?? { size: this.poolSize, started: 0, busy: 0, queued: 0 },
+      fetches: this.fetchLimiter.getStats()
+    };
+  }
+}
+
+export function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+export const workScheduler = new WorkScheduler();
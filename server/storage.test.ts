@@ -0,0 +1,328 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { eq, sql } from "drizzle-orm";
+import { catalogProducts, catalogSyncState, processingJobs, processingJobFilterSchema, type CatalogAuditIssue, type ProcessingJobFilter } from "@shared/schema";
+import { DbStorage, FileBackedStorage, MemStorage, type IStorage } from "./storage";
+import { createEmbeddedDatabase } from "./testing/embeddedDatabase";
+
+let embedded: Awaited<ReturnType<typeof createEmbeddedDatabase>>;
+
+beforeAll(async () => {
+  embedded = await createEmbeddedDatabase();
+});
+
+afterAll(async () => {
+  await embedded.close();
+});
+
+function filter(query: Record<string, unknown> = {}): ProcessingJobFilter {
+  return processingJobFilterSchema.parse(query);
+}
+
+interface StorageUnderTest {
+  storage: IStorage;
+  backdate: (id: string, createdAt: Date) => Promise<void>; // updateProcessingJob keeps createdAt
+}
+
+// Both implementations must list and filter jobs the same way
+describe.each<[string, () => Promise<StorageUnderTest>]>([
+  ['MemStorage', async () => {
+    const storage = new MemStorage();
+    return { storage, backdate: async (id, createdAt) => { await storage.updateProcessingJob(id, { createdAt }); } };
+  }],
+  ['DbStorage', async () => {
+    await embedded.db.execute(sql`truncate table processing_jobs`);
+    return {
+      storage: new DbStorage(embedded.db),
+      backdate: async (id, createdAt) => {
+        await embedded.db.update(processingJobs).set({ createdAt }).where(eq(processingJobs.id, id));
+      },
+    };
+  }],
+])('%s processing jobs', (_name, createStorage) => {
+  let storage: IStorage;
+  let ids: Record<string, string>;
+
+  beforeEach(async () => {
+    const underTest = await createStorage();
+    storage = underTest.storage;
+    ids = {};
+    const jobs = [
+      { key: 'sku', type: 'sku', input: '66P-00022N-FLS', preset: 'standard', createdAt: new Date('2026-01-01T10:00:00Z') },
+      { key: 'url', type: 'url', input: 'https://cdn.example.com/photo_100%.jpg', preset: 'square', createdAt: new Date('2026-01-02T10:00:00Z') },
+      { key: 'pdf', type: 'pdf', input: 'https://cdn.example.com/catalog.pdf', preset: null, createdAt: new Date('2026-01-03T10:00:00Z') },
+      { key: 'failed', type: 'sku', input: '66P-00099X-FLS', preset: 'standard', createdAt: new Date('2026-01-04T10:00:00Z') },
+    ];
+    for (const { key, createdAt, ...job } of jobs) {
+      const created = await storage.createProcessingJob({ ...job, dimensions: '342x427' });
+      ids[key] = created.id;
+      await storage.updateProcessingJob(created.id, { status: key === 'failed' ? 'failed' : 'completed' });
+      await underTest.backdate(created.id, createdAt);
+    }
+  });
+
+  it('lists newest first with a total', async () => {
+    const { jobs, total } = await storage.listProcessingJobs(filter());
+    expect(total).toBe(4);
+    expect(jobs.map(job => job.id)).toEqual([ids.failed, ids.pdf, ids.url, ids.sku]);
+  });
+
+  it('pages with limit and offset', async () => {
+    const { jobs, total } = await storage.listProcessingJobs(filter({ limit: 2, offset: 1 }));
+    expect(total).toBe(4);
+    expect(jobs.map(job => job.id)).toEqual([ids.pdf, ids.url]);
+  });
+
+  it('filters by status, type and preset', async () => {
+    expect((await storage.listProcessingJobs(filter({ status: 'failed' }))).jobs.map(job => job.id)).toEqual([ids.failed]);
+    expect((await storage.listProcessingJobs(filter({ type: 'sku' }))).total).toBe(2);
+    expect((await storage.listProcessingJobs(filter({ type: 'sku', status: 'completed' }))).jobs.map(job => job.id)).toEqual([ids.sku]);
+    expect((await storage.listProcessingJobs(filter({ preset: 'square' }))).jobs.map(job => job.id)).toEqual([ids.url]);
+  });
+
+  it('searches the input case-insensitively and literally', async () => {
+    expect((await storage.listProcessingJobs(filter({ search: '00022n' }))).jobs.map(job => job.id)).toEqual([ids.sku]);
+    expect((await storage.listProcessingJobs(filter({ search: '100%' }))).jobs.map(job => job.id)).toEqual([ids.url]);
+    expect((await storage.listProcessingJobs(filter({ search: '%' }))).total).toBe(1);
+  });
+
+  it('filters by creation date', async () => {
+    const { jobs } = await storage.listProcessingJobs(filter({
+      createdAfter: '2026-01-02T00:00:00Z',
+      createdBefore: '2026-01-03T23:59:59Z',
+    }));
+    expect(jobs.map(job => job.id)).toEqual([ids.pdf, ids.url]);
+  });
+});
+
+// Redeliveries are recognized by these records, so both implementations must keep them the same way
+describe.each<[string, () => Promise<IStorage>]>([
+  ['MemStorage', async () => new MemStorage()],
+  ['DbStorage', async () => {
+    await embedded.db.execute(sql`truncate table webhook_deliveries`);
+    return new DbStorage(embedded.db);
+  }],
+])('%s webhook deliveries', (_name, createStorage) => {
+  it('saves jobs as they are queued and forgets old deliveries', async () => {
+    const storage = await createStorage();
+    const receivedAt = new Date('2026-01-01T10:00:00Z');
+    await storage.saveWebhookDelivery({ id: 'wh_old', storeId: 'us', productId: 1, jobs: [], receivedAt, completedAt: receivedAt });
+    await storage.saveWebhookDelivery({ id: 'wh_1', storeId: 'us', productId: 2, jobs: [] });
+    await storage.saveWebhookDelivery({ id: 'wh_1', storeId: 'us', productId: 2, jobs: [{ key: 'a#0', jobId: 'job_1' }] });
+
+    const delivery = await storage.getWebhookDelivery('wh_1');
+    expect(delivery).toMatchObject({ productId: 2, jobs: [{ key: 'a#0', jobId: 'job_1' }], completedAt: null });
+    expect(delivery!.receivedAt).toBeInstanceOf(Date);
+
+    const completedAt = new Date();
+    await storage.saveWebhookDelivery({ ...delivery!, completedAt });
+    expect((await storage.getWebhookDelivery('wh_1'))!.completedAt).toEqual(completedAt);
+
+    expect(await storage.deleteWebhookDeliveriesBefore(new Date('2026-01-02T00:00:00Z'))).toBe(1);
+    expect(await storage.getWebhookDelivery('wh_old')).toBeUndefined();
+    expect(await storage.getWebhookDelivery('wh_1')).toBeDefined();
+  });
+});
+
+// The audit pages read issues through these queries, so both implementations must answer them the same way
+describe.each<[string, () => Promise<IStorage>]>([
+  ['MemStorage', async () => new MemStorage()],
+  ['DbStorage', async () => {
+    await embedded.db.execute(sql`truncate table catalog_audits cascade`);
+    return new DbStorage(embedded.db);
+  }],
+])('%s catalog audits', (_name, createStorage) => {
+  const issue = (productId: number, type: CatalogAuditIssue['type'], sku: string | null = null): CatalogAuditIssue => ({
+    type, productId, productTitle: `Product ${productId}`, handle: `product-${productId}`,
+    sku, variantTitle: null, imageId: null, imageUrl: null, width: null, height: null, detail: type,
+  });
+  const audit = (id: string, startedAt: Date) => ({
+    id,
+    storeId: 'us',
+    options: { storeId: 'us', minResolution: 1000, aspectRatio: 1, ratioTolerance: 0.02 },
+    scanned: { products: 0, images: 0, variants: 0 },
+    issueCounts: { no_images: 0, low_resolution: 0, off_ratio: 0, missing_alt: 0, variant_without_image: 0 },
+    startedAt,
+  });
+
+  it('lists audits latest first and updates them', async () => {
+    const storage = await createStorage();
+    await storage.createCatalogAudit(audit('audit_old', new Date('2026-01-01T00:00:00Z')));
+    await storage.createCatalogAudit(audit('audit_new', new Date('2026-01-02T00:00:00Z')));
+
+    const completedAt = new Date('2026-01-02T00:05:00Z');
+    await storage.updateCatalogAudit('audit_new', { status: 'completed', scanned: { products: 3, images: 4, variants: 5 }, completedAt });
+
+    expect((await storage.listCatalogAudits()).map(record => record.id)).toEqual(['audit_new', 'audit_old']);
+    expect(await storage.getCatalogAudit('audit_new')).toMatchObject({ status: 'completed', scanned: { products: 3 }, completedAt, error: null });
+    expect(await storage.getCatalogAudit('audit_old')).toMatchObject({ status: 'running', completedAt: null });
+  });
+
+  it('finds issues in the order added and deletes them with the audit', async () => {
+    const storage = await createStorage();
+    await storage.createCatalogAudit(audit('audit_1', new Date()));
+    await storage.addCatalogAuditIssues('audit_1', [issue(1, 'no_images'), issue(2, 'variant_without_image', 'SKU_2%')]);
+    await storage.addCatalogAuditIssues('audit_1', [issue(3, 'variant_without_image', 'SKU-3'), issue(4, 'missing_alt')]);
+
+    const all = await storage.findCatalogAuditIssues('audit_1', {});
+    expect(all.total).toBe(4);
+    expect(all.issues.map(found => found.productId)).toEqual([1, 2, 3, 4]);
+    expect(all.issues[1]).toEqual(issue(2, 'variant_without_image', 'SKU_2%'));
+
+    const paged = await storage.findCatalogAuditIssues('audit_1', { offset: 1, limit: 2 });
+    expect(paged).toMatchObject({ total: 4, issues: [{ productId: 2 }, { productId: 3 }] });
+
+    const variants = await storage.findCatalogAuditIssues('audit_1', { type: 'variant_without_image' });
+    expect(variants.issues.map(found => found.productId)).toEqual([2, 3]);
+
+    // Matches the title, handle or SKU, with % and _ taken literally
+    expect((await storage.findCatalogAuditIssues('audit_1', { q: 'PRODUCT-4' })).issues.map(found => found.productId)).toEqual([4]);
+    expect((await storage.findCatalogAuditIssues('audit_1', { q: 'sku_2%' })).issues.map(found => found.productId)).toEqual([2]);
+    expect((await storage.findCatalogAuditIssues('audit_1', { q: 'sku%' })).total).toBe(0);
+
+    expect(await storage.deleteCatalogAudit('audit_1')).toBe(true);
+    expect(await storage.getCatalogAudit('audit_1')).toBeUndefined();
+    expect((await storage.findCatalogAuditIssues('audit_1', {})).total).toBe(0);
+  });
+});
+
+describe('FileBackedStorage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'batch-jobs-'));
+    return () => rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps batch jobs and items across restarts', async () => {
+    const filePath = path.join(dir, 'batch-jobs.json');
+    const storage = new FileBackedStorage(filePath);
+    await storage.createBatchJob({ id: 'job_1', options: { format: 'jpeg' }, total: 2 }, [
+      { id: 'job_1_item_0', jobId: 'job_1', position: 0, type: 'sku', input: 'ABC-1' },
+      { id: 'job_1_item_1', jobId: 'job_1', position: 1, type: 'sku', input: 'ABC-2' },
+    ]);
+    const completedAt = new Date('2026-01-01T10:00:00Z');
+    // Concurrent updates share writes but none may be lost
+    await Promise.all([
+      storage.updateBatchJob('job_1', { status: 'completed', completed: 1, failed: 1, completedAt }),
+      storage.updateBatchItem('job_1_item_0', {
+        status: 'completed',
+        outputs: [{ filename: 'ABC-1.jpg', key: 'job_1/job_1_item_0-ABC-1.jpg', contentType: 'image/jpeg' }],
+      }),
+      storage.updateBatchItem('job_1_item_1', { status: 'failed', error: 'Product or image not found for SKU: ABC-2' }),
+    ]);
+
+    const restarted = new FileBackedStorage(filePath);
+    const job = await restarted.getBatchJob('job_1');
+    expect(job).toMatchObject({ status: 'completed', completed: 1, failed: 1, total: 2 });
+    expect(job!.completedAt).toEqual(completedAt);
+    expect(job!.createdAt).toBeInstanceOf(Date);
+    const items = await restarted.getBatchItems('job_1');
+    expect(items.map(item => item.status)).toEqual(['completed', 'failed']);
+    expect(items[0].outputs[0].key).toBe('job_1/job_1_item_0-ABC-1.jpg');
+
+    await restarted.deleteBatchJob('job_1');
+    expect(await new FileBackedStorage(filePath).getBatchJob('job_1')).toBeUndefined();
+  });
+
+  it('keeps webhook deliveries across restarts', async () => {
+    const filePath = path.join(dir, 'batch-jobs.json');
+    const completedAt = new Date('2026-01-01T10:00:00Z');
+    await new FileBackedStorage(filePath).saveWebhookDelivery({ id: 'wh_1', storeId: 'us', productId: 2, jobs: [{ key: 'a#0', jobId: 'job_1' }], completedAt });
+
+    const delivery = await new FileBackedStorage(filePath).getWebhookDelivery('wh_1');
+    expect(delivery).toMatchObject({ jobs: [{ key: 'a#0', jobId: 'job_1' }], completedAt });
+    expect(delivery!.receivedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps SKU conversions across restarts', async () => {
+    const filePath = path.join(dir, 'batch-jobs.json');
+    const settings = { preset: 'square', dimensions: '600x600', format: 'jpeg', dpi: 300 };
+    await new FileBackedStorage(filePath).recordSkuConversion('us', 'ABC-1', settings);
+
+    // The webhook looks them up again after a restart to regenerate changed product images
+    const conversions = await new FileBackedStorage(filePath).findSkuConversions('us', ['abc-1']);
+    expect(conversions).toMatchObject([{ sku: 'ABC-1', normalizedSku: 'abc-1', settings }]);
+    expect(conversions[0].convertedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps catalog audits and their issues across restarts', async () => {
+    const filePath = path.join(dir, 'batch-jobs.json');
+    const storage = new FileBackedStorage(filePath);
+    await storage.createCatalogAudit({
+      id: 'audit_1',
+      storeId: 'us',
+      options: { storeId: 'us', minResolution: 1000, aspectRatio: 1, ratioTolerance: 0.02 },
+      scanned: { products: 0, images: 0, variants: 0 },
+      issueCounts: { no_images: 0, low_resolution: 0, off_ratio: 0, missing_alt: 0, variant_without_image: 0 },
+    });
+    await storage.addCatalogAuditIssues('audit_1', [{
+      type: 'no_images', productId: 1, productTitle: 'Product 1', handle: 'product-1',
+      sku: null, variantTitle: null, imageId: null, imageUrl: null, width: null, height: null, detail: 'Product has no images',
+    }]);
+    const completedAt = new Date('2026-01-01T10:00:00Z');
+    await storage.updateCatalogAudit('audit_1', { status: 'completed', completedAt });
+
+    const restarted = new FileBackedStorage(filePath);
+    const audit = await restarted.getCatalogAudit('audit_1');
+    expect(audit).toMatchObject({ status: 'completed', completedAt });
+    expect(audit!.startedAt).toBeInstanceOf(Date);
+    expect(await restarted.findCatalogAuditIssues('audit_1', { q: 'product-1' })).toMatchObject({ total: 1, issues: [{ productId: 1 }] });
+
+    await restarted.deleteCatalogAudit('audit_1');
+    expect(await new FileBackedStorage(filePath).listCatalogAudits()).toEqual([]);
+  });
+
+  it('starts empty without a file', async () => {
+    const storage = new FileBackedStorage(path.join(dir, 'missing', 'batch-jobs.json'));
+    expect(await storage.getBatchJobsByStatus(['pending', 'processing'])).toEqual([]);
+  });
+});
+
+describe('DbStorage.assignLegacyCatalog', () => {
+  let storage: DbStorage;
+
+  // A product synced before multi-store support, which migration 0008 gave the store id 'default'
+  const legacyProduct = (id: number) => ({
+    id,
+    storeId: 'default',
+    title: `Product ${id}`,
+    handle: `product-${id}`,
+    images: [],
+    shopifyUpdatedAt: new Date('2026-01-01T10:00:00Z'),
+    variants: [{ id: id * 10, sku: `SKU-${id}`, normalizedSku: `sku-${id}`, title: 'Default', position: 1 }],
+    imageKeys: [],
+  });
+
+  beforeEach(async () => {
+    await embedded.db.execute(sql`truncate table catalog_products, catalog_sync_state cascade`);
+    storage = new DbStorage(embedded.db);
+    await storage.upsertCatalogProducts([legacyProduct(1), legacyProduct(2)]);
+    await storage.updateCatalogSyncState('default', { lastUpdatedAt: new Date('2026-01-01T10:00:00Z') });
+  });
+
+  it('moves the products and the sync watermark to the primary store', async () => {
+    expect(await storage.assignLegacyCatalog('us')).toBe(2);
+
+    expect((await storage.getCatalogStats('us')).products).toBe(2);
+    expect((await storage.getCatalogStats('default')).products).toBe(0);
+    expect((await storage.getCatalogSyncState('us'))?.lastUpdatedAt).toEqual(new Date('2026-01-01T10:00:00Z'));
+    expect(await storage.getCatalogSyncState('default')).toBeUndefined();
+  });
+
+  it('keeps a watermark the store already has', async () => {
+    await storage.updateCatalogSyncState('us', { lastUpdatedAt: new Date('2026-02-01T10:00:00Z') });
+
+    await storage.assignLegacyCatalog('us');
+
+    const states = await embedded.db.select().from(catalogSyncState);
+    expect(states).toEqual([expect.objectContaining({ id: 'us', lastUpdatedAt: new Date('2026-02-01T10:00:00Z') })]);
+  });
+
+  it("leaves the catalog alone when the primary store is 'default'", async () => {
+    expect(await storage.assignLegacyCatalog('default')).toBe(0);
+    expect((await embedded.db.select().from(catalogProducts)).map(product => product.storeId)).toEqual(['default', 'default']);
+  });
+});
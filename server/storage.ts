@@ -1,32 +1,155 @@
-import { type ProcessingJob, type InsertProcessingJob } from "@shared/schema";
+import {
+  processingJobs,
+  imagePresets,
+  batchJobs,
+  batchItems,
+  catalogProducts,
+  catalogVariants,
+  catalogImages,
+  catalogSyncState,
+  skuConversions,
+  webhookDeliveries,
+  catalogAudits,
+  catalogAuditIssues,
+  normalizeSku,
+  conversionSettingsKey,
+  type BatchJobRecord,
+  type InsertBatchJobRecord,
+  type BatchItemRecord,
+  type InsertBatchItemRecord,
+  type ProcessingJob,
+  type InsertProcessingJob,
+  type ProcessingJobFilter,
+  type ImagePreset,
+  type InsertImagePreset,
+  type CatalogProduct,
+  type CatalogProductRecord,
+  type CatalogVariantRecord,
+  type CatalogImageRecord,
+  type InsertCatalogProduct,
+  type CatalogSyncState,
+  type SkuConversion,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type CatalogAuditRecord,
+  type InsertCatalogAuditRecord,
+  type CatalogAuditIssue,
+  type CatalogAuditIssuesQuery,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import { and, asc, count, desc, eq, gte, ilike, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { resultsDir } from "./services/resultStore";
+
+// Presets every store starts with - the original two sizes plus common marketplace/banner sizes
+export const defaultImagePresets: ImagePreset[] = [
+  { id: 'standard', name: 'Standard', description: 'Portrait format for product displays', width: 342, height: 427, fit: 'cover', background: '#ffffff', format: 'jpeg' },
+  { id: 'square', name: 'Square', description: 'Square format for social media', width: 600, height: 600, fit: 'cover', background: '#ffffff', format: 'jpeg' },
+  { id: 'marketplace', name: 'Marketplace', description: 'Square listing image for Amazon and other marketplaces', width: 1000, height: 1000, fit: 'contain', background: '#ffffff', format: 'jpeg' },
+  { id: 'banner', name: 'Banner', description: '2048 wide, height follows the source aspect ratio', width: 2048, height: null, fit: 'inside', background: '#ffffff', format: 'webp' },
+  { id: 'thumbnail', name: 'Thumbnail', description: 'Small square for listings and emails', width: 150, height: 150, fit: 'cover', background: '#ffffff', format: 'jpeg' },
+];
 
 export interface IStorage {
   createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
   getProcessingJob(id: string): Promise<ProcessingJob | undefined>;
   updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined>;
   getProcessingJobsByStatus(status: string): Promise<ProcessingJob[]>;
+  listProcessingJobs(filter: ProcessingJobFilter): Promise<{ jobs: ProcessingJob[]; total: number }>;
   deleteProcessingJob(id: string): Promise<boolean>;
+
+  getImagePresets(): Promise<ImagePreset[]>;
+  getImagePreset(id: string): Promise<ImagePreset | undefined>;
+  createImagePreset(preset: InsertImagePreset): Promise<ImagePreset>;
+  updateImagePreset(id: string, updates: Partial<InsertImagePreset>): Promise<ImagePreset | undefined>;
+  deleteImagePreset(id: string): Promise<boolean>;
+
+  createBatchJob(job: InsertBatchJobRecord, items: InsertBatchItemRecord[]): Promise<BatchJobRecord>;
+  getBatchJob(id: string): Promise<BatchJobRecord | undefined>;
+  getBatchItems(jobId: string): Promise<BatchItemRecord[]>; // in submission order
+  updateBatchJob(id: string, updates: Partial<InsertBatchJobRecord>): Promise<BatchJobRecord | undefined>;
+  updateBatchItem(id: string, updates: Partial<InsertBatchItemRecord>): Promise<BatchItemRecord | undefined>;
+  getBatchJobsByStatus(statuses: string[]): Promise<BatchJobRecord[]>;
+  getBatchJobsCreatedBefore(date: Date): Promise<BatchJobRecord[]>;
+  deleteBatchJob(id: string): Promise<boolean>; // also deletes its items
+
+  upsertCatalogProducts(products: InsertCatalogProduct[]): Promise<void>; // replaces each product's variants and image keys
+  findCatalogProductBySku(storeId: string, sku: string): Promise<CatalogProduct | undefined>; // case-insensitive
+  getCatalogProducts(ids: number[]): Promise<CatalogProduct[]>;
+  listCatalogProducts(storeId: string): Promise<CatalogProduct[]>; // the store's whole index, by product id
+  findCatalogImages(storeId: string, field: 'id' | 'urlKey' | 'filenameKey', value: string | number): Promise<CatalogImageRecord[]>;
+  deleteCatalogProductsSyncedBefore(storeId: string, date: Date): Promise<number>;
+  getCatalogStats(storeId: string): Promise<{ products: number; variants: number; images: number }>;
+  getCatalogSyncState(id: string): Promise<CatalogSyncState | undefined>;
+  updateCatalogSyncState(id: string, updates: Partial<Omit<CatalogSyncState, 'id'>>): Promise<CatalogSyncState>;
+  recordSkuConversion(storeId: string, sku: string, settings: unknown): Promise<void>; // one row per distinct settings
+  findSkuConversions(storeId: string, skus: string[]): Promise<SkuConversion[]>; // case-insensitive, latest first
+
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  saveWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>; // inserts or replaces by id
+  deleteWebhookDeliveriesBefore(date: Date): Promise<number>; // by receivedAt
+
+  createCatalogAudit(audit: InsertCatalogAuditRecord): Promise<CatalogAuditRecord>;
+  getCatalogAudit(id: string): Promise<CatalogAuditRecord | undefined>;
+  listCatalogAudits(): Promise<CatalogAuditRecord[]>; // latest first
+  updateCatalogAudit(id: string, updates: Partial<InsertCatalogAuditRecord>): Promise<CatalogAuditRecord | undefined>;
+  deleteCatalogAudit(id: string): Promise<boolean>; // also deletes its issues
+  addCatalogAuditIssues(auditId: string, issues: CatalogAuditIssue[]): Promise<void>; // after the ones already added
+  findCatalogAuditIssues(auditId: string, filter: Partial<CatalogAuditIssuesQuery>): Promise<{ issues: CatalogAuditIssue[]; total: number }>; // in the order added, all without a limit
+}
+
+// The in-memory key of a SKU conversion, matching the sku_conversions primary key
+function skuConversionKey({ storeId, normalizedSku, settingsKey }: SkuConversion): string {
+  return `${storeId}\n${normalizedSku}\n${settingsKey}`;
 }
 
 export class MemStorage implements IStorage {
   private jobs: Map<string, ProcessingJob>;
+  private presets: Map<string, ImagePreset>;
+  protected batchJobs: Map<string, BatchJobRecord>;
+  protected batchItems: Map<string, BatchItemRecord>;
+  private catalogProducts: Map<number, CatalogProductRecord>;
+  private catalogVariants: Map<number, CatalogVariantRecord[]>; // by product id
+  private catalogImages: Map<number, CatalogImageRecord[]>; // by product id
+  private catalogSyncStates: Map<string, CatalogSyncState>;
+  protected skuConversions: Map<string, SkuConversion>; // by store, normalized SKU and settings key
+  protected webhookDeliveries: Map<string, WebhookDelivery>;
+  protected catalogAudits: Map<string, CatalogAuditRecord>;
+  protected catalogAuditIssues: Map<string, CatalogAuditIssue[]>; // by audit id
 
   constructor() {
     this.jobs = new Map();
+    this.presets = new Map(defaultImagePresets.map(preset => [preset.id, { ...preset }]));
+    this.batchJobs = new Map();
+    this.batchItems = new Map();
+    this.catalogProducts = new Map();
+    this.catalogVariants = new Map();
+    this.catalogImages = new Map();
+    this.catalogSyncStates = new Map();
+    this.skuConversions = new Map();
+    this.webhookDeliveries = new Map();
+    this.catalogAudits = new Map();
+    this.catalogAuditIssues = new Map();
   }
 
   async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
     const id = randomUUID();
+    const now = new Date();
     const job: ProcessingJob = {
       ...insertJob,
       dpi: insertJob.dpi || 300,
+      format: insertJob.format || 'jpeg',
+      preset: insertJob.preset ?? null,
       id,
       status: 'pending',
       resultUrl: null,
       errorMessage: null,
       productTitle: null,
       productImage: null,
+      createdAt: now,
+      updatedAt: now,
     };
     this.jobs.set(id, job);
     return job;
@@ -39,8 +162,8 @@ export class MemStorage implements IStorage {
   async updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
     const job = this.jobs.get(id);
     if (!job) return undefined;
-    
-    const updatedJob = { ...job, ...updates };
+
+    const updatedJob = { ...job, ...updates, id, updatedAt: new Date() };
     this.jobs.set(id, updatedJob);
     return updatedJob;
   }
@@ -49,9 +172,924 @@ export class MemStorage implements IStorage {
     return Array.from(this.jobs.values()).filter(job => job.status === status);
   }
 
+  async listProcessingJobs(filter: ProcessingJobFilter): Promise<{ jobs: ProcessingJob[]; total: number }> {
+    const search = filter.search?.toLowerCase();
+    const matches = Array.from(this.jobs.values())
+      .filter(job =>
+        (!filter.status || job.status === filter.status) &&
+        (!filter.type || job.type === filter.type) &&
+        (!filter.preset || job.preset === filter.preset) &&
+        (!search || job.input.toLowerCase().includes(search)) &&
+        (!filter.createdAfter || job.createdAt >= filter.createdAfter) &&
+        (!filter.createdBefore || job.createdAt <= filter.createdBefore)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      jobs: matches.slice(filter.offset, filter.offset + filter.limit),
+      total: matches.length,
+    };
+  }
+
   async deleteProcessingJob(id: string): Promise<boolean> {
     return this.jobs.delete(id);
   }
+
+  async getImagePresets(): Promise<ImagePreset[]> {
+    return Array.from(this.presets.values());
+  }
+
+  async getImagePreset(id: string): Promise<ImagePreset | undefined> {
+    return this.presets.get(id);
+  }
+
+  async createImagePreset(insertPreset: InsertImagePreset): Promise<ImagePreset> {
+    const id = randomUUID();
+    const preset: ImagePreset = {
+      id,
+      name: insertPreset.name,
+      description: insertPreset.description ?? null,
+      width: insertPreset.width ?? null,
+      height: insertPreset.height ?? null,
+      fit: insertPreset.fit || 'cover',
+      background: insertPreset.background || '#ffffff',
+      format: insertPreset.format || 'jpeg',
+    };
+    this.presets.set(id, preset);
+    return preset;
+  }
+
+  async updateImagePreset(id: string, updates: Partial<InsertImagePreset>): Promise<ImagePreset | undefined> {
+    const preset = this.presets.get(id);
+    if (!preset) return undefined;
+
+    const updatedPreset = { ...preset, ...updates };
+    this.presets.set(id, updatedPreset);
+    return updatedPreset;
+  }
+
+  async deleteImagePreset(id: string): Promise<boolean> {
+    return this.presets.delete(id);
+  }
+
+  async createBatchJob(insertJob: InsertBatchJobRecord, insertItems: InsertBatchItemRecord[]): Promise<BatchJobRecord> {
+    const job: BatchJobRecord = {
+      ...insertJob,
+      status: insertJob.status || 'pending',
+      completed: insertJob.completed ?? 0,
+      failed: insertJob.failed ?? 0,
+      cancelled: insertJob.cancelled ?? 0,
+      createdAt: insertJob.createdAt || new Date(),
+      startedAt: insertJob.startedAt ?? null,
+      completedAt: insertJob.completedAt ?? null,
+    };
+    this.batchJobs.set(job.id, job);
+
+    insertItems.forEach(insertItem => {
+      this.batchItems.set(insertItem.id, {
+        ...insertItem,
+        status: insertItem.status || 'pending',
+        uploadKey: insertItem.uploadKey ?? null,
+        outputs: insertItem.outputs ?? [],
+        warnings: null,
+        error: null,
+        attempts: insertItem.attempts ?? 0,
+        publication: null,
+      });
+    });
+    return { ...job };
+  }
+
+  async getBatchJob(id: string): Promise<BatchJobRecord | undefined> {
+    const job = this.batchJobs.get(id);
+    return job && { ...job };
+  }
+
+  async getBatchItems(jobId: string): Promise<BatchItemRecord[]> {
+    return Array.from(this.batchItems.values())
+      .filter(item => item.jobId === jobId)
+      .sort((a, b) => a.position - b.position)
+      .map(item => ({ ...item }));
+  }
+
+  async updateBatchJob(id: string, updates: Partial<InsertBatchJobRecord>): Promise<BatchJobRecord | undefined> {
+    const job = this.batchJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates, id };
+    this.batchJobs.set(id, updatedJob);
+    return { ...updatedJob };
+  }
+
+  async updateBatchItem(id: string, updates: Partial<InsertBatchItemRecord>): Promise<BatchItemRecord | undefined> {
+    const item = this.batchItems.get(id);
+    if (!item) return undefined;
+
+    const updatedItem = { ...item, ...updates, id };
+    this.batchItems.set(id, updatedItem);
+    return { ...updatedItem };
+  }
+
+  async getBatchJobsByStatus(statuses: string[]): Promise<BatchJobRecord[]> {
+    return Array.from(this.batchJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .map(job => ({ ...job }));
+  }
+
+  async getBatchJobsCreatedBefore(date: Date): Promise<BatchJobRecord[]> {
+    return Array.from(this.batchJobs.values())
+      .filter(job => job.createdAt < date)
+      .map(job => ({ ...job }));
+  }
+
+  async deleteBatchJob(id: string): Promise<boolean> {
+    Array.from(this.batchItems.values())
+      .filter(item => item.jobId === id)
+      .forEach(item => this.batchItems.delete(item.id));
+    return this.batchJobs.delete(id);
+  }
+
+  async upsertCatalogProducts(products: InsertCatalogProduct[]): Promise<void> {
+    for (const { variants, imageKeys, ...product } of products) {
+      this.catalogProducts.set(product.id, { ...product, storeId: product.storeId ?? 'default', syncedAt: product.syncedAt ?? new Date() });
+      this.catalogVariants.set(product.id, variants.map(variant => ({
+        ...variant,
+        productId: product.id,
+        imageId: variant.imageId ?? null,
+      })));
+      this.catalogImages.set(product.id, imageKeys.map(image => ({ ...image, productId: product.id })));
+    }
+  }
+
+  async findCatalogProductBySku(storeId: string, sku: string): Promise<CatalogProduct | undefined> {
+    const normalized = normalizeSku(sku);
+    const productIds = Array.from(this.catalogVariants.entries())
+      .filter(([productId, variants]) => this.catalogProducts.get(productId)!.storeId === storeId &&
+        variants.some(variant => variant.normalizedSku === normalized))
+      .map(([productId]) => productId)
+      .sort((a, b) => a - b);
+    if (productIds.length === 0) return undefined;
+
+    const product = this.catalogProducts.get(productIds[0])!;
+    const variants = this.catalogVariants.get(product.id)!.map(variant => ({ ...variant }));
+    return { ...product, variants: variants.sort((a, b) => a.position - b.position) };
+  }
+
+  async getCatalogProducts(ids: number[]): Promise<CatalogProduct[]> {
+    return ids
+      .filter(id => this.catalogProducts.has(id))
+      .map(id => ({
+        ...this.catalogProducts.get(id)!,
+        variants: this.catalogVariants.get(id)!.map(variant => ({ ...variant })).sort((a, b) => a.position - b.position)
+      }));
+  }
+
+  async listCatalogProducts(storeId: string): Promise<CatalogProduct[]> {
+    return this.getCatalogProducts(this.getCatalogProductIds(storeId).sort((a, b) => a - b));
+  }
+
+  async findCatalogImages(storeId: string, field: 'id' | 'urlKey' | 'filenameKey', value: string | number): Promise<CatalogImageRecord[]> {
+    return this.getCatalogProductIds(storeId)
+      .flatMap(productId => this.catalogImages.get(productId)!)
+      .filter(image => image[field] === value)
+      .sort((a, b) => a.productId - b.productId || a.position - b.position)
+      .map(image => ({ ...image }));
+  }
+
+  async deleteCatalogProductsSyncedBefore(storeId: string, date: Date): Promise<number> {
+    const stale = Array.from(this.catalogProducts.values()).filter(product => product.storeId === storeId && product.syncedAt < date);
+    stale.forEach(product => {
+      this.catalogProducts.delete(product.id);
+      this.catalogVariants.delete(product.id);
+      this.catalogImages.delete(product.id);
+    });
+    return stale.length;
+  }
+
+  async getCatalogStats(storeId: string): Promise<{ products: number; variants: number; images: number }> {
+    const productIds = this.getCatalogProductIds(storeId);
+    const variants = productIds.reduce((total, productId) => total + this.catalogVariants.get(productId)!.length, 0);
+    const images = productIds.reduce((total, productId) => total + this.catalogImages.get(productId)!.length, 0);
+    return { products: productIds.length, variants, images };
+  }
+
+  private getCatalogProductIds(storeId: string): number[] {
+    return Array.from(this.catalogProducts.values())
+      .filter(product => product.storeId === storeId)
+      .map(product => product.id);
+  }
+
+  async getCatalogSyncState(id: string): Promise<CatalogSyncState | undefined> {
+    const state = this.catalogSyncStates.get(id);
+    return state && { ...state };
+  }
+
+  async updateCatalogSyncState(id: string, updates: Partial<Omit<CatalogSyncState, 'id'>>): Promise<CatalogSyncState> {
+    const state: CatalogSyncState = {
+      lastUpdatedAt: null,
+      lastFullSyncAt: null,
+      lastSyncedAt: null,
+      lastError: null,
+      ...this.catalogSyncStates.get(id),
+      ...updates,
+      id,
+    };
+    this.catalogSyncStates.set(id, state);
+    return { ...state };
+  }
+
+  async recordSkuConversion(storeId: string, sku: string, settings: unknown): Promise<void> {
+    const conversion: SkuConversion = {
+      storeId,
+      normalizedSku: normalizeSku(sku),
+      sku,
+      settingsKey: conversionSettingsKey(settings),
+      settings,
+      convertedAt: new Date(),
+    };
+    this.skuConversions.set(skuConversionKey(conversion), conversion);
+  }
+
+  async findSkuConversions(storeId: string, skus: string[]): Promise<SkuConversion[]> {
+    const normalized = new Set(skus.map(normalizeSku));
+    return Array.from(this.skuConversions.values())
+      .filter(conversion => conversion.storeId === storeId && normalized.has(conversion.normalizedSku))
+      .sort((a, b) => b.convertedAt.getTime() - a.convertedAt.getTime())
+      .map(conversion => ({ ...conversion }));
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    return delivery ? { ...delivery, jobs: [...delivery.jobs] } : undefined;
+  }
+
+  async saveWebhookDelivery(insert: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      ...insert,
+      jobs: [...insert.jobs],
+      receivedAt: insert.receivedAt ?? this.webhookDeliveries.get(insert.id)?.receivedAt ?? new Date(),
+      completedAt: insert.completedAt ?? null,
+    };
+    this.webhookDeliveries.set(delivery.id, delivery);
+    return { ...delivery };
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    let deleted = 0;
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.receivedAt < date) {
+        this.webhookDeliveries.delete(delivery.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createCatalogAudit(insert: InsertCatalogAuditRecord): Promise<CatalogAuditRecord> {
+    const audit: CatalogAuditRecord = {
+      ...insert,
+      status: insert.status || 'running',
+      error: insert.error ?? null,
+      startedAt: insert.startedAt || new Date(),
+      completedAt: insert.completedAt ?? null,
+    };
+    this.catalogAudits.set(audit.id, audit);
+    this.catalogAuditIssues.set(audit.id, []);
+    return { ...audit };
+  }
+
+  async getCatalogAudit(id: string): Promise<CatalogAuditRecord | undefined> {
+    const audit = this.catalogAudits.get(id);
+    return audit ? { ...audit } : undefined;
+  }
+
+  async listCatalogAudits(): Promise<CatalogAuditRecord[]> {
+    return Array.from(this.catalogAudits.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map(audit => ({ ...audit }));
+  }
+
+  async updateCatalogAudit(id: string, updates: Partial<InsertCatalogAuditRecord>): Promise<CatalogAuditRecord | undefined> {
+    const audit = this.catalogAudits.get(id);
+    if (!audit) return undefined;
+
+    const updatedAudit = { ...audit, ...updates, id };
+    this.catalogAudits.set(id, updatedAudit);
+    return { ...updatedAudit };
+  }
+
+  async deleteCatalogAudit(id: string): Promise<boolean> {
+    this.catalogAuditIssues.delete(id);
+    return this.catalogAudits.delete(id);
+  }
+
+  async addCatalogAuditIssues(auditId: string, issues: CatalogAuditIssue[]): Promise<void> {
+    this.catalogAuditIssues.get(auditId)?.push(...issues.map(issue => ({ ...issue })));
+  }
+
+  async findCatalogAuditIssues(auditId: string, { type, q, offset = 0, limit }: Partial<CatalogAuditIssuesQuery>): Promise<{ issues: CatalogAuditIssue[]; total: number }> {
+    const search = q?.toLowerCase();
+    const issues = (this.catalogAuditIssues.get(auditId) ?? []).filter(issue =>
+      (!type || issue.type === type) &&
+      (!search || [issue.productTitle, issue.handle, issue.sku ?? ''].some(value => value.toLowerCase().includes(search)))
+    );
+    return {
+      issues: issues.slice(offset, limit === undefined ? undefined : offset + limit).map(issue => ({ ...issue })),
+      total: issues.length,
+    };
+  }
+}
+
+// Postgres-backed storage. Takes any drizzle Postgres database so tests can pass a
+// local server or an embedded stand-in; the schema comes from ./migrations.
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
+    const [job] = await this.db.insert(processingJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getProcessingJob(id: string): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+
+  async updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [job] = await this.db
+      .update(processingJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getProcessingJobsByStatus(status: string): Promise<ProcessingJob[]> {
+    return await this.db.select().from(processingJobs).where(eq(processingJobs.status, status));
+  }
+
+  async listProcessingJobs(filter: ProcessingJobFilter): Promise<{ jobs: ProcessingJob[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.status) conditions.push(eq(processingJobs.status, filter.status));
+    if (filter.type) conditions.push(eq(processingJobs.type, filter.type));
+    if (filter.preset) conditions.push(eq(processingJobs.preset, filter.preset));
+    if (filter.search) conditions.push(ilike(processingJobs.input, `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`));
+    if (filter.createdAfter) conditions.push(gte(processingJobs.createdAt, filter.createdAfter));
+    if (filter.createdBefore) conditions.push(lte(processingJobs.createdAt, filter.createdBefore));
+    const where = and(...conditions);
+
+    const [jobs, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(processingJobs)
+        .where(where)
+        .orderBy(desc(processingJobs.createdAt))
+        .limit(filter.limit)
+        .offset(filter.offset),
+      this.db.select({ total: count() }).from(processingJobs).where(where),
+    ]);
+
+    return { jobs, total };
+  }
+
+  async deleteProcessingJob(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(processingJobs)
+      .where(eq(processingJobs.id, id))
+      .returning({ id: processingJobs.id });
+    return deleted.length > 0;
+  }
+
+  async getImagePresets(): Promise<ImagePreset[]> {
+    return await this.db.select().from(imagePresets).orderBy(asc(imagePresets.name));
+  }
+
+  async getImagePreset(id: string): Promise<ImagePreset | undefined> {
+    const [preset] = await this.db.select().from(imagePresets).where(eq(imagePresets.id, id));
+    return preset;
+  }
+
+  async createImagePreset(insertPreset: InsertImagePreset): Promise<ImagePreset> {
+    const [preset] = await this.db.insert(imagePresets).values(insertPreset).returning();
+    return preset;
+  }
+
+  async updateImagePreset(id: string, updates: Partial<InsertImagePreset>): Promise<ImagePreset | undefined> {
+    const [preset] = await this.db
+      .update(imagePresets)
+      .set(updates)
+      .where(eq(imagePresets.id, id))
+      .returning();
+    return preset;
+  }
+
+  async deleteImagePreset(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(imagePresets)
+      .where(eq(imagePresets.id, id))
+      .returning({ id: imagePresets.id });
+    return deleted.length > 0;
+  }
+
+  async createBatchJob(job: InsertBatchJobRecord, items: InsertBatchItemRecord[]): Promise<BatchJobRecord> {
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(batchJobs).values(job).returning();
+      // Large batches are inserted in chunks to stay under Postgres' bind parameter limit
+      for (let i = 0; i < items.length; i += 1000) {
+        await tx.insert(batchItems).values(items.slice(i, i + 1000));
+      }
+      return created;
+    });
+  }
+
+  async getBatchJob(id: string): Promise<BatchJobRecord | undefined> {
+    const [job] = await this.db.select().from(batchJobs).where(eq(batchJobs.id, id));
+    return job;
+  }
+
+  async getBatchItems(jobId: string): Promise<BatchItemRecord[]> {
+    return await this.db
+      .select()
+      .from(batchItems)
+      .where(eq(batchItems.jobId, jobId))
+      .orderBy(asc(batchItems.position));
+  }
+
+  async updateBatchJob(id: string, updates: Partial<InsertBatchJobRecord>): Promise<BatchJobRecord | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [job] = await this.db.update(batchJobs).set(changes).where(eq(batchJobs.id, id)).returning();
+    return job;
+  }
+
+  async updateBatchItem(id: string, updates: Partial<InsertBatchItemRecord>): Promise<BatchItemRecord | undefined> {
+    const { id: _id, jobId: _jobId, ...changes } = updates;
+    const [item] = await this.db.update(batchItems).set(changes).where(eq(batchItems.id, id)).returning();
+    return item;
+  }
+
+  async getBatchJobsByStatus(statuses: string[]): Promise<BatchJobRecord[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(inArray(batchJobs.status, statuses))
+      .orderBy(asc(batchJobs.createdAt));
+  }
+
+  async getBatchJobsCreatedBefore(date: Date): Promise<BatchJobRecord[]> {
+    return await this.db.select().from(batchJobs).where(lt(batchJobs.createdAt, date));
+  }
+
+  async deleteBatchJob(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(batchJobs)
+      .where(eq(batchJobs.id, id))
+      .returning({ id: batchJobs.id });
+    return deleted.length > 0;
+  }
+
+  async upsertCatalogProducts(products: InsertCatalogProduct[]): Promise<void> {
+    if (products.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      const ids = products.map(product => product.id);
+      await tx
+        .insert(catalogProducts)
+        .values(products.map(({ variants: _variants, imageKeys: _imageKeys, ...product }) => product))
+        .onConflictDoUpdate({
+          target: catalogProducts.id,
+          set: {
+            storeId: sql`excluded.store_id`,
+            title: sql`excluded.title`,
+            handle: sql`excluded.handle`,
+            images: sql`excluded.images`,
+            shopifyUpdatedAt: sql`excluded.shopify_updated_at`,
+            syncedAt: sql`excluded.synced_at`,
+          },
+        });
+
+      // Variants are replaced wholesale so ones removed in Shopify disappear too
+      await tx.delete(catalogVariants).where(inArray(catalogVariants.productId, ids));
+      const variants = products.flatMap(product => product.variants.map(variant => ({ ...variant, productId: product.id })));
+      for (let i = 0; i < variants.length; i += 1000) {
+        await tx.insert(catalogVariants).values(variants.slice(i, i + 1000));
+      }
+
+      await tx.delete(catalogImages).where(inArray(catalogImages.productId, ids));
+      const images = products.flatMap(product => product.imageKeys.map(image => ({ ...image, productId: product.id })));
+      for (let i = 0; i < images.length; i += 1000) {
+        await tx.insert(catalogImages).values(images.slice(i, i + 1000));
+      }
+    });
+  }
+
+  async findCatalogProductBySku(storeId: string, sku: string): Promise<CatalogProduct | undefined> {
+    const [match] = await this.db
+      .select({ productId: catalogVariants.productId })
+      .from(catalogVariants)
+      .innerJoin(catalogProducts, eq(catalogProducts.id, catalogVariants.productId))
+      .where(and(eq(catalogProducts.storeId, storeId), eq(catalogVariants.normalizedSku, normalizeSku(sku))))
+      .orderBy(asc(catalogVariants.productId))
+      .limit(1);
+    if (!match) return undefined;
+
+    const [product] = await this.db.select().from(catalogProducts).where(eq(catalogProducts.id, match.productId));
+    if (!product) return undefined;
+
+    const variants = await this.db
+      .select()
+      .from(catalogVariants)
+      .where(eq(catalogVariants.productId, product.id))
+      .orderBy(asc(catalogVariants.position));
+    return { ...product, variants };
+  }
+
+  async getCatalogProducts(ids: number[]): Promise<CatalogProduct[]> {
+    if (ids.length === 0) return [];
+
+    const products = await this.db.select().from(catalogProducts).where(inArray(catalogProducts.id, ids));
+    const variants = await this.db
+      .select()
+      .from(catalogVariants)
+      .where(inArray(catalogVariants.productId, ids))
+      .orderBy(asc(catalogVariants.position));
+    const byId = new Map(products.map(product => [product.id, product]));
+    return ids
+      .filter(id => byId.has(id))
+      .map(id => ({ ...byId.get(id)!, variants: variants.filter(variant => variant.productId === id) }));
+  }
+
+  async listCatalogProducts(storeId: string): Promise<CatalogProduct[]> {
+    const products = await this.db
+      .select()
+      .from(catalogProducts)
+      .where(eq(catalogProducts.storeId, storeId))
+      .orderBy(asc(catalogProducts.id));
+    const variants = await this.db
+      .select({ variant: catalogVariants })
+      .from(catalogVariants)
+      .innerJoin(catalogProducts, eq(catalogProducts.id, catalogVariants.productId))
+      .where(eq(catalogProducts.storeId, storeId))
+      .orderBy(asc(catalogVariants.productId), asc(catalogVariants.position));
+
+    const variantsByProduct = new Map<number, CatalogVariantRecord[]>();
+    for (const { variant } of variants) {
+      const list = variantsByProduct.get(variant.productId) ?? [];
+      list.push(variant);
+      variantsByProduct.set(variant.productId, list);
+    }
+    return products.map(product => ({ ...product, variants: variantsByProduct.get(product.id) ?? [] }));
+  }
+
+  async findCatalogImages(storeId: string, field: 'id' | 'urlKey' | 'filenameKey', value: string | number): Promise<CatalogImageRecord[]> {
+    const images = await this.db
+      .select({ image: catalogImages })
+      .from(catalogImages)
+      .innerJoin(catalogProducts, eq(catalogProducts.id, catalogImages.productId))
+      .where(and(eq(catalogProducts.storeId, storeId), eq(catalogImages[field], value)))
+      .orderBy(asc(catalogImages.productId), asc(catalogImages.position));
+    return images.map(({ image }) => image);
+  }
+
+  async deleteCatalogProductsSyncedBefore(storeId: string, date: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(catalogProducts)
+      .where(and(eq(catalogProducts.storeId, storeId), lt(catalogProducts.syncedAt, date)))
+      .returning({ id: catalogProducts.id });
+    return deleted.length;
+  }
+
+  async getCatalogStats(storeId: string): Promise<{ products: number; variants: number; images: number }> {
+    const [products] = await this.db
+      .select({ total: count() })
+      .from(catalogProducts)
+      .where(eq(catalogProducts.storeId, storeId));
+    const [variants] = await this.db
+      .select({ total: count() })
+      .from(catalogVariants)
+      .innerJoin(catalogProducts, eq(catalogProducts.id, catalogVariants.productId))
+      .where(eq(catalogProducts.storeId, storeId));
+    const [images] = await this.db
+      .select({ total: count() })
+      .from(catalogImages)
+      .innerJoin(catalogProducts, eq(catalogProducts.id, catalogImages.productId))
+      .where(eq(catalogProducts.storeId, storeId));
+    return { products: products.total, variants: variants.total, images: images.total };
+  }
+
+  async getCatalogSyncState(id: string): Promise<CatalogSyncState | undefined> {
+    const [state] = await this.db.select().from(catalogSyncState).where(eq(catalogSyncState.id, id));
+    return state;
+  }
+
+  async updateCatalogSyncState(id: string, updates: Partial<Omit<CatalogSyncState, 'id'>>): Promise<CatalogSyncState> {
+    const [state] = await this.db
+      .insert(catalogSyncState)
+      .values({ ...updates, id })
+      .onConflictDoUpdate({ target: catalogSyncState.id, set: updates })
+      .returning();
+    return state;
+  }
+
+  async recordSkuConversion(storeId: string, sku: string, settings: unknown): Promise<void> {
+    await this.db
+      .insert(skuConversions)
+      .values({ storeId, normalizedSku: normalizeSku(sku), sku, settingsKey: conversionSettingsKey(settings), settings })
+      .onConflictDoUpdate({
+        target: [skuConversions.storeId, skuConversions.normalizedSku, skuConversions.settingsKey],
+        set: { sku, convertedAt: new Date() },
+      });
+  }
+
+  async findSkuConversions(storeId: string, skus: string[]): Promise<SkuConversion[]> {
+    if (skus.length === 0) return [];
+
+    return await this.db
+      .select()
+      .from(skuConversions)
+      .where(and(eq(skuConversions.storeId, storeId), inArray(skuConversions.normalizedSku, skus.map(normalizeSku))))
+      .orderBy(desc(skuConversions.convertedAt));
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async saveWebhookDelivery(insert: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const { id: _id, receivedAt: _receivedAt, ...updates } = insert;
+    const [delivery] = await this.db
+      .insert(webhookDeliveries)
+      .values(insert)
+      .onConflictDoUpdate({ target: webhookDeliveries.id, set: { ...updates, completedAt: insert.completedAt ?? null } })
+      .returning();
+    return delivery;
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(webhookDeliveries)
+      .where(lt(webhookDeliveries.receivedAt, date))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  async createCatalogAudit(audit: InsertCatalogAuditRecord): Promise<CatalogAuditRecord> {
+    const [created] = await this.db.insert(catalogAudits).values(audit).returning();
+    return created;
+  }
+
+  async getCatalogAudit(id: string): Promise<CatalogAuditRecord | undefined> {
+    const [audit] = await this.db.select().from(catalogAudits).where(eq(catalogAudits.id, id));
+    return audit;
+  }
+
+  async listCatalogAudits(): Promise<CatalogAuditRecord[]> {
+    return await this.db.select().from(catalogAudits).orderBy(desc(catalogAudits.startedAt));
+  }
+
+  async updateCatalogAudit(id: string, updates: Partial<InsertCatalogAuditRecord>): Promise<CatalogAuditRecord | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [audit] = await this.db.update(catalogAudits).set(changes).where(eq(catalogAudits.id, id)).returning();
+    return audit;
+  }
+
+  async deleteCatalogAudit(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(catalogAudits)
+      .where(eq(catalogAudits.id, id))
+      .returning({ id: catalogAudits.id });
+    return deleted.length > 0;
+  }
+
+  async addCatalogAuditIssues(auditId: string, issues: CatalogAuditIssue[]): Promise<void> {
+    if (issues.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      const [{ next }] = await tx
+        .select({ next: sql<number>`coalesce(max(${catalogAuditIssues.position}) + 1, 0)::int` })
+        .from(catalogAuditIssues)
+        .where(eq(catalogAuditIssues.auditId, auditId));
+      const rows = issues.map((issue, index) => ({ ...issue, auditId, position: next + index }));
+      // Chunked to stay under Postgres' bind parameter limit
+      for (let i = 0; i < rows.length; i += 1000) {
+        await tx.insert(catalogAuditIssues).values(rows.slice(i, i + 1000));
+      }
+    });
+  }
+
+  async findCatalogAuditIssues(auditId: string, { type, q, offset = 0, limit }: Partial<CatalogAuditIssuesQuery>): Promise<{ issues: CatalogAuditIssue[]; total: number }> {
+    const conditions: SQL[] = [eq(catalogAuditIssues.auditId, auditId)];
+    if (type) conditions.push(eq(catalogAuditIssues.type, type));
+    if (q) {
+      const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(
+        ilike(catalogAuditIssues.productTitle, pattern),
+        ilike(catalogAuditIssues.handle, pattern),
+        ilike(catalogAuditIssues.sku, pattern)
+      )!);
+    }
+    const where = and(...conditions);
+
+    const query = this.db
+      .select()
+      .from(catalogAuditIssues)
+      .where(where)
+      .orderBy(asc(catalogAuditIssues.position))
+      .offset(offset);
+    const [rows, [{ total }]] = await Promise.all([
+      limit === undefined ? query : query.limit(limit),
+      this.db.select({ total: count() }).from(catalogAuditIssues).where(where),
+    ]);
+
+    return { issues: rows.map(({ auditId: _auditId, position: _position, ...issue }) => issue), total };
+  }
+
+  // Migration 0008 gave catalog rows from before multi-store support the store id 'default'.
+  // Moves them and their sync watermark to the configured primary store; returns the products moved.
+  async assignLegacyCatalog(storeId: string): Promise<number> {
+    if (storeId === 'default') return 0;
+
+    return await this.db.transaction(async (tx) => {
+      const moved = await tx
+        .update(catalogProducts)
+        .set({ storeId })
+        .where(eq(catalogProducts.storeId, 'default'))
+        .returning({ id: catalogProducts.id });
+
+      // A store that has synced already keeps its own watermark
+      const [existing] = await tx.select({ id: catalogSyncState.id }).from(catalogSyncState).where(eq(catalogSyncState.id, storeId));
+      if (existing) {
+        await tx.delete(catalogSyncState).where(eq(catalogSyncState.id, 'default'));
+      } else {
+        await tx.update(catalogSyncState).set({ id: storeId }).where(eq(catalogSyncState.id, 'default'));
+      }
+      return moved.length;
+    });
+  }
+
+  // Adds any missing default presets without touching edited ones
+  async seedDefaultPresets(): Promise<void> {
+    await this.db.insert(imagePresets).values(defaultImagePresets).onConflictDoNothing();
+  }
+}
+
+// In-memory storage that also writes batch jobs and items to a JSON file, so batch status
+// and downloads survive a restart without Postgres. Webhook deliveries go in the same file
+// so a redelivery after a restart is still recognized. Everything else stays in memory.
+export class FileBackedStorage extends MemStorage {
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  async createBatchJob(job: InsertBatchJobRecord, items: InsertBatchItemRecord[]): Promise<BatchJobRecord> {
+    const created = await super.createBatchJob(job, items);
+    await this.save();
+    return created;
+  }
+
+  async updateBatchJob(id: string, updates: Partial<InsertBatchJobRecord>): Promise<BatchJobRecord | undefined> {
+    const job = await super.updateBatchJob(id, updates);
+    if (job) await this.save();
+    return job;
+  }
+
+  async updateBatchItem(id: string, updates: Partial<InsertBatchItemRecord>): Promise<BatchItemRecord | undefined> {
+    const item = await super.updateBatchItem(id, updates);
+    if (item) await this.save();
+    return item;
+  }
+
+  async deleteBatchJob(id: string): Promise<boolean> {
+    const deleted = await super.deleteBatchJob(id);
+    if (deleted) await this.save();
+    return deleted;
+  }
+
+  async recordSkuConversion(storeId: string, sku: string, settings: unknown): Promise<void> {
+    await super.recordSkuConversion(storeId, sku, settings);
+    await this.save();
+  }
+
+  async saveWebhookDelivery(insert: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery = await super.saveWebhookDelivery(insert);
+    await this.save();
+    return delivery;
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    const deleted = await super.deleteWebhookDeliveriesBefore(date);
+    if (deleted > 0) await this.save();
+    return deleted;
+  }
+
+  async createCatalogAudit(insert: InsertCatalogAuditRecord): Promise<CatalogAuditRecord> {
+    const audit = await super.createCatalogAudit(insert);
+    await this.save();
+    return audit;
+  }
+
+  async updateCatalogAudit(id: string, updates: Partial<InsertCatalogAuditRecord>): Promise<CatalogAuditRecord | undefined> {
+    const audit = await super.updateCatalogAudit(id, updates);
+    if (audit) await this.save();
+    return audit;
+  }
+
+  async deleteCatalogAudit(id: string): Promise<boolean> {
+    const deleted = await super.deleteCatalogAudit(id);
+    if (deleted) await this.save();
+    return deleted;
+  }
+
+  async addCatalogAuditIssues(auditId: string, issues: CatalogAuditIssue[]): Promise<void> {
+    await super.addCatalogAuditIssues(auditId, issues);
+    if (issues.length > 0) await this.save();
+  }
+
+  private load() {
+    let data: {
+      jobs: BatchJobRecord[];
+      items: BatchItemRecord[];
+      webhookDeliveries?: WebhookDelivery[];
+      skuConversions?: SkuConversion[];
+      catalogAudits?: Array<CatalogAuditRecord & { issues: CatalogAuditIssue[] }>;
+    };
+    try {
+      data = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw new Error(`Batch job file ${this.filePath} is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const toDate = (value: unknown) => value ? new Date(value as string) : null;
+    for (const job of data.jobs) {
+      this.batchJobs.set(job.id, { ...job, createdAt: new Date(job.createdAt), startedAt: toDate(job.startedAt), completedAt: toDate(job.completedAt) });
+    }
+    for (const item of data.items) {
+      this.batchItems.set(item.id, item);
+    }
+    // Files written before deliveries, conversions and audits were kept don't have them
+    for (const delivery of data.webhookDeliveries ?? []) {
+      this.webhookDeliveries.set(delivery.id, { ...delivery, receivedAt: new Date(delivery.receivedAt), completedAt: toDate(delivery.completedAt) });
+    }
+    for (const conversion of data.skuConversions ?? []) {
+      this.skuConversions.set(skuConversionKey(conversion), { ...conversion, convertedAt: new Date(conversion.convertedAt) });
+    }
+    for (const { issues, ...audit } of data.catalogAudits ?? []) {
+      this.catalogAudits.set(audit.id, { ...audit, startedAt: new Date(audit.startedAt), completedAt: toDate(audit.completedAt) });
+      this.catalogAuditIssues.set(audit.id, issues);
+    }
+    console.log(`🗄️ Loaded ${data.jobs.length} batch job(s) from ${this.filePath}`);
+  }
+
+  // Writes are serialized, and changes made while a write is running share the next one
+  private async save() {
+    this.dirty = true;
+    while (this.writing) {
+      await this.writing.catch(() => {});
+    }
+    if (!this.dirty) return;
+
+    this.dirty = false;
+    this.writing = this.write().finally(() => { this.writing = null; });
+    await this.writing;
+  }
+
+  private async write() {
+    const data = JSON.stringify({
+      jobs: Array.from(this.batchJobs.values()),
+      items: Array.from(this.batchItems.values()),
+      webhookDeliveries: Array.from(this.webhookDeliveries.values()),
+      skuConversions: Array.from(this.skuConversions.values()),
+      catalogAudits: Array.from(this.catalogAudits.values()).map(audit => ({ ...audit, issues: this.catalogAuditIssues.get(audit.id) ?? [] })),
+    });
+    // Write then rename so a crash never leaves a half-written file behind
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(`${this.filePath}.tmp`, data);
+    await fs.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+// STORAGE=postgres keeps everything in DATABASE_URL. By default batch jobs, webhook deliveries,
+// SKU conversions and catalog audits are kept in BATCH_JOBS_FILE (next to RESULTS_DIR) and the
+// rest in memory - the catalog index is synced again in full after a restart;
+// STORAGE=memory keeps nothing.
+function createStorage(): IStorage {
+  if (process.env.STORAGE === 'postgres') {
+    console.log('🗄️ Using Postgres storage');
+    return new DbStorage(createDatabase().db);
+  }
+  if (process.env.STORAGE === 'memory') {
+    console.warn('⚠️ STORAGE=memory: batch jobs are lost on restart and their results become unreachable');
+    return new MemStorage();
+  }
+  const filePath = process.env.BATCH_JOBS_FILE || path.join(path.dirname(resultsDir), 'batch-jobs.json');
+  console.log(`🗄️ Keeping batch jobs in ${filePath}; the catalog index is in memory and synced in full at startup (STORAGE=postgres keeps it)`);
+  return new FileBackedStorage(filePath);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,14 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { Database, DatabaseConnection } from "../db";
+
+// An in-process Postgres (PGlite) with every migration applied, for tests that
+// need DbStorage without a Postgres server
+export async function createEmbeddedDatabase(): Promise<Omit<DatabaseConnection, 'driver'>> {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: "./migrations" });
+  return { db: db as unknown as Database, close: () => client.close() };
+}
@@ -0,0 +1,228 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { ShopifyService } from "../services/shopify";
+
+// A product as the fake Admin API serves it, in GraphQL terms (ids are numeric here)
+export interface FakeProduct {
+  id: number;
+  title: string;
+  handle: string;
+  updatedAt: string;
+  variants: Array<{ id: number; title: string; sku: string | null; imageId?: number | null }>;
+  images: Array<{ id: number; url: string; altText?: string | null; width?: number | null; height?: number | null }>;
+}
+
+// A raw reply for handlers that need a status code or headers, e.g. a 503 or a 429
+export class FakeResponse {
+  constructor(public status: number, public body: unknown, public headers: Record<string, string> = {}) {}
+}
+
+type GraphqlHandler = (variables: Record<string, any>, query: string) => unknown;
+type RestHandler = (url: URL, body: string) => FakeResponse;
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  operation?: string; // GraphQL operation name
+  variables?: Record<string, any>;
+}
+
+const gid = (type: string, id: number) => `gid://shopify/${type}/${id}`;
+
+// Cursors are plain offsets into the list
+function connection<T>(nodes: T[], first: number, after?: string | null) {
+  const start = after ? parseInt(after, 10) : 0;
+  const page = nodes.slice(start, start + first);
+  return {
+    pageInfo: { hasNextPage: start + first < nodes.length, endCursor: page.length ? String(start + page.length) : null },
+    edges: page.map(node => ({ node })),
+  };
+}
+
+// `first` of a nested connection in the query text, e.g. variants(first: 25)
+function pageSize(query: string, field: string): number {
+  return Number(query.match(new RegExp(`${field}\\(first: (\\d+)`))?.[1] ?? 100);
+}
+
+// An in-process stand-in for the Shopify Admin API. The catalog queries (sync, audit, SKU
+// lookup) are answered from `products`; anything else is added per test with onGraphql/onRest.
+export class FakeShopify {
+  products: FakeProduct[] = [];
+  requests: FakeRequest[] = [];
+  private server?: Server;
+  private graphqlHandlers = new Map<string, GraphqlHandler>();
+  private restHandlers = new Map<string, RestHandler>();
+
+  constructor(products: FakeProduct[] = []) {
+    this.products = products;
+    this.onGraphql('catalogProducts', (variables, query) => this.productsPage(variables, query, 'updatedAt'));
+    this.onGraphql('auditProducts', (variables, query) => this.productsPage(variables, query, 'id'));
+    for (const field of ['variants', 'images'] as const) {
+      const handler: GraphqlHandler = (variables) => {
+        const product = this.products.find(product => gid('Product', product.id) === variables.id);
+        return { product: product ? { [field]: connection<unknown>(this.toNode(product)[field], 100, variables.cursor) } : null };
+      };
+      const name = field === 'variants' ? 'Variants' : 'Images';
+      this.onGraphql(`catalogProduct${name}`, handler);
+      this.onGraphql(`auditProduct${name}`, handler);
+    }
+    this.onGraphql('productVariantsBySku', ({ query }) => {
+      const sku = String(query).match(/^sku:"(.*)"$/)?.[1];
+      const product = this.products.find(product => product.variants.some(variant => variant.sku === sku));
+      const variant = product?.variants.find(variant => variant.sku === sku);
+      return {
+        productVariants: {
+          edges: product && variant
+            ? [{ node: { id: gid('ProductVariant', variant.id), title: variant.title, sku: variant.sku, price: '1.00', product: this.toLookupNode(product) } }]
+            : [],
+        },
+      };
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  // Replaces the built-in answer, if any
+  onGraphql(operation: string, handler: GraphqlHandler) {
+    this.graphqlHandlers.set(operation, handler);
+  }
+
+  // Handles a REST path under the API base URL, e.g. /products.json
+  onRest(path: string, handler: RestHandler) {
+    this.restHandlers.set(path, handler);
+  }
+
+  // GraphQL operation names in the order they were requested
+  operations(): string[] {
+    return this.requests.filter(request => request.operation).map(request => request.operation!);
+  }
+
+  // A configured store that talks to this server
+  createStore(id = 'test'): ShopifyService {
+    return new ShopifyService({ id, name: id, domain: `${id}.myshopify.com`, accessToken: 'test-token', apiVersion: '2023-10', apiUrl: this.url });
+  }
+
+  async start(): Promise<this> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async close() {
+    this.server?.closeAllConnections();
+    await new Promise(resolve => this.server ? this.server.close(resolve) : resolve(undefined));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks).toString('utf8');
+    const url = new URL(req.url!, this.url);
+
+    let reply: FakeResponse;
+    try {
+      if (url.pathname === '/graphql.json') {
+        const { query, variables = {} } = JSON.parse(body);
+        const operation = String(query).match(/(?:query|mutation)\s+(\w+)/)?.[1] ?? 'anonymous';
+        this.requests.push({ method: req.method!, path: url.pathname, operation, variables });
+
+        const handler = this.graphqlHandlers.get(operation);
+        const result = handler
+          ? await handler(variables, query)
+          : new FakeResponse(200, { errors: [{ message: `Fake Shopify has no handler for ${operation}` }] });
+        reply = result instanceof FakeResponse ? result : new FakeResponse(200, { data: result });
+      } else {
+        this.requests.push({ method: req.method!, path: url.pathname + url.search });
+        const handler = this.restHandlers.get(url.pathname);
+        reply = handler ? handler(url, body) : new FakeResponse(404, { errors: 'Not Found' });
+      }
+    } catch (error) {
+      reply = new FakeResponse(500, { errors: error instanceof Error ? error.message : String(error) });
+    }
+
+    res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+    res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+  }
+
+  // The catalog sync reads oldest updates first and may filter by updated_at:>='...'
+  private productsPage(variables: Record<string, any>, query: string, sortKey: 'updatedAt' | 'id') {
+    const since = String(variables.query ?? '').match(/^updated_at:>='(.+)'$/)?.[1];
+    const products = this.products
+      .filter(product => !since || new Date(product.updatedAt) >= new Date(since))
+      .sort((a, b) => sortKey === 'id' ? a.id - b.id : a.updatedAt.localeCompare(b.updatedAt));
+    const page = connection(products, pageSize(query, 'products'), variables.cursor);
+    return {
+      products: {
+        pageInfo: page.pageInfo,
+        edges: page.edges.map(({ node }) => {
+          const full = this.toNode(node);
+          return {
+            node: {
+              ...full,
+              variants: connection(full.variants, pageSize(query, 'variants')),
+              images: connection(full.images, pageSize(query, 'images')),
+            },
+          };
+        }),
+      },
+    };
+  }
+
+  private toNode(product: FakeProduct) {
+    return {
+      id: gid('Product', product.id),
+      title: product.title,
+      handle: product.handle,
+      updatedAt: product.updatedAt,
+      variants: product.variants.map((variant, index) => ({
+        id: gid('ProductVariant', variant.id),
+        title: variant.title,
+        sku: variant.sku,
+        position: index + 1,
+        image: variant.imageId ? { id: gid('ProductImage', variant.imageId) } : null,
+      })),
+      images: product.images.map(image => ({
+        id: gid('ProductImage', image.id),
+        url: image.url,
+        altText: image.altText ?? null,
+        width: image.width ?? null,
+        height: image.height ?? null,
+      })),
+    };
+  }
+
+  // The shape searchProductBySkuGraphQL asks for
+  private toLookupNode(product: FakeProduct) {
+    const node = this.toNode(product);
+    return { ...node, variants: connection(node.variants, 100), images: connection(node.images, 100) };
+  }
+}
+
+// Products 1..count with `variants` variants and `images` images each, updated a minute apart
+export function fakeCatalog(count: number, { variants = 2, images = 2, start = 1 } = {}): FakeProduct[] {
+  return Array.from({ length: count }, (_, index) => {
+    const id = start + index;
+    const imageList = Array.from({ length: images }, (_, position) => ({
+      id: id * 1000 + position,
+      url: `https://cdn.shopify.com/s/files/1/0001/files/product-${id}-${position + 1}.jpg?v=1700000000`,
+      altText: `Product ${id}`,
+      width: 2048,
+      height: 2048,
+    }));
+    return {
+      id,
+      title: `Product ${id}`,
+      handle: `product-${id}`,
+      updatedAt: new Date(Date.UTC(2026, 0, 1, 0, id)).toISOString(),
+      variants: Array.from({ length: variants }, (_, position) => ({
+        id: id * 1000 + 500 + position,
+        title: `Variant ${position + 1}`,
+        sku: `SKU-${id}-${position + 1}`,
+        imageId: imageList[position]?.id ?? null,
+      })),
+      images: imageList,
+    };
+  });
+}
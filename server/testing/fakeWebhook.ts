@@ -0,0 +1,66 @@
+import { createHmac, randomUUID } from "crypto";
+
+// Image and variant ids far above real Shopify ids, so they never clash with indexed ones
+const FAKE_IMAGE_ID_BASE = 8_000_000_000_000_000;
+const FAKE_VARIANT_ID_BASE = 8_500_000_000_000_000;
+
+export interface FakeProductOptions {
+  productId: number;
+  title: string;
+  skus: string[];
+  images: string[]; // image URLs in display order
+}
+
+// A minimal REST product resource: one variant per SKU, images in the given order. The
+// receiver compares image URLs, so resending the same images counts as unchanged.
+export function buildFakeProduct({ productId, title, skus, images: imageUrls }: FakeProductOptions) {
+  const images = imageUrls.map((src, index) => ({
+    id: FAKE_IMAGE_ID_BASE + (productId % 1_000_000) * 1000 + index,
+    product_id: productId,
+    position: index + 1,
+    src,
+    alt: null,
+  }));
+  return {
+    id: productId,
+    title,
+    handle: title.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+    updated_at: new Date().toISOString(),
+    variants: skus.map((sku, index) => ({
+      id: FAKE_VARIANT_ID_BASE + (productId % 1_000_000) * 1000 + index,
+      product_id: productId,
+      sku,
+      title: skus.length > 1 ? sku : "Default Title",
+      position: index + 1,
+      image_id: images[index]?.id ?? null,
+    })),
+    images,
+  };
+}
+
+export interface FakeWebhookDelivery {
+  url: string;
+  secret: string;
+  shop: string; // the store's myshopify.com domain
+  body: string;
+  topic?: string;
+  webhookId?: string; // reuse one to send a repeated delivery
+  badSignature?: boolean; // sign with the wrong secret
+}
+
+// Sends a webhook signed the way Shopify signs them
+export function sendFakeWebhook({ url, secret, shop, body, topic = "products/update", webhookId = randomUUID(), badSignature = false }: FakeWebhookDelivery) {
+  const hmac = createHmac("sha256", badSignature ? "not-the-secret" : secret).update(body).digest("base64");
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Topic": topic,
+      "X-Shopify-Shop-Domain": shop,
+      "X-Shopify-Hmac-Sha256": hmac,
+      "X-Shopify-Webhook-Id": webhookId,
+      "X-Shopify-Triggered-At": new Date().toISOString(),
+    },
+    body,
+  });
+}
@@ -0,0 +1,122 @@
+import type { Request, RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+
+export const MAX_IMAGE_UPLOAD_BYTES = 25 * 1024 * 1024;
+export const MAX_PDF_UPLOAD_BYTES = 100 * 1024 * 1024;
+export const MAX_UPLOAD_FILES = 30;
+
+type UploadKind = 'image' | 'pdf';
+
+const acceptedTypes: Record<UploadKind, { mimeTypes: string[]; extensions: RegExp; label: string }> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/tiff', 'image/gif'],
+    extensions: /\.(jpe?g|png|webp|avif|tiff?|gif)$/i,
+    label: 'JPEG, PNG, WebP, AVIF, TIFF or GIF images',
+  },
+  pdf: {
+    mimeTypes: ['application/pdf'],
+    extensions: /\.pdf$/i,
+    label: 'PDF documents',
+  },
+};
+
+// Formats as reported by sharp's metadata - AVIF is reported as 'heif'
+const decodableImageFormats = ['jpeg', 'png', 'webp', 'heif', 'tiff', 'gif'];
+
+class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+function createUpload(kind: UploadKind) {
+  const accepted = acceptedTypes[kind];
+
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: kind === 'pdf' ? MAX_PDF_UPLOAD_BYTES : MAX_IMAGE_UPLOAD_BYTES,
+      files: kind === 'pdf' ? 1 : MAX_UPLOAD_FILES,
+    },
+    fileFilter: (_req, file, callback) => {
+      // Some browsers send a generic type for TIFF/AVIF, so the extension also counts
+      if (accepted.mimeTypes.includes(file.mimetype) || accepted.extensions.test(file.originalname)) {
+        callback(null, true);
+      } else {
+        callback(new UploadError(`Unsupported file "${file.originalname}" - only ${accepted.label} are accepted`, 415));
+      }
+    },
+  });
+}
+
+// The declared type can lie, so check the bytes before any processing starts
+async function verifyContent(kind: UploadKind, file: Express.Multer.File) {
+  if (kind === 'pdf') {
+    if (file.buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new UploadError(`"${file.originalname}" is not a valid PDF`, 415);
+    }
+    return;
+  }
+
+  try {
+    const { format } = await sharp(file.buffer).metadata();
+    if (format && decodableImageFormats.includes(format)) return;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new UploadError(`"${file.originalname}" is not a readable image`, 415);
+}
+
+function getUploadError(error: unknown): UploadError {
+  if (error instanceof UploadError) return error;
+  if (error instanceof multer.MulterError) {
+    switch (error.code) {
+      case 'LIMIT_FILE_SIZE':
+        return new UploadError(`File too large - images may be up to ${MAX_IMAGE_UPLOAD_BYTES / 1024 / 1024} MB and PDFs up to ${MAX_PDF_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+      case 'LIMIT_FILE_COUNT':
+        return new UploadError(`Too many files - at most ${MAX_UPLOAD_FILES} per upload`, 400);
+      case 'LIMIT_UNEXPECTED_FILE':
+        return new UploadError(`Unexpected file field "${error.field}"`, 400);
+    }
+    return new UploadError(error.message, 400);
+  }
+  return new UploadError('Failed to read upload', 400);
+}
+
+// Runs multer and content checks, answering upload problems with a JSON error
+function acceptUploads(kind: UploadKind, handler: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, async (error?: unknown) => {
+      try {
+        if (error) throw error;
+        for (const file of getUploadedFiles(req)) {
+          await verifyContent(kind, file);
+        }
+        next();
+      } catch (uploadError) {
+        const { status, message } = getUploadError(uploadError);
+        res.status(status).json({ error: message });
+      }
+    });
+  };
+}
+
+export const uploadImage = acceptUploads('image', createUpload('image').single('file'));
+export const uploadImages = acceptUploads('image', createUpload('image').array('files', MAX_UPLOAD_FILES));
+export const uploadPdf = acceptUploads('pdf', createUpload('pdf').single('file'));
+
+export function getUploadedFiles(req: Request): Express.Multer.File[] {
+  if (req.file) return [req.file];
+  return Array.isArray(req.files) ? req.files : [];
+}
+
+// Request options arrive as a JSON string in the 'options' form field
+export function getUploadOptions(req: Request): unknown {
+  try {
+    return JSON.parse(req.body?.options ?? '{}');
+  } catch {
+    return undefined;
+  }
+}
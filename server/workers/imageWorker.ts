@@ -0,0 +1,16 @@
+import { parentPort } from 'worker_threads';
+import { workScheduler, type WorkMessage } from '../services/workScheduler';
+// Importing the processors registers their tasks with the scheduler
+import '../services/imageProcessor';
+import '../services/pdfProcessor';
+
+// Runs sharp tasks sent by the WorkerPool, one at a time
+parentPort!.on('message', async (message: WorkMessage) => {
+  try {
+    const result = await workScheduler.runInline(message);
+    parentPort!.postMessage({ result });
+  } catch (error) {
+    const { name: errorName = 'Error', message = 'Unknown error' } = error instanceof Error ? error : {};
+    parentPort!.postMessage({ error: { name: errorName, message } });
+  }
+});
@@ -1,35 +1,434 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, boolean, timestamp, index, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Job tracking for image processing
 export const processingJobs = pgTable("processing_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // 'sku' | 'pdf'
+  type: text("type").notNull(), // 'sku' | 'url' | 'pdf' | 'upload' | 'pdf-upload'
   status: text("status").notNull().default('pending'), // 'pending' | 'processing' | 'completed' | 'failed'
-  input: text("input").notNull(), // SKU or PDF URL
-  dimensions: text("dimensions").notNull(), // '342x427' | '600x600'
+  input: text("input").notNull(), // SKU, URL or uploaded file name
+  dimensions: text("dimensions").notNull(), // 'WxH', either side may be 'auto'
   dpi: integer("dpi").notNull().default(300),
+  format: text("format").notNull().default('jpeg'), // 'jpeg' | 'webp' | 'avif' | 'png' | 'tiff'
+  preset: text("preset"), // preset id the output settings were resolved from
   resultUrl: text("result_url"),
   errorMessage: text("error_message"),
   productTitle: text("product_title"),
   productImage: text("product_image"),
-});
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("processing_jobs_status_idx").on(table.status),
+  index("processing_jobs_created_at_idx").on(table.createdAt),
+]);
 
 export const insertProcessingJobSchema = createInsertSchema(processingJobs).pick({
   type: true,
   input: true,
   dimensions: true,
   dpi: true,
+  format: true,
+  preset: true,
+});
+
+// Queued batch jobs - persisted so a restart can resume them and still serve results
+export const batchJobs = pgTable("batch_jobs", {
+  id: varchar("id").primaryKey(),
+  status: text("status").notNull().default('pending'), // 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled'
+  options: jsonb("options").notNull(), // resolved output options plus dpi
+  total: integer("total").notNull(),
+  completed: integer("completed").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  cancelled: integer("cancelled").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("batch_jobs_status_idx").on(table.status),
+]);
+
+export const batchItems = pgTable("batch_items", {
+  id: varchar("id").primaryKey(),
+  jobId: varchar("job_id").notNull().references(() => batchJobs.id, { onDelete: 'cascade' }),
+  position: integer("position").notNull(),
+  type: text("type").notNull(), // 'sku' | 'url' | 'upload'
+  input: text("input").notNull(), // SKU, URL or uploaded file name
+  status: text("status").notNull().default('pending'), // 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  uploadKey: text("upload_key"), // result store key of an uploaded source file, kept until the job is cleaned up
+  outputs: jsonb("outputs").notNull().$type<BatchItemOutput[]>().default([]), // converted images, several in all-images mode
+  warnings: jsonb("warnings").$type<string[]>(),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0), // tries made in the last run, including automatic retries
+  publication: jsonb("publication").$type<BatchItemPublication>(), // set once the outputs were published to Shopify
+}, (table) => [
+  index("batch_items_job_id_idx").on(table.jobId, table.position),
+]);
+
+export interface BatchItemOutput {
+  filename: string;
+  key: string; // result store key
+  contentType: string;
+}
+
+// What the publish step did (or would do, on a dry run) with an item's outputs
+export interface BatchItemPublication {
+  productId: number;
+  mode: PublishOptions['mode'];
+  dryRun: boolean;
+  media: Array<{ id: string | null; filename: string; alt: string }>; // id is the new MediaImage gid, null on dry runs
+  removedMediaIds: string[]; // media the outputs replaced
+  pendingRemoval?: boolean; // the new media exist but removedMediaIds haven't been deleted yet
+  publishedAt: string;
+}
+
+export type BatchJobRecord = typeof batchJobs.$inferSelect;
+export type InsertBatchJobRecord = typeof batchJobs.$inferInsert;
+export type BatchItemRecord = typeof batchItems.$inferSelect;
+export type InsertBatchItemRecord = typeof batchItems.$inferInsert;
+
+// Local copy of the Shopify catalog used as the first SKU lookup path - kept current by
+// incremental syncs on Shopify's updated_at. Shopify ids are unique across stores, so only
+// products record which store they came from.
+export const catalogProducts = pgTable("catalog_products", {
+  id: bigint("id", { mode: "number" }).primaryKey(), // Shopify product id
+  storeId: varchar("store_id").notNull().default('default'), // see shopifyStores
+  title: text("title").notNull(),
+  handle: text("handle").notNull(),
+  images: jsonb("images").notNull().$type<CatalogImage[]>(), // in Shopify's display order
+  shopifyUpdatedAt: timestamp("shopify_updated_at").notNull(),
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
+}, (table) => [
+  index("catalog_products_store_id_synced_at_idx").on(table.storeId, table.syncedAt),
+]);
+
+export const catalogVariants = pgTable("catalog_variants", {
+  id: bigint("id", { mode: "number" }).primaryKey(), // Shopify variant id
+  productId: bigint("product_id", { mode: "number" }).notNull().references(() => catalogProducts.id, { onDelete: 'cascade' }),
+  sku: text("sku").notNull(),
+  normalizedSku: text("normalized_sku").notNull(), // trimmed and lower-cased for case-insensitive lookups
+  title: text("title").notNull(),
+  imageId: bigint("image_id", { mode: "number" }), // the variant's own image, if it has one
+  position: integer("position").notNull(),
+}, (table) => [
+  index("catalog_variants_normalized_sku_idx").on(table.normalizedSku),
+  index("catalog_variants_product_id_idx").on(table.productId),
+]);
+
+// Reverse lookup index from an image's Shopify ID, URL or file name to its product
+export const catalogImages = pgTable("catalog_images", {
+  id: bigint("id", { mode: "number" }).primaryKey(), // Shopify image id
+  productId: bigint("product_id", { mode: "number" }).notNull().references(() => catalogProducts.id, { onDelete: 'cascade' }),
+  urlKey: text("url_key").notNull(), // see imageUrlKey()
+  filenameKey: text("filename_key").notNull(), // see imageFilenameKey()
+  position: integer("position").notNull(),
+}, (table) => [
+  index("catalog_images_url_key_idx").on(table.urlKey),
+  index("catalog_images_filename_key_idx").on(table.filenameKey),
+  index("catalog_images_product_id_idx").on(table.productId),
+]);
+
+// Progress of the catalog sync, one row per store
+export const catalogSyncState = pgTable("catalog_sync_state", {
+  id: varchar("id").primaryKey(),
+  lastUpdatedAt: timestamp("last_updated_at"), // newest product updated_at seen - incremental syncs start here
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastError: text("last_error"),
+});
+
+// Every set of output settings a SKU has been converted with, so the SKU can be converted
+// the same ways again when its product photos change in Shopify
+export const skuConversions = pgTable("sku_conversions", {
+  storeId: varchar("store_id").notNull(),
+  normalizedSku: text("normalized_sku").notNull(),
+  sku: text("sku").notNull(), // as last converted
+  settingsKey: text("settings_key").notNull(), // see conversionSettingsKey()
+  settings: jsonb("settings").notNull(), // resolved output options plus dpi and image selector
+  convertedAt: timestamp("converted_at").notNull().defaultNow(), // the latest conversion with these settings
+}, (table) => [
+  primaryKey({ columns: [table.storeId, table.normalizedSku, table.settingsKey] }),
+]);
+
+export type SkuConversion = typeof skuConversions.$inferSelect;
+
+// Product webhooks by X-Shopify-Webhook-Id, so a redelivery doesn't queue the same jobs again.
+// A delivery that failed partway keeps the jobs queued so far and has no completedAt.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey(),
+  storeId: varchar("store_id").notNull(),
+  productId: bigint("product_id", { mode: "number" }).notNull(),
+  jobs: jsonb("jobs").notNull().$type<WebhookDeliveryJob[]>(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("webhook_deliveries_received_at_idx").on(table.receivedAt),
+]);
+
+export interface WebhookDeliveryJob {
+  key: string; // settings key and chunk of the product's SKUs
+  jobId: string;
+}
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// Catalog image audits (see CatalogAudit below) and the issues each one found, in the order found
+export const catalogAudits = pgTable("catalog_audits", {
+  id: varchar("id").primaryKey(),
+  storeId: varchar("store_id").notNull(),
+  status: text("status").notNull().default('running'), // running, completed, failed
+  options: jsonb("options").notNull().$type<CatalogAuditOptions>(),
+  scanned: jsonb("scanned").notNull().$type<CatalogAudit['scanned']>(),
+  issueCounts: jsonb("issue_counts").notNull().$type<CatalogAudit['issueCounts']>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("catalog_audits_started_at_idx").on(table.startedAt),
+]);
+
+export const catalogAuditIssues = pgTable("catalog_audit_issues", {
+  auditId: varchar("audit_id").notNull().references(() => catalogAudits.id, { onDelete: 'cascade' }),
+  position: integer("position").notNull(),
+  type: text("type").notNull().$type<CatalogAuditIssueType>(),
+  productId: bigint("product_id", { mode: "number" }).notNull(),
+  productTitle: text("product_title").notNull(),
+  handle: text("handle").notNull(),
+  sku: text("sku"),
+  variantTitle: text("variant_title"),
+  imageId: bigint("image_id", { mode: "number" }),
+  imageUrl: text("image_url"),
+  width: integer("width"),
+  height: integer("height"),
+  detail: text("detail").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.auditId, table.position] }),
+]);
+
+export type CatalogAuditRecord = typeof catalogAudits.$inferSelect;
+export type InsertCatalogAuditRecord = typeof catalogAudits.$inferInsert;
+
+// Settings objects that only differ in key order are the same settings
+export function conversionSettingsKey(settings: unknown): string {
+  return JSON.stringify(settings, (_key, value) => value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+    : value);
+}
+
+export interface CatalogImage {
+  id: number;
+  src: string;
+  alt: string | null;
+}
+
+export type CatalogProductRecord = typeof catalogProducts.$inferSelect;
+export type InsertCatalogProductRecord = typeof catalogProducts.$inferInsert;
+export type CatalogVariantRecord = typeof catalogVariants.$inferSelect;
+export type InsertCatalogVariantRecord = typeof catalogVariants.$inferInsert;
+export type CatalogImageRecord = typeof catalogImages.$inferSelect;
+export type InsertCatalogImageRecord = typeof catalogImages.$inferInsert;
+export type CatalogSyncState = typeof catalogSyncState.$inferSelect;
+
+// A product with its variants, as stored in the catalog index
+export type CatalogProduct = CatalogProductRecord & { variants: CatalogVariantRecord[] };
+export type InsertCatalogProduct = InsertCatalogProductRecord & {
+  variants: Omit<InsertCatalogVariantRecord, 'productId'>[];
+  imageKeys: Omit<InsertCatalogImageRecord, 'productId'>[];
+};
+
+export function normalizeSku(sku: string): string {
+  return sku.trim().toLowerCase();
+}
+
+// Looser than normalizeSku for search: 66p 00022n_fls and 66P-00022N-FLS compare equal
+export function skuSearchKey(sku: string): string {
+  return sku.toLowerCase().replace(/[\s\-_./]+/g, '');
+}
+
+// Shopify serves the same file as x.png?v=123, x_800x.png, x_1024x1024@2x.png, ... - the key
+// is the lower-cased name with the extension, cache buster and size suffix removed
+export function imageFilenameKey(urlOrFilename: string): string {
+  const path = urlOrFilename.trim().split(/[?#]/)[0];
+  let name = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return name
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/@\dx$/, '')
+    .replace(/_(?:\d+x\d*|x\d+|pico|icon|thumb|small|compact|medium|large|grande|original|master)(?:_crop_[a-z]+)?$/, '');
+}
+
+// Host and path with the file name reduced to its filename key, so an image matches
+// whichever size or cache buster of it was requested
+export function imageUrlKey(url: string): string {
+  try {
+    const { host, pathname } = new URL(url.trim());
+    return `${host.toLowerCase()}${pathname.slice(0, pathname.lastIndexOf('/') + 1)}${imageFilenameKey(pathname)}`;
+  } catch {
+    return imageFilenameKey(url);
+  }
+}
+
+// Job history listing - every filter is optional, newest jobs first
+export const processingJobFilterSchema = z.object({
+  status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+  type: z.string().optional(),
+  preset: z.string().optional(),
+  search: z.string().trim().min(1).optional(), // substring of the input (SKU, URL or file name)
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ProcessingJobFilter = z.infer<typeof processingJobFilterSchema>;
+
+// Output image formats - JPEG/WebP/AVIF are lossy web formats, PNG/TIFF are lossless for print
+export const outputFormatSchema = z.enum(['jpeg', 'webp', 'avif', 'png', 'tiff']);
+
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+export const outputFormatDetails: Record<OutputFormat, { label: string; extension: string; mimeType: string }> = {
+  jpeg: { label: 'JPEG', extension: 'jpg', mimeType: 'image/jpeg' },
+  webp: { label: 'WebP', extension: 'webp', mimeType: 'image/webp' },
+  avif: { label: 'AVIF', extension: 'avif', mimeType: 'image/avif' },
+  png: { label: 'PNG (lossless)', extension: 'png', mimeType: 'image/png' },
+  tiff: { label: 'TIFF (lossless)', extension: 'tiff', mimeType: 'image/tiff' },
+};
+
+// How the source image is fitted into the output box
+export const fitModeSchema = z.enum(['cover', 'contain', 'inside', 'fill']);
+
+export type FitMode = z.infer<typeof fitModeSchema>;
+
+// Anchor used when 'cover' has to crop
+export const gravitySchema = z.enum(['center', 'north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest']);
+
+export type Gravity = z.infer<typeof gravitySchema>;
+
+// How 'cover' decides what to keep: the gravity anchor, sharp's smart-crop strategies,
+// or the detected product bounding box (centered with a margin)
+export const cropStrategySchema = z.enum(['gravity', 'attention', 'entropy', 'bbox']);
+
+export type CropStrategy = z.infer<typeof cropStrategySchema>;
+
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #ffffff");
+
+export const MAX_OUTPUT_DIMENSION = 8000;
+
+// Ad-hoc output size as 'WxH'. Either side may be 'auto' to keep the aspect ratio (e.g. '2048xauto')
+export const dimensionsSchema = z.string()
+  .regex(/^(\d{1,5}|auto)x(\d{1,5}|auto)$/, "Dimensions must look like 600x600 or 2048xauto")
+  .refine(value => {
+    const sides = value.split('x');
+    if (sides.every(side => side === 'auto')) return false;
+    return sides.every(side => side === 'auto' || (Number(side) >= 1 && Number(side) <= MAX_OUTPUT_DIMENSION));
+  }, { message: `Each side must be between 1 and ${MAX_OUTPUT_DIMENSION} pixels, and at most one side may be auto` });
+
+// Physical output size - pixels are derived from the request's DPI
+export const printSizeSchema = z.object({
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  unit: z.enum(['in', 'mm']),
+}).refine(size => size.width || size.height, { message: "A print size needs a width or a height" });
+
+export type PrintSize = z.infer<typeof printSizeSchema>;
+
+// Named size presets
+export const imagePresets = pgTable("image_presets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  width: integer("width"), // null = auto
+  height: integer("height"), // null = auto
+  fit: text("fit").notNull().default('cover'),
+  background: text("background").notNull().default('#ffffff'),
+  format: text("format").notNull().default('jpeg'),
+});
+
+const presetSideSchema = z.number().int().min(1).max(MAX_OUTPUT_DIMENSION).nullable().optional();
+
+// Fields left out take the column defaults
+export const insertImagePresetSchema = createInsertSchema(imagePresets, {
+  name: z.string().trim().min(1).max(80),
+  description: z.string().max(200).nullable().optional(),
+  width: presetSideSchema,
+  height: presetSideSchema,
+  fit: fitModeSchema.optional(),
+  background: hexColorSchema.optional(),
+  format: outputFormatSchema.optional(),
+}).omit({ id: true });
+
+export const createImagePresetSchema = insertImagePresetSchema.refine(data => data.width || data.height, {
+  message: "A preset needs at least a width or a height"
+});
+
+export const updateImagePresetSchema = insertImagePresetSchema.partial();
+
+export type InsertImagePreset = z.infer<typeof insertImagePresetSchema>;
+export type ImagePreset = typeof imagePresets.$inferSelect;
+
+// Output settings shared by every conversion request. A preset supplies the
+// defaults and any explicitly provided field overrides it.
+export const imageOutputOptionsSchema = z.object({
+  preset: z.string().optional(),
+  dimensions: dimensionsSchema.optional(),
+  printSize: printSizeSchema.optional(), // takes precedence over dimensions and preset size
+  format: outputFormatSchema.optional(),
+  fit: fitModeSchema.optional(),
+  background: hexColorSchema.optional(), // pad color for 'contain'
+  gravity: gravitySchema.optional(), // crop anchor for 'cover'
+  cropStrategy: cropStrategySchema.optional(),
+  cropMargin: z.number().min(0).max(50).optional(), // % of the product box kept around it with 'bbox'
+  normalizeBackground: z.boolean().optional(), // trim, flatten to pure white and re-pad to fillRatio
+  trimTolerance: z.number().int().min(0).max(100).optional(), // color distance still treated as background
+  fillRatio: z.number().min(0.3).max(1).optional(), // share of the canvas the product spans
 });
 
+export type ImageOutputOptions = z.infer<typeof imageOutputOptionsSchema>;
+
+const hasOutputSize = (data: { preset?: string; dimensions?: string; printSize?: PrintSize }) =>
+  !!(data.preset || data.dimensions || data.printSize);
+const outputSizeMessage = { message: "A preset, dimensions or a print size is required" };
+
+// Which of a product's images a SKU converts. 'variant' uses the SKU's own variant image
+// and falls back to the first image; 'alt' matches a case-insensitive part of the alt text;
+// 'all' converts every image, named SKU-1, SKU-2, ...
+export const imageSelectorSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('primary') }),
+  z.object({ type: z.literal('variant') }),
+  z.object({ type: z.literal('index'), index: z.number().int().min(0) }),
+  z.object({ type: z.literal('alt'), match: z.string().trim().min(1) }),
+  z.object({ type: z.literal('all') }),
+]);
+
+export type ImageSelector = z.infer<typeof imageSelectorSchema>;
+
+// The Shopify store a request or batch job works against - the first configured store when omitted
+export const storeIdSchema = z.string().trim().min(1).max(64).optional();
+
+// Single SKU processing request
+export const skuProcessingRequestSchema = imageOutputOptionsSchema.extend({
+  storeId: storeIdSchema,
+  sku: z.string().trim().min(1),
+  imageSelector: imageSelectorSchema.optional(), // the variant's image by default
+  dpi: z.coerce.number().min(72).max(1200),
+}).refine(hasOutputSize, outputSizeMessage);
+
+export type SkuProcessingRequest = z.infer<typeof skuProcessingRequestSchema>;
+
 // URL processing request
-export const urlProcessingRequestSchema = z.object({
+export const urlProcessingRequestSchema = imageOutputOptionsSchema.extend({
+  storeId: storeIdSchema, // names the output after the SKU the image belongs to in this store
   url: z.string().url(),
-  dimensions: z.enum(['342x427', '600x600']),
   dpi: z.number().min(72).max(1200),
-});
+}).refine(hasOutputSize, outputSizeMessage);
 
 export type UrlProcessingRequest = z.infer<typeof urlProcessingRequestSchema>;
 
@@ -45,6 +444,7 @@ export const shopifyProductSchema = z.object({
     id: z.number(),
     sku: z.string(),
     title: z.string(),
+    image_id: z.number().nullable().optional(), // the variant's own image, if it has one
   })),
   images: z.array(z.object({
     id: z.number(),
@@ -55,31 +455,209 @@ export const shopifyProductSchema = z.object({
 
 export type ShopifyProduct = z.infer<typeof shopifyProductSchema>;
 
+// products/create and products/update webhook payload - the REST product resource, of which
+// only these fields are used
+export const productWebhookSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  handle: z.string(),
+  updated_at: z.string(),
+  variants: z.array(z.object({
+    id: z.number(),
+    sku: z.string().nullable(),
+    title: z.string(),
+    image_id: z.number().nullable().optional(),
+    position: z.number(),
+  })),
+  images: z.array(z.object({
+    id: z.number(),
+    src: z.string(),
+    alt: z.string().nullable().optional(),
+    position: z.number(),
+  })),
+});
+
+export type ProductWebhook = z.infer<typeof productWebhookSchema>;
+export type ShopifyImage = ShopifyProduct['images'][number];
+
+// Picks the image an image selector points at, or undefined when nothing matches
+export function selectProductImage(product: ShopifyProduct, sku: string, selector: ImageSelector = { type: 'variant' }): ShopifyImage | undefined {
+  switch (selector.type) {
+    case 'primary':
+    case 'all':
+      return product.images[0];
+    case 'variant': {
+      const variant = product.variants.find(variant => normalizeSku(variant.sku) === normalizeSku(sku));
+      return product.images.find(image => variant?.image_id && image.id === variant.image_id) ?? product.images[0];
+    }
+    case 'index':
+      return product.images[selector.index];
+    case 'alt': {
+      const match = selector.match.toLowerCase();
+      return product.images.find(image => image.alt?.toLowerCase().includes(match));
+    }
+  }
+}
+
+// Every image the selector picks, each with the output basename it gets
+export function selectProductImages(product: ShopifyProduct, sku: string, selector?: ImageSelector): Array<{ image: ShopifyImage; basename: string }> {
+  if (selector?.type === 'all') {
+    return product.images.map((image, index) => ({ image, basename: `${sku}-${index + 1}` }));
+  }
+  const image = selectProductImage(product, sku, selector);
+  return image ? [{ image, basename: sku }] : [];
+}
+
 // Bulk processing request
-export const bulkProcessingRequestSchema = z.object({
+export const bulkProcessingRequestSchema = imageOutputOptionsSchema.extend({
+  storeId: storeIdSchema,
   skus: z.array(z.string()).min(1),
-  dimensions: z.enum(['342x427', '600x600']),
+  imageSelector: imageSelectorSchema.optional(),
   dpi: z.number().min(72).max(1200),
-});
+}).refine(hasOutputSize, outputSizeMessage);
 
 export type BulkProcessingRequest = z.infer<typeof bulkProcessingRequestSchema>;
 
-// Mixed bulk processing request (SKUs + URLs)
-export const bulkMixedProcessingRequestSchema = z.object({
+// A slice of the Shopify catalog - every SKU in a collection (handle or numeric ID), from a
+// vendor, of a product type or with a tag
+export const catalogSelectionSchema = z.object({
+  by: z.enum(['collection', 'vendor', 'productType', 'tag']),
+  value: z.string().trim().min(1),
+});
+
+export type CatalogSelection = z.infer<typeof catalogSelectionSchema>;
+
+// SKU typeahead and "did you mean" suggestions from the catalog index
+export const skuSearchQuerySchema = z.object({
+  storeId: storeIdSchema,
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(25).default(8),
+});
+
+export interface SkuSuggestion {
+  sku: string;
+  productId: number;
+  productTitle: string;
+  variantTitle: string;
+  imageUrl: string | null; // the variant's image, or the product's first
+  match: 'exact' | 'prefix' | 'contains' | 'fuzzy';
+  score: number; // 0-1, suggestions come best first
+}
+
+// Reverse lookup from an image to its SKUs - any one of these identifies the image
+export const imageLookupQuerySchema = z.object({
+  storeId: storeIdSchema,
+  url: z.string().url().optional(),
+  filename: z.string().trim().min(1).optional(),
+  imageId: z.coerce.number().int().positive().optional(),
+}).refine(data => data.url || data.filename || data.imageId, {
+  message: "An image URL, file name or image ID is required"
+});
+
+// Uploads a batch's converted SKU images to their Shopify products. 'append' adds them to the
+// product's media, 'replace' also removes the images they were converted from. The alt text may
+// use {sku} and {title}; without one the source image's alt text is kept.
+export const publishOptionsSchema = z.object({
+  mode: z.enum(['append', 'replace']).default('append'),
+  altText: z.string().trim().max(512).optional(),
+  dryRun: z.boolean().default(false), // work out what would change without touching the store
+});
+
+export type PublishOptions = z.infer<typeof publishOptionsSchema>;
+
+// Mixed bulk processing request (SKUs + URLs, plus the SKUs of a catalog selection)
+export const bulkMixedProcessingRequestSchema = imageOutputOptionsSchema.extend({
+  storeId: storeIdSchema,
   skus: z.array(z.string()).optional().default([]),
+  imageSelector: imageSelectorSchema.optional(), // applies to every SKU
   urls: z.array(z.string().url()).optional().default([]),
-  dimensions: z.enum(['342x427', '600x600']),
+  selection: catalogSelectionSchema.optional(),
+  publish: publishOptionsSchema.optional(),
   dpi: z.number().min(72).max(1200),
-}).refine(data => data.skus.length + data.urls.length >= 1, {
-  message: "At least one SKU or URL is required"
-});
+}).refine(data => data.skus.length + data.urls.length >= 1 || data.selection, {
+  message: "At least one SKU or URL, or a catalog selection, is required"
+}).refine(hasOutputSize, outputSizeMessage);
 
 export type BulkMixedProcessingRequest = z.infer<typeof bulkMixedProcessingRequestSchema>;
 
-// PDF processing request  
-export const pdfProcessingRequestSchema = z.object({
+// PDF processing request - without a preset or dimensions pages keep their original size
+export const pdfProcessingRequestSchema = imageOutputOptionsSchema.extend({
   url: z.string().url(),
-  dimensions: z.enum(['original', '342x427', '600x600']),
+  dimensions: z.union([z.literal('original'), dimensionsSchema]).optional(),
+  dpi: z.number().min(72).max(1200).optional(), // page render resolution, 150 by default
 });
 
 export type PdfProcessingRequest = z.infer<typeof pdfProcessingRequestSchema>;
+
+// Multipart uploads send these as a JSON 'options' field next to the file(s)
+export const uploadProcessingRequestSchema = imageOutputOptionsSchema.extend({
+  dpi: z.coerce.number().min(72).max(1200),
+}).refine(hasOutputSize, outputSizeMessage);
+
+export type UploadProcessingRequest = z.infer<typeof uploadProcessingRequestSchema>;
+
+// Uploaded images can be batched together with SKUs and URLs
+export const uploadBatchRequestSchema = imageOutputOptionsSchema.extend({
+  storeId: storeIdSchema,
+  skus: z.array(z.string()).optional().default([]),
+  imageSelector: imageSelectorSchema.optional(),
+  urls: z.array(z.string().url()).optional().default([]),
+  publish: publishOptionsSchema.optional(),
+  dpi: z.coerce.number().min(72).max(1200),
+}).refine(hasOutputSize, outputSizeMessage);
+
+export type UploadBatchRequest = z.infer<typeof uploadBatchRequestSchema>;
+
+export const pdfUploadRequestSchema = pdfProcessingRequestSchema.omit({ url: true });
+
+export type PdfUploadRequest = z.infer<typeof pdfUploadRequestSchema>;
+
+// Catalog image audit - products and images that convert badly or are incomplete
+export const catalogAuditIssueTypes = ['no_images', 'low_resolution', 'off_ratio', 'missing_alt', 'variant_without_image'] as const;
+
+export type CatalogAuditIssueType = typeof catalogAuditIssueTypes[number];
+
+// The defaults suit the largest square preset (marketplace, 1000x1000)
+export const catalogAuditRequestSchema = z.object({
+  storeId: storeIdSchema,
+  minResolution: z.number().int().min(1).max(10000).default(1000), // shortest side in pixels
+  aspectRatio: z.number().positive().max(10).default(1), // expected width / height
+  ratioTolerance: z.number().min(0).max(1).default(0.02), // relative deviation still accepted
+});
+
+export type CatalogAuditOptions = z.infer<typeof catalogAuditRequestSchema>;
+
+export const catalogAuditIssuesQuerySchema = z.object({
+  type: z.enum(catalogAuditIssueTypes).optional(),
+  q: z.string().trim().max(100).optional(), // part of a product title, handle or SKU
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type CatalogAuditIssuesQuery = z.infer<typeof catalogAuditIssuesQuerySchema>;
+
+export interface CatalogAuditIssue {
+  type: CatalogAuditIssueType;
+  productId: number;
+  productTitle: string;
+  handle: string;
+  sku: string | null; // variant issues only
+  variantTitle: string | null;
+  imageId: number | null; // image issues only
+  imageUrl: string | null;
+  width: number | null;
+  height: number | null;
+  detail: string;
+}
+
+export interface CatalogAudit {
+  id: string;
+  storeId: string;
+  status: 'running' | 'completed' | 'failed';
+  options: CatalogAuditOptions;
+  scanned: { products: number; images: number; variants: number };
+  issueCounts: Record<CatalogAuditIssueType, number>;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}